@@ -1,8 +1,29 @@
-import React, { useState, useCallback } from 'react';
-import { LoadingState, VideoResult, AspectRatio } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { PlayerRef } from '@remotion/player';
+import { LoadingState, VideoResult, AspectRatio, GenerationConfig, GenerationRequest, MotionProject, BrandKit, Soundtrack, VideoTemplate, StoryboardProviderInfo } from './types';
 import { Button } from './components/Button';
 import { VideoPlayer } from './components/VideoPlayer';
 import { QuoteCard } from './components/QuoteCard';
+import { ExportDialog } from './components/ExportDialog';
+import { SceneTimingEditor } from './components/SceneTimingEditor';
+import { TimelineEditor } from './components/TimelineEditor';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { TemplateLibrary } from './components/TemplateLibrary';
+import { BatchDialog } from './components/BatchDialog';
+import { CaptionSettings } from './components/CaptionSettings';
+import { BrandKitManager } from './components/BrandKitManager';
+import { SoundtrackPanel } from './components/SoundtrackPanel';
+import type { ExportFormat } from './lib/export';
+import { buildRefinementRequest, getVideoConfig, mergeRefinement } from './lib/refinement';
+import { createProject, projectFilename, serializeProject } from './lib/project/format';
+import { saveProject } from './lib/project/library';
+import { renderThumbnail } from './lib/export/thumbnail';
+import { downloadBlob } from './lib/download';
+import { toBrandGuidelines } from './lib/brand/kit';
+import { listBrandKits } from './lib/brand/library';
+import { loadSoundtrack, toMusicGuidelines } from './lib/audio/soundtrack';
+import { authorizationHeaders, getAccessToken, setAccessToken } from './lib/accessToken';
+import { fetchStoryboardProviders } from './api/api';
 
 const examplePrompts = [
     'A 3D logo reveal for a tech company called "Nexus"',
@@ -22,8 +43,7 @@ const aspectRatios: { id: AspectRatio, name: string }[] = [
  * Implements exponential backoff for retries to handle transient network issues.
  */
 const streamVideoGeneration = async (
-    prompt: string,
-    config: any,
+    request: GenerationRequest,
     onProgress: (state: LoadingState) => void,
     onResult: (result: VideoResult) => void,
     onError: (error: string) => void
@@ -36,8 +56,8 @@ const streamVideoGeneration = async (
         try {
             const response = await fetch('/api/api', {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ prompt, config }),
+                headers: { 'Content-Type': 'application/json', ...authorizationHeaders() },
+                body: JSON.stringify(request),
             });
 
             if (!response.body) {
@@ -49,7 +69,8 @@ const streamVideoGeneration = async (
                 const errorText = await response.text();
                 try {
                     const errorJson = JSON.parse(errorText);
-                    onError(`Server error: ${response.status} - ${errorJson.error || errorText}`);
+                    const hint = response.status === 401 ? ' Set your access token in Settings.' : '';
+                    onError(`Server error: ${response.status} - ${errorJson.error || errorText}${hint}`);
                 } catch {
                     onError(`Server error: ${response.status} ${response.statusText}. ${errorText}`);
                 }
@@ -106,6 +127,11 @@ const streamVideoGeneration = async (
     }
 };
 
+interface RefinementTurn {
+    prompt: string;
+    videoResult: VideoResult;
+}
+
 const App: React.FC = () => {
     const [prompt, setPrompt] = useState<string>('');
     const [videoResult, setVideoResult] = useState<VideoResult | null>(null);
@@ -113,6 +139,18 @@ const App: React.FC = () => {
     const [loadingState, setLoadingState] = useState<LoadingState | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [exportFormat, setExportFormat] = useState<ExportFormat | null>(null);
+    const playerRef = useRef<PlayerRef>(null);
+
+    // Refinement turns: each entry is the video before a follow-up prompt was applied.
+    const [undoStack, setUndoStack] = useState<RefinementTurn[]>([]);
+    const [redoStack, setRedoStack] = useState<RefinementTurn[]>([]);
+
+    // The project the current video belongs to; saved to the local library as it changes.
+    const [project, setProject] = useState<MotionProject | null>(null);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+    const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+    const [isBatchOpen, setIsBatchOpen] = useState(false);
 
     // Video configuration state
     const [duration, setDuration] = useState(10);
@@ -123,6 +161,55 @@ const App: React.FC = () => {
     const [overrideBg, setOverrideBg] = useState<boolean>(false);
     const [bgColor, setBgColor] = useState<string>('#111827');
 
+    // Brand kits are shared by every project; the selected one is applied to new generations.
+    const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+    const [brandKitId, setBrandKitId] = useState<string | null>(null);
+    const [isBrandKitsOpen, setIsBrandKitsOpen] = useState(false);
+
+    // Music chosen before generating, so the storyboard can be timed to its beats.
+    const [soundtrack, setSoundtrack] = useState<Soundtrack | null>(null);
+    const [soundtrackError, setSoundtrackError] = useState<string | null>(null);
+    const soundtrackInputRef = useRef<HTMLInputElement>(null);
+
+    const handleSoundtrackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file: File | undefined = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setSoundtrackError(null);
+        try {
+            setSoundtrack(await loadSoundtrack(file));
+        } catch (err) {
+            setSoundtrackError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    // Storyboard models the server offers; an empty provider leaves the choice to the server.
+    const [providers, setProviders] = useState<StoryboardProviderInfo[]>([]);
+    const [provider, setProvider] = useState('');
+    const [model, setModel] = useState('');
+    const providerInfo = providers.find(({ name }) => name === provider);
+
+    // Loaded when Settings opens, so an access token entered there applies the next time.
+    useEffect(() => {
+        if (!isSettingsOpen) return;
+        fetchStoryboardProviders()
+            .then(({ providers }) => setProviders(providers))
+            .catch(e => console.error('Failed to load storyboard providers:', e));
+    }, [isSettingsOpen]);
+
+    const handleProviderChange = (name: string) => {
+        setProvider(name);
+        setModel('');
+    };
+
+    const refreshBrandKits = useCallback(() => {
+        listBrandKits().then(setBrandKits).catch(e => console.error('Failed to load brand kits:', e));
+    }, []);
+
+    useEffect(() => {
+        refreshBrandKits();
+    }, [refreshBrandKits]);
+
     
     const handleGenerate = useCallback(async (e?: React.FormEvent) => {
         if (e) e.preventDefault();
@@ -135,21 +222,28 @@ const App: React.FC = () => {
         // Start with an initial loading state, but let the server stream drive the real steps.
         setLoadingState({step: 0, totalSteps: 1, message: 'Initializing...'})
         
-        const config = { 
+        const brandKit = brandKits.find(kit => kit.id === brandKitId);
+        const config: GenerationConfig = { 
             duration, 
             aspectRatio, 
             generateNarration, 
             textColor, 
             transparentBackground,
             backgroundColor: overrideBg ? bgColor : undefined,
+            brand: brandKit && toBrandGuidelines(brandKit),
+            music: soundtrack ? toMusicGuidelines(soundtrack) : undefined,
+            provider: provider || undefined,
+            model: model || undefined,
         };
         
         await streamVideoGeneration(
-            prompt,
-            config,
+            { prompt, config },
             (state) => setLoadingState(state),
-            (result) => {
+            (generated) => {
+                const withBrand = brandKit ? { ...generated, brandKit } : generated;
+                const result = soundtrack ? { ...withBrand, soundtrack } : withBrand;
                 setVideoResult(result);
+                setProject(createProject({ prompt, config, videoResult: result }));
                 setLoading(false);
                 setLoadingState(null);
             },
@@ -159,11 +253,122 @@ const App: React.FC = () => {
                 setLoadingState(null);
             }
         );
-    }, [prompt, loading, duration, aspectRatio, generateNarration, textColor, transparentBackground, overrideBg, bgColor]);
-    
+    }, [prompt, loading, duration, aspectRatio, generateNarration, textColor, transparentBackground, overrideBg, bgColor, brandKits, brandKitId, soundtrack, provider, model]);
+
+    const handleRefine = useCallback(async () => {
+        if (!prompt.trim() || loading || !videoResult) return;
+
+        const previous = videoResult;
+        const instruction = prompt.trim();
+        setLoading(true);
+        setError(null);
+        setLoadingState({step: 0, totalSteps: 1, message: 'Initializing...'});
+
+        // Refinements keep the video's own settings but use the model currently picked in Settings.
+        const request = buildRefinementRequest(instruction, previous);
+        await streamVideoGeneration(
+            { ...request, config: { ...request.config, provider: provider || undefined, model: model || undefined } },
+            (state) => setLoadingState(state),
+            (result) => {
+                setVideoResult(mergeRefinement(previous, result));
+                setUndoStack(stack => [...stack, { prompt: instruction, videoResult: previous }]);
+                setRedoStack([]);
+                setPrompt('');
+                setLoading(false);
+                setLoadingState(null);
+            },
+            (err) => {
+                setError(err);
+                setLoading(false);
+                setLoadingState(null);
+            }
+        );
+    }, [prompt, loading, videoResult, provider, model]);
+
+    const handleSubmit = (e?: React.FormEvent) => {
+        if (videoResult) {
+            e?.preventDefault();
+            handleRefine();
+        } else {
+            handleGenerate(e);
+        }
+    };
+
+    const handleUndo = () => {
+        const turn = undoStack[undoStack.length - 1];
+        if (!turn || !videoResult) return;
+        setUndoStack(undoStack.slice(0, -1));
+        setRedoStack([...redoStack, { prompt: turn.prompt, videoResult }]);
+        setVideoResult(turn.videoResult);
+    };
+
+    const handleRedo = () => {
+        const turn = redoStack[redoStack.length - 1];
+        if (!turn || !videoResult) return;
+        setRedoStack(redoStack.slice(0, -1));
+        setUndoStack([...undoStack, { prompt: turn.prompt, videoResult }]);
+        setVideoResult(turn.videoResult);
+    };
+
+    const getCurrentProject = useCallback((): MotionProject | null => project && videoResult && {
+        ...project,
+        videoResult,
+        refinements: [...project.refinements, ...undoStack.map(turn => turn.prompt)],
+        updatedAt: new Date().toISOString(),
+    }, [project, videoResult, undoStack]);
+
+    // Save after edits settle, so dragging keyframes doesn't re-render a thumbnail on every move.
+    useEffect(() => {
+        const current = getCurrentProject();
+        if (!current) return;
+        const timer = setTimeout(async () => {
+            try {
+                await saveProject(current, await renderThumbnail(current.videoResult));
+            } catch (e) {
+                console.error('Failed to save the project:', e);
+            }
+        }, 1500);
+        return () => clearTimeout(timer);
+    }, [getCurrentProject]);
+
+    const handleOpenProject = (opened: MotionProject) => {
+        setProject(opened);
+        setVideoResult(opened.videoResult);
+        setUndoStack([]);
+        setRedoStack([]);
+        setPrompt('');
+        setError(null);
+        setIsLibraryOpen(false);
+    };
+
+    // A filled-in template becomes a new project, as if it had been generated.
+    const handleUseTemplate = (result: VideoResult, template: VideoTemplate) => {
+        setVideoResult(result);
+        setProject(createProject({ prompt: template.name, config: getVideoConfig(result), videoResult: result }));
+        setUndoStack([]);
+        setRedoStack([]);
+        setPrompt('');
+        setError(null);
+        setIsTemplatesOpen(false);
+    };
+
+    const handleDownloadProject = () => {
+        const current = getCurrentProject();
+        if (!current) return;
+        downloadBlob(new Blob([serializeProject(current)], { type: 'application/json' }), projectFilename(current));
+    };
+
+    // A failed refinement returns to the video it started from; a failed generation returns to the form.
     const handleTryAgain = () => {
         setError(null);
+    }
+
+    const handleCreateAnother = () => {
         setVideoResult(null);
+        setProject(null);
+        setUndoStack([]);
+        setRedoStack([]);
+        setPrompt('');
     }
 
     const showForm = !loading && !error && !videoResult;
@@ -176,7 +381,7 @@ const App: React.FC = () => {
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-20 w-20 text-indigo-400 loader-animate" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
                         <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09zM18.259 8.715L18 9.75l-.259-1.035a3.375 3.375 0 00-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 002.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 002.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 00-2.456 2.456zM16.898 20.573L16.5 21.75l-.398-1.177a3.375 3.375 0 00-2.455-2.456L12.75 18l1.177-.398a3.375 3.375 0 002.455-2.456L16.5 14.25l.398 1.177a3.375 3.375 0 002.456 2.456L20.25 18l-1.177.398a3.375 3.375 0 00-2.456 2.456z" />
                     </svg>
-                    <h2 className="text-2xl font-plex font-semibold mt-6 mb-2 text-indigo-300">Generating your motion graphic...</h2>
+                    <h2 className="text-2xl font-plex font-semibold mt-6 mb-2 text-indigo-300">{videoResult ? 'Refining your motion graphic...' : 'Generating your motion graphic...'}</h2>
                     <p className="text-gray-400 mb-6 min-h-[2rem]">{loadingState.message}</p>
                     <div className="w-full bg-gray-700/50 rounded-full h-2.5 mt-2">
                         <div className="bg-gradient-to-r from-purple-500 to-indigo-500 h-2.5 rounded-full" style={{ width: `${progress}%`, transition: 'width 0.5s ease-in-out' }}></div>
@@ -207,15 +412,26 @@ const App: React.FC = () => {
                 <div className="w-full max-w-5xl mx-auto text-center">
                     <div className="bg-gray-900 rounded-xl shadow-2xl overflow-hidden border border-gray-700/50 mb-8">
                         <div className="relative w-full bg-black flex items-center justify-center">
-                            <VideoPlayer videoResult={videoResult} />
+                            <VideoPlayer videoResult={videoResult} playerRef={playerRef} />
                         </div>
                     </div>
+                    <TimelineEditor videoResult={videoResult} onChange={setVideoResult} playerRef={playerRef} />
+                    <SceneTimingEditor videoResult={videoResult} onChange={setVideoResult} />
+                    <SoundtrackPanel videoResult={videoResult} onChange={setVideoResult} />
+                    {videoResult.narration?.some(Boolean) && (
+                        <CaptionSettings videoResult={videoResult} onChange={setVideoResult} />
+                    )}
                     <div className="flex justify-center items-center gap-4">
-                        <Button onClick={handleTryAgain}>
+                        <Button onClick={handleCreateAnother}>
                             Create Another
                         </Button>
-                        <Button disabled>Export MP4</Button>
-                        <Button disabled>Export GIF</Button>
+                        <Button onClick={handleUndo} disabled={undoStack.length === 0} title={undoStack.length ? `Undo "${undoStack[undoStack.length - 1].prompt}"` : undefined}>Undo</Button>
+                        <Button onClick={handleRedo} disabled={redoStack.length === 0} title={redoStack.length ? `Redo "${redoStack[redoStack.length - 1].prompt}"` : undefined}>Redo</Button>
+                        <Button onClick={() => setExportFormat('mp4')}>Export MP4</Button>
+                        <Button onClick={() => setExportFormat('gif')}>Export GIF</Button>
+                        <Button onClick={() => setIsBatchOpen(true)}>Batch Render</Button>
+                        <Button onClick={handleDownloadProject}>Save Project</Button>
+                        <Button onClick={() => setIsTemplatesOpen(true)}>Save as Template</Button>
                     </div>
                 </div>
             );
@@ -237,6 +453,14 @@ const App: React.FC = () => {
                             </button>
                         ))}
                     </div>
+                    <div className="mt-6 flex justify-center gap-6">
+                        <button type="button" onClick={() => setIsLibraryOpen(true)} className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors">
+                            Open a saved project
+                        </button>
+                        <button type="button" onClick={() => setIsTemplatesOpen(true)} className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors">
+                            Start from a template
+                        </button>
+                    </div>
                 </div>
             </div>
         );
@@ -284,6 +508,59 @@ const App: React.FC = () => {
                                 <span className={`${transparentBackground ? 'translate-x-5' : 'translate-x-0'} pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out`}/>
                             </button>
                         </div>
+                        {/* Brand Kit */}
+                        <div className="flex items-center justify-between gap-3 col-span-1 md:col-span-2 lg:col-span-3">
+                            <label htmlFor="brand-kit" className="text-sm font-medium text-gray-300">Brand Kit</label>
+                            <div className="flex items-center gap-3">
+                                <select id="brand-kit" value={brandKitId ?? ''} onChange={e => setBrandKitId(e.target.value || null)} className="px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300">
+                                    <option value="">None</option>
+                                    {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+                                </select>
+                                <button type="button" onClick={() => { setIsSettingsOpen(false); setIsBrandKitsOpen(true); }} className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors">
+                                    Manage
+                                </button>
+                            </div>
+                        </div>
+                        {/* Music */}
+                        <div className="flex items-center justify-between gap-3 col-span-1 md:col-span-2 lg:col-span-3">
+                            <span className="text-sm font-medium text-gray-300">Music</span>
+                            <div className="flex items-center gap-3 min-w-0">
+                                {soundtrackError && <span className="text-sm text-red-400 truncate">{soundtrackError}</span>}
+                                {soundtrack && <span className="text-sm text-gray-400 truncate" title={soundtrack.name}>{soundtrack.name} · {Math.round(soundtrack.tempo)} BPM</span>}
+                                <button type="button" onClick={() => soundtrackInputRef.current?.click()} className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors">
+                                    {soundtrack ? 'Replace' : 'Choose file'}
+                                </button>
+                                {soundtrack && (
+                                    <button type="button" onClick={() => setSoundtrack(null)} className="text-sm text-gray-400 hover:text-gray-300 transition-colors">
+                                        Remove
+                                    </button>
+                                )}
+                                <input ref={soundtrackInputRef} type="file" accept="audio/*" onChange={handleSoundtrackFile} className="hidden" />
+                            </div>
+                        </div>
+                        {/* Storyboard Model */}
+                        {providers.length > 0 && (
+                            <div className="flex items-center justify-between gap-3 col-span-1 md:col-span-2 lg:col-span-3">
+                                <label htmlFor="storyboard-provider" className="text-sm font-medium text-gray-300">Model</label>
+                                <div className="flex items-center gap-3">
+                                    <select id="storyboard-provider" value={provider} onChange={e => handleProviderChange(e.target.value)} className="px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300">
+                                        <option value="">Server default</option>
+                                        {providers.map(({ name, label }) => <option key={name} value={name}>{label}</option>)}
+                                    </select>
+                                    {providerInfo && (
+                                        <select aria-label="Storyboard model" value={model || providerInfo.defaultModel} onChange={e => setModel(e.target.value)} className="px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300">
+                                            {providerInfo.models.map(name => <option key={name} value={name}>{name}</option>)}
+                                        </select>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                        {/* Access Token */}
+                        <div className="flex items-center justify-between gap-3 col-span-1 md:col-span-2 lg:col-span-3">
+                            <label htmlFor="access-token" className="text-sm font-medium text-gray-300">Access Token</label>
+                            {/* Uncontrolled: the modal re-mounts on every App render, which would drop focus mid-typing. */}
+                            <input id="access-token" type="password" autoComplete="off" defaultValue={getAccessToken()} onChange={e => setAccessToken(e.target.value)} placeholder="Needed when the server requires one" className="w-72 px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300 placeholder-gray-500" />
+                        </div>
                         {/* Background Color Override */}
                         <div className="flex items-center justify-between col-span-1 md:col-span-2 lg:col-span-3">
                             <label htmlFor="override-bg" className="text-sm font-medium text-gray-300">Override Background Color (for scenes without images)</label>
@@ -307,7 +584,7 @@ const App: React.FC = () => {
             </main>
             <footer className="w-full p-4 sticky bottom-0 left-0 bg-gray-950/30 backdrop-blur-lg border-t border-gray-700/50">
                 <div className="w-full max-w-4xl mx-auto">
-                    <form onSubmit={handleGenerate}>
+                    <form onSubmit={handleSubmit}>
                         <div className="relative flex items-center">
                             {showForm && (
                                 <button type="button" onClick={() => setIsSettingsOpen(true)} className="absolute left-3 top-1/2 -translate-y-1/2 p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700/50 transition-all duration-200" aria-label="Open settings">
@@ -317,15 +594,15 @@ const App: React.FC = () => {
                             <textarea
                                 value={prompt}
                                 onChange={(e) => setPrompt(e.target.value)}
-                                placeholder="e.g., An energetic title card for 'Launch Success' with a burst effect..."
+                                placeholder={videoResult ? 'Describe a change, e.g. make the title bigger and slow down scene 2...' : "e.g., An energetic title card for 'Launch Success' with a burst effect..."}
                                 className="w-full p-4 pl-14 pr-16 bg-gray-900 border border-gray-700/50 rounded-xl text-white placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-base shadow-lg resize-none"
-                                disabled={loading || !!videoResult}
+                                disabled={loading}
                                 rows={2}
                                 onKeyDown={(e) => {
-                                    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleGenerate(e); }
+                                    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmit(e); }
                                 }}
                             />
-                            <button type="submit" disabled={loading || !prompt.trim() || !!videoResult} className="absolute right-2.5 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500" aria-label="Generate video">
+                            <button type="submit" disabled={loading || !prompt.trim()} className="absolute right-2.5 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500" aria-label={videoResult ? "Refine video" : "Generate video"}>
                                 {loading ? (
                                     <svg className="animate-spin h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -342,6 +619,13 @@ const App: React.FC = () => {
                 </div>
             </footer>
             {isSettingsOpen && <SettingsModal />}
+            {isLibraryOpen && <ProjectLibrary onOpen={handleOpenProject} onClose={() => setIsLibraryOpen(false)} />}
+            {isBatchOpen && videoResult && <BatchDialog videoResult={videoResult} onClose={() => setIsBatchOpen(false)} />}
+            {isTemplatesOpen && <TemplateLibrary videoResult={videoResult ?? undefined} onUse={handleUseTemplate} onClose={() => setIsTemplatesOpen(false)} />}
+            {isBrandKitsOpen && <BrandKitManager onClose={() => { setIsBrandKitsOpen(false); refreshBrandKits(); }} />}
+            {exportFormat && videoResult && (
+                <ExportDialog videoResult={videoResult} initialFormat={exportFormat} onClose={() => setExportFormat(null)} />
+            )}
         </div>
     );
 };
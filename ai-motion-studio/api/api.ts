@@ -4,7 +4,8 @@
  * It handles the streaming response and parses the data to update the UI.
  */
 
-import type { LoadingState, VideoResult, AspectRatio } from '../types';
+import type { LoadingState, VideoResult, GenerationConfig, StoryboardProviderInfo } from '../types';
+import { authorizationHeaders } from '../lib/accessToken';
 
 /**
  * A client-side function to initiate the video generation process on the server.
@@ -16,20 +17,14 @@ import type { LoadingState, VideoResult, AspectRatio } from '../types';
  */
 export async function generateVideo(
     prompt: string,
-    config: {
-        duration: number;
-        aspectRatio: AspectRatio;
-        generateNarration: boolean;
-        textColor: string;
-        transparentBackground: boolean;
-        backgroundColor?: string;
-    },
+    config: GenerationConfig,
     onProgress: (state: LoadingState) => void
 ): Promise<VideoResult> {
-    const response = await fetch('/api/handler', { // Use the relative path to the Vercel Edge Function
+    const response = await fetch('/api/handler', { // Served by server/http.ts (Vite middleware in dev, `npm run server` in production)
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
+            ...authorizationHeaders(),
         },
         body: JSON.stringify({ prompt, config }),
     });
@@ -71,3 +66,15 @@ export async function generateVideo(
     }
     return result;
 }
+
+/**
+ * Fetches the storyboard providers and models the server offers, served by server/http.ts.
+ * @returns The providers, and the one used when a request doesn't pick any.
+ */
+export async function fetchStoryboardProviders(): Promise<{ providers: StoryboardProviderInfo[]; defaultProvider: string }> {
+    const response = await fetch('/api/providers', { headers: authorizationHeaders() });
+    if (!response.ok) {
+        throw new Error(`Could not list the storyboard providers: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+}
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { useCurrentFrame, useVideoConfig } from 'remotion';
+import type { BrandKit, TextAnimation } from '../types';
+import { sampleKeyframes } from '../lib/animation/keyframes';
+import { indexUnits, splitText, staggerOrder } from '../lib/animation/text';
+import { applyBrandPalette } from '../lib/brand/kit';
+
+interface AnimatedTextProps {
+    id: string;
+    text: string;
+    textAnimation: TextAnimation;
+    sceneDuration: number;
+    brandKit?: BrandKit;
+}
+
+/**
+ * Text split into characters, words or lines, each running the per-unit keyframes after its stagger delay.
+ * Words never break across lines, even when split into characters.
+ */
+export const AnimatedText: React.FC<AnimatedTextProps> = ({ id, text, textAnimation, sceneDuration, brandKit }) => {
+    const frame = useCurrentFrame();
+    const { fps } = useVideoConfig();
+    const { split, stagger, direction } = textAnimation;
+
+    const lines = useMemo(() => splitText(text), [text]);
+    const { count, unitOf } = useMemo(() => indexUnits(lines, split), [lines, split]);
+    // Delays are whole frames, so units that start together share a sampled style.
+    const delays = useMemo(
+        () => staggerOrder(count, direction, id).map(rank => Math.round(rank * stagger * sceneDuration)),
+        [count, direction, id, stagger, sceneDuration],
+    );
+    const keyframes = useMemo(() => applyBrandPalette(textAnimation.keyframes, brandKit), [textAnimation.keyframes, brandKit]);
+
+    // Long strings have many units but few distinct local times: every unit that hasn't started yet (or has
+    // finished) looks the same, so keyframes are sampled once per distinct time rather than once per unit.
+    const [first, last] = useMemo(() => {
+        const times = keyframes.map(kf => kf.at * sceneDuration);
+        return [Math.min(...times), Math.max(...times)];
+    }, [keyframes, sceneDuration]);
+    const styles = new Map<number, React.CSSProperties>();
+    const unitStyle = (unit: number): React.CSSProperties => {
+        const local = Math.min(last, Math.max(first, frame - delays[unit]));
+        let style = styles.get(local);
+        if (!style) {
+            style = sampleKeyframes(keyframes, local, sceneDuration, fps);
+            styles.set(local, style);
+        }
+        return style;
+    };
+
+    return (
+        <span style={{ display: 'block' }}>
+            {lines.map((line, l) => (
+                <span key={l} style={{ display: 'block', ...(split === 'lines' ? unitStyle(l) : undefined) }}>
+                    {line.length === 0 && '\u00a0'}
+                    {line.map((word, w) => (
+                        <React.Fragment key={w}>
+                            {w > 0 && ' '}
+                            <span style={{ display: 'inline-block', whiteSpace: 'nowrap', ...(split === 'words' ? unitStyle(unitOf[l][w][0]) : undefined) }}>
+                                {split === 'chars'
+                                    ? word.map((char, c) => <span key={c} style={{ display: 'inline-block', ...unitStyle(unitOf[l][w][c]) }}>{char}</span>)
+                                    : word.join('')}
+                            </span>
+                        </React.Fragment>
+                    ))}
+                </span>
+            ))}
+        </span>
+    );
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { VideoResult } from '../types';
+import { Button } from './Button';
+import type { ExportFormat } from '../lib/export';
+import { downloadBlob } from '../lib/download';
+import { parseDataset, type Dataset } from '../lib/batch/dataset';
+import { matchColumns, renderBatch, rowFilenames, toBatchTemplate, type BatchRowState } from '../lib/batch/batch';
+
+const formats: { id: ExportFormat, name: string }[] = [
+    { id: 'mp4', name: 'MP4' },
+    { id: 'webm', name: 'WebM' },
+    { id: 'gif', name: 'GIF' },
+    { id: 'png-sequence', name: 'PNG Sequence' },
+];
+
+const statusStyles: Record<BatchRowState['status'], string> = {
+    pending: 'text-gray-500',
+    rendering: 'text-indigo-400',
+    done: 'text-green-400',
+    failed: 'text-red-400',
+    cancelled: 'text-gray-500',
+};
+
+const selectClass = 'px-3 py-2 bg-gray-800 border border-gray-700/50 rounded-md text-sm text-gray-200';
+
+interface BatchDialogProps {
+    videoResult: VideoResult;
+    onClose: () => void;
+}
+
+export const BatchDialog: React.FC<BatchDialogProps> = ({ videoResult, onClose }) => {
+    const [dataset, setDataset] = useState<Dataset | null>(null);
+    const [filename, setFilename] = useState('');
+    const [format, setFormat] = useState<ExportFormat>('mp4');
+    const [nameColumn, setNameColumn] = useState('');
+    const [rows, setRows] = useState<BatchRowState[] | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Cancel a running batch if the dialog goes away.
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const variables = useMemo(() => toBatchTemplate(videoResult).variables, [videoResult]);
+    const columns = dataset ? matchColumns(variables, dataset.columns) : null;
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file: File | undefined = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        setRows(null);
+        try {
+            const parsed = parseDataset(await file.text(), file.name);
+            setDataset(parsed);
+            setFilename(file.name);
+            setNameColumn(parsed.columns.find(column => !variables.some(variable => variable.name === column)) ?? '');
+        } catch (err) {
+            setDataset(null);
+            setError((err as Error).message);
+        }
+    };
+
+    const handleStart = async () => {
+        if (!dataset) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null);
+        setIsRunning(true);
+        setRows(rowFilenames(dataset, format, nameColumn || undefined).map(name => ({ status: 'pending', progress: 0, filename: name })));
+        try {
+            const result = await renderBatch(videoResult, dataset, {
+                format,
+                nameColumn: nameColumn || undefined,
+                signal: controller.signal,
+                onRowUpdate: (index, state) => setRows(current => current && current.map((row, i) => i === index ? state : row)),
+            });
+            if (result.rows.some(row => row.status === 'done')) downloadBlob(result.zip, 'batch-render.zip');
+        } catch (err) {
+            console.error('Batch render failed:', err);
+            setError((err as Error).message || 'Batch render failed.');
+        } finally {
+            abortRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const counts = rows && {
+        done: rows.filter(row => row.status === 'done').length,
+        failed: rows.filter(row => row.status === 'failed').length,
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => !isRunning && onClose()}>
+            <div className="bg-gray-900 border border-gray-700/50 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col p-6 lg:p-8 relative text-left" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-white mb-6 font-plex">Batch Render</h2>
+                {!isRunning && (
+                    <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors" aria-label="Close batch render">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                )}
+
+                <p className="text-sm text-gray-400 mb-2">
+                    One video per row of a CSV or JSON file. Columns fill the fields of this video: {variables.length > 0
+                        ? variables.map(variable => <code key={variable.name} className="mx-0.5 px-1 bg-gray-800 rounded text-gray-300">{variable.name}</code>)
+                        : 'it has none yet.'}
+                </p>
+                <p className="text-xs text-gray-500 mb-4">Text elements are filled by their id and colors by their name, e.g. textColor or scene1_backgroundColor; type {'{{name}}'} into any other color or an image URL to fill it from a column too.</p>
+
+                <div className="flex flex-wrap items-end gap-4 mb-4">
+                    <div>
+                        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isRunning} className="px-3 py-2 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300 hover:bg-gray-700/80 transition-colors disabled:opacity-50">
+                            {dataset ? `${filename} · ${dataset.rows.length} rows` : 'Choose CSV or JSON'}
+                        </button>
+                        <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} />
+                    </div>
+                    <label className="text-sm text-gray-300">
+                        <span className="block mb-1">Format</span>
+                        <select value={format} disabled={isRunning} onChange={e => setFormat(e.target.value as ExportFormat)} className={selectClass}>
+                            {formats.map(({ id, name }) => <option key={id} value={id}>{name}</option>)}
+                        </select>
+                    </label>
+                    {dataset && (
+                        <label className="text-sm text-gray-300">
+                            <span className="block mb-1">File names from</span>
+                            <select value={nameColumn} disabled={isRunning} onChange={e => setNameColumn(e.target.value)} className={selectClass}>
+                                <option value="">Row number</option>
+                                {dataset.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                            </select>
+                        </label>
+                    )}
+                </div>
+
+                {columns && columns.unfilled.length > 0 && (
+                    <p className="text-xs text-yellow-400 mb-2">No column for {columns.unfilled.join(', ')}; those keep their current value.</p>
+                )}
+                {columns && columns.unused.length > 0 && (
+                    <p className="text-xs text-gray-500 mb-2">Not used in the video: {columns.unused.join(', ')}.</p>
+                )}
+                {error && <p className="text-sm text-red-400 mb-2 whitespace-pre-wrap">{error}</p>}
+
+                {rows && (
+                    <div className="overflow-y-auto flex-1 min-h-0 border border-gray-700/50 rounded-lg divide-y divide-gray-800">
+                        {rows.map((row, i) => (
+                            <div key={i} className="flex items-center gap-3 px-3 py-2 text-sm">
+                                <span className="w-8 text-gray-500">{i + 1}</span>
+                                <span className="w-48 truncate text-gray-300" title={row.filename}>{row.filename}</span>
+                                <div className="flex-1 bg-gray-700/50 rounded-full h-1.5">
+                                    <div className="bg-gradient-to-r from-purple-500 to-indigo-500 h-1.5 rounded-full" style={{ width: `${Math.round(row.progress * 100)}%` }} />
+                                </div>
+                                <span className={`w-56 truncate ${statusStyles[row.status]}`} title={row.message}>
+                                    {row.status === 'failed' || row.status === 'rendering' ? row.message ?? row.status : row.status}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex items-center justify-between gap-3 mt-6">
+                    <span className="text-sm text-gray-400">
+                        {counts && `${counts.done} of ${rows!.length} rendered${counts.failed ? `, ${counts.failed} failed (see failures.json in the zip)` : ''}`}
+                    </span>
+                    {isRunning ? (
+                        <Button type="button" onClick={() => abortRef.current?.abort()}>Cancel</Button>
+                    ) : (
+                        <Button type="button" onClick={handleStart} disabled={!dataset}>Render {dataset ? dataset.rows.length : ''} Videos</Button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
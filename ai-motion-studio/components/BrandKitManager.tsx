@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { BrandKit } from '../types';
+import { createBrandKit } from '../lib/brand/kit';
+import { deleteBrandKit, listBrandKits, saveBrandKit } from '../lib/brand/library';
+import { blobToDataUrl } from '../lib/export/frames';
+
+const inputClass = 'w-full px-2 py-1 bg-gray-900 border border-gray-700/50 rounded text-sm text-white placeholder-gray-600';
+const smallButtonClass = 'px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300 hover:bg-gray-700/80 transition-colors';
+
+// "Acme-Bold.woff2" -> "Acme-Bold"
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+interface BrandKitManagerProps {
+    onClose: () => void;
+}
+
+export const BrandKitManager: React.FC<BrandKitManagerProps> = ({ onClose }) => {
+    const [kits, setKits] = useState<BrandKit[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const fontInputRef = useRef<HTMLInputElement>(null);
+    const logoInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        listBrandKits()
+            .then(loaded => {
+                setKits(loaded);
+                setSelectedId(loaded[0]?.id ?? null);
+            })
+            .catch(e => setError((e as Error).message));
+    }, []);
+
+    const kit = kits?.find(k => k.id === selectedId);
+
+    // Edits are saved as they are made.
+    const update = (next: BrandKit) => {
+        setKits(current => current?.map(k => k.id === next.id ? next : k) ?? null);
+        saveBrandKit(next).catch(e => setError((e as Error).message));
+    };
+
+    const handleCreate = async () => {
+        const created = createBrandKit(`Brand kit ${(kits?.length ?? 0) + 1}`);
+        try {
+            await saveBrandKit(created);
+            setKits([...(kits ?? []), created]);
+            setSelectedId(created.id);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteBrandKit(id);
+            const remaining = (kits ?? []).filter(k => k.id !== id);
+            setKits(remaining);
+            setSelectedId(remaining[0]?.id ?? null);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    const handleUpload = (kind: 'font' | 'logo') => async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (!kit || files.length === 0) return;
+        try {
+            const uploads = await Promise.all(files.map(async file => ({ name: baseName(file.name), src: await blobToDataUrl(file) })));
+            if (kind === 'font') {
+                const fonts = [...kit.fonts, ...uploads.map(({ name, src }) => ({ family: name, src }))];
+                update({ ...kit, fonts, fontFamily: kit.fontFamily ?? fonts[0].family });
+            } else {
+                update({ ...kit, logos: [...kit.logos, ...uploads] });
+            }
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-gray-900 border border-gray-700/50 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col p-6 lg:p-8 relative" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-white mb-6 font-plex">Brand Kits</h2>
+                <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+                {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+                <div className="flex gap-6 min-h-0 flex-1">
+                    <div className="w-48 shrink-0 flex flex-col gap-2 overflow-y-auto">
+                        {kits?.map(k => (
+                            <button key={k.id} type="button" onClick={() => setSelectedId(k.id)} className={`px-3 py-2 rounded-md text-left text-sm truncate transition-colors ${k.id === selectedId ? 'bg-indigo-600 text-white' : 'bg-gray-800/60 text-gray-300 hover:bg-gray-700/80'}`}>
+                                {k.name}
+                            </button>
+                        ))}
+                        <button type="button" onClick={handleCreate} className={smallButtonClass}>+ New kit</button>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto space-y-6 text-left">
+                        {kits === null && !error && <p className="text-sm text-gray-500">Loading brand kits...</p>}
+                        {kits?.length === 0 && <p className="text-sm text-gray-500">No brand kits yet. Create one to reuse colors, fonts and logos across videos.</p>}
+                        {kit && (
+                            <>
+                                <div className="flex items-center gap-3">
+                                    <input value={kit.name} onChange={e => update({ ...kit, name: e.target.value })} className={inputClass} aria-label="Kit name" />
+                                    <button type="button" onClick={() => handleDelete(kit.id)} className="px-3 py-1.5 bg-gray-800/60 border border-red-500/30 rounded-md text-sm text-red-300 hover:bg-red-900/30 transition-colors shrink-0">Delete kit</button>
+                                </div>
+
+                                <section>
+                                    <h3 className="text-sm font-semibold text-gray-300 mb-2">Palette</h3>
+                                    <div className="space-y-2">
+                                        {kit.palette.map((color, i) => (
+                                            <div key={i} className="flex items-center gap-2">
+                                                <input type="color" value={color.value} onChange={e => update({ ...kit, palette: kit.palette.map((c, j) => j === i ? { ...c, value: e.target.value } : c) })} className="w-8 h-8 shrink-0 rounded border-none bg-gray-800 cursor-pointer" />
+                                                <input value={color.name} onChange={e => update({ ...kit, palette: kit.palette.map((c, j) => j === i ? { ...c, name: e.target.value } : c) })} className={inputClass} aria-label="Color name" />
+                                                <span className="text-xs text-gray-500 font-mono w-16">{color.value}</span>
+                                                <button type="button" onClick={() => update({ ...kit, palette: kit.palette.filter((_, j) => j !== i) })} className="text-gray-500 hover:text-red-400 transition-colors" aria-label={`Remove ${color.name}`}>×</button>
+                                            </div>
+                                        ))}
+                                        <button type="button" onClick={() => update({ ...kit, palette: [...kit.palette, { name: `Color ${kit.palette.length + 1}`, value: '#6366f1' }] })} className={smallButtonClass}>+ Color</button>
+                                    </div>
+                                </section>
+
+                                <section>
+                                    <h3 className="text-sm font-semibold text-gray-300 mb-2">Typography</h3>
+                                    <div className="space-y-2">
+                                        {kit.fonts.map((font, i) => (
+                                            <div key={i} className="flex items-center gap-2">
+                                                <input value={font.family} onChange={e => update({ ...kit, fonts: kit.fonts.map((f, j) => j === i ? { ...f, family: e.target.value } : f), fontFamily: kit.fontFamily === font.family ? e.target.value : kit.fontFamily })} className={inputClass} aria-label="Font family" />
+                                                <select value={font.weight ?? 400} onChange={e => update({ ...kit, fonts: kit.fonts.map((f, j) => j === i ? { ...f, weight: Number(e.target.value) } : f) })} className={`${inputClass} w-24`} aria-label="Font weight">
+                                                    {[300, 400, 500, 600, 700, 800, 900].map(weight => <option key={weight} value={weight}>{weight}</option>)}
+                                                </select>
+                                                <button type="button" onClick={() => update({ ...kit, fonts: kit.fonts.filter((_, j) => j !== i) })} className="text-gray-500 hover:text-red-400 transition-colors" aria-label={`Remove ${font.family}`}>×</button>
+                                            </div>
+                                        ))}
+                                        <button type="button" onClick={() => fontInputRef.current?.click()} className={smallButtonClass}>Upload fonts</button>
+                                        <input ref={fontInputRef} type="file" multiple accept=".woff2,.woff,.ttf,.otf,font/*" className="hidden" onChange={handleUpload('font')} />
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-3 mt-3">
+                                        <label className="flex items-center gap-2 text-sm text-gray-400">
+                                            <span className="w-20 shrink-0">Text font</span>
+                                            <input list="brand-font-families" value={kit.fontFamily ?? ''} placeholder="Inter" onChange={e => update({ ...kit, fontFamily: e.target.value || undefined })} className={inputClass} />
+                                            <datalist id="brand-font-families">
+                                                {kit.fonts.map((font, i) => <option key={i} value={font.family} />)}
+                                            </datalist>
+                                        </label>
+                                        <label className="flex items-center gap-2 text-sm text-gray-400">
+                                            <span className="w-20 shrink-0">Weight</span>
+                                            <input type="number" min={100} max={900} step={100} value={kit.fontWeight ?? ''} placeholder="700" onChange={e => update({ ...kit, fontWeight: Number.isFinite(e.target.valueAsNumber) ? e.target.valueAsNumber : undefined })} className={inputClass} />
+                                        </label>
+                                        <label className="flex items-center gap-2 text-sm text-gray-400">
+                                            <span className="w-20 shrink-0">Size %</span>
+                                            <input type="number" min={50} max={200} step={10} value={kit.fontScale ? Math.round(kit.fontScale * 100) : ''} placeholder="100" onChange={e => update({ ...kit, fontScale: e.target.valueAsNumber > 0 ? e.target.valueAsNumber / 100 : undefined })} className={inputClass} />
+                                        </label>
+                                    </div>
+                                </section>
+
+                                <section>
+                                    <h3 className="text-sm font-semibold text-gray-300 mb-2">Logos</h3>
+                                    <div className="grid grid-cols-3 gap-3">
+                                        {kit.logos.map((logo, i) => (
+                                            <div key={i} className="bg-gray-800/40 border border-gray-700/50 rounded-lg overflow-hidden">
+                                                <div className="aspect-video checkerboard flex items-center justify-center p-2">
+                                                    <img src={logo.src} alt={logo.name} className="max-w-full max-h-full object-contain" />
+                                                </div>
+                                                <div className="flex items-center gap-2 p-2">
+                                                    <input value={logo.name} onChange={e => update({ ...kit, logos: kit.logos.map((l, j) => j === i ? { ...l, name: e.target.value } : l) })} className={inputClass} aria-label="Logo name" />
+                                                    <button type="button" onClick={() => update({ ...kit, logos: kit.logos.filter((_, j) => j !== i) })} className="text-gray-500 hover:text-red-400 transition-colors" aria-label={`Remove ${logo.name}`}>×</button>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <button type="button" onClick={() => logoInputRef.current?.click()} className={`${smallButtonClass} mt-3`}>Upload logos</button>
+                                    <input ref={logoInputRef} type="file" multiple accept="image/*" className="hidden" onChange={handleUpload('logo')} />
+                                </section>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
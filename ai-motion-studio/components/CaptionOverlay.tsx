@@ -0,0 +1,56 @@
+import React from 'react';
+import { AbsoluteFill, interpolate, useCurrentFrame } from 'remotion';
+import type { CaptionStyle } from '../types';
+
+const FADE_FRAMES = 6;
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+    position: 'bottom',
+    fontSize: 36,
+    color: '#FFFFFF',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+};
+
+const justifyByPosition: Record<CaptionStyle['position'], React.CSSProperties['justifyContent']> = {
+    top: 'flex-start',
+    middle: 'center',
+    bottom: 'flex-end',
+};
+
+interface CaptionOverlayProps {
+    text: string;
+    durationInFrames: number;
+    captionStyle?: CaptionStyle;
+}
+
+/**
+ * A subtitle burned into the composition. Mount it inside a `Sequence` spanning the time the line is spoken.
+ */
+export const CaptionOverlay: React.FC<CaptionOverlayProps> = ({ text, durationInFrames, captionStyle = DEFAULT_CAPTION_STYLE }) => {
+    const frame = useCurrentFrame();
+    const fade = Math.min(FADE_FRAMES, Math.floor(durationInFrames / 2));
+    const opacity = fade > 0
+        ? interpolate(frame, [0, fade, durationInFrames - fade, durationInFrames], [0, 1, 1, 0], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' })
+        : 1;
+
+    return (
+        <AbsoluteFill style={{ justifyContent: justifyByPosition[captionStyle.position], alignItems: 'center', padding: '6% 0', pointerEvents: 'none' }}>
+            <div style={{
+                opacity,
+                maxWidth: '80%',
+                padding: '0.4em 0.8em',
+                borderRadius: 8,
+                backgroundColor: captionStyle.backgroundColor,
+                color: captionStyle.color,
+                fontSize: captionStyle.fontSize,
+                fontWeight: 600,
+                lineHeight: 1.3,
+                textAlign: 'center',
+                // Keeps captions legible without a box.
+                textShadow: captionStyle.backgroundColor === 'transparent' ? '0 2px 6px rgba(0, 0, 0, 0.8)' : undefined,
+            }}>
+                {text}
+            </div>
+        </AbsoluteFill>
+    );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { CaptionStyle, VideoResult } from '../types';
+import { DEFAULT_CAPTION_STYLE } from './CaptionOverlay';
+
+const positions: { id: CaptionStyle['position'], name: string }[] = [
+    { id: 'top', name: 'Top' },
+    { id: 'middle', name: 'Middle' },
+    { id: 'bottom', name: 'Bottom' },
+];
+
+const boxes = [
+    { value: 'rgba(0, 0, 0, 0.6)', name: 'Dark box' },
+    { value: 'rgba(255, 255, 255, 0.85)', name: 'Light box' },
+    { value: 'transparent', name: 'No box' },
+];
+
+interface CaptionSettingsProps {
+    videoResult: VideoResult;
+    onChange: (videoResult: VideoResult) => void;
+}
+
+export const CaptionSettings: React.FC<CaptionSettingsProps> = ({ videoResult, onChange }) => {
+    const style = videoResult.captionStyle ?? DEFAULT_CAPTION_STYLE;
+    const enabled = !!videoResult.showSubtitles;
+    const setStyle = (patch: Partial<CaptionStyle>) => onChange({ ...videoResult, captionStyle: { ...style, ...patch } });
+
+    return (
+        <div className="bg-gray-900/50 border border-gray-700/50 rounded-xl p-4 mb-8 text-left">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-300 font-plex">Burn In Subtitles</h3>
+                <button type="button" onClick={() => onChange({ ...videoResult, showSubtitles: !enabled })} className={`${enabled ? 'bg-indigo-600' : 'bg-gray-700'} relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-900`} role="switch" aria-checked={enabled}>
+                    <span className={`${enabled ? 'translate-x-5' : 'translate-x-0'} pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out`}/>
+                </button>
+            </div>
+            {enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4 items-center">
+                    <div className="grid grid-cols-3 gap-1">
+                        {positions.map(({ id, name }) => (
+                            <button key={id} type="button" onClick={() => setStyle({ position: id })} className={`px-2 py-1.5 border rounded-md text-xs font-medium transition-colors duration-200 ${style.position === id ? 'bg-indigo-600 border-transparent text-white' : 'bg-gray-800/60 border-gray-700/50 text-gray-300 hover:bg-gray-700/80'}`}>{name}</button>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        Size
+                        <input type="range" min={20} max={72} step={2} value={style.fontSize} onChange={e => setStyle({ fontSize: Number(e.target.value) })} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"/>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        Color
+                        <input type="color" value={style.color} onChange={e => setStyle({ color: e.target.value })} className="w-8 h-8 rounded border-none bg-gray-800 cursor-pointer"/>
+                    </label>
+                    <select value={style.backgroundColor} onChange={e => setStyle({ backgroundColor: e.target.value })} className="px-3 py-2 bg-gray-800 border border-gray-700/50 rounded-md text-sm text-gray-200">
+                        {boxes.map(({ value, name }) => <option key={value} value={value}>{name}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,77 @@
+import React, { useId } from 'react';
+import { Img } from 'remotion';
+import type { AnimationElement, Gradient } from '../types';
+import { shapePoints } from '../lib/shapes';
+
+const svgStyle: React.CSSProperties = { width: '100%', height: '100%', overflow: 'visible' };
+
+const GradientDef: React.FC<{ id: string; gradient: Gradient }> = ({ id, gradient }) => {
+    const stops = gradient.stops.map((stop, i) => <stop key={i} offset={stop.offset} stopColor={stop.color} />);
+    return gradient.type === 'radial'
+        ? <radialGradient id={id} cx="50%" cy="50%" r="50%">{stops}</radialGradient>
+        : <linearGradient id={id} gradientTransform={`rotate(${gradient.angle ?? 0} 0.5 0.5)`}>{stops}</linearGradient>;
+};
+
+interface ElementGraphicProps {
+    element: AnimationElement;
+    gradient?: Gradient;
+    // The stroke color at this frame, for arrowheads, which can't inherit it.
+    stroke?: string;
+}
+
+/**
+ * The contents of an image, path, line, polygon or star element. Stroke, fill and the draw-on offset are
+ * inherited from the element's animated style; lines and paths use `pathLength=1`, so a `strokeDashoffset`
+ * of 1 hides the stroke and 0 draws it fully.
+ */
+export const ElementGraphic: React.FC<ElementGraphicProps> = ({ element, gradient, stroke }) => {
+    // Several scenes are mounted at once during transitions, so ids for gradients and markers must be unique.
+    const id = useId().replace(/:/g, '');
+    const gradientFill = gradient ? `url(#${id}-gradient)` : undefined;
+    const defs = gradient && <defs><GradientDef id={`${id}-gradient`} gradient={gradient} /></defs>;
+
+    if (element.type === 'image') {
+        return element.src ? <Img src={element.src} style={{ width: '100%', height: '100%', objectFit: 'cover' }} /> : null;
+    }
+
+    if (element.type === 'path') {
+        return (
+            <svg viewBox="0 0 100 100" style={svgStyle}>
+                {defs}
+                <path d={element.path} fill={gradientFill} pathLength={1} strokeDasharray={1} vectorEffect="non-scaling-stroke" />
+            </svg>
+        );
+    }
+
+    if (element.type === 'line') {
+        const arrow = element.arrow ?? 'none';
+        const marker = `url(#${id}-arrow)`;
+        return (
+            <svg style={svgStyle}>
+                <defs>
+                    <marker id={`${id}-arrow`} viewBox="0 0 10 10" refX="5" refY="5" markerWidth="4" markerHeight="4" orient="auto-start-reverse">
+                        <path d="M0,0 L10,5 L0,10 z" fill={stroke} stroke="none" />
+                    </marker>
+                </defs>
+                <line
+                    x1="0" y1="50%" x2="100%" y2="50%"
+                    pathLength={1}
+                    strokeDasharray={1}
+                    markerStart={arrow === 'start' || arrow === 'both' ? marker : undefined}
+                    markerEnd={arrow === 'end' || arrow === 'both' ? marker : undefined}
+                />
+            </svg>
+        );
+    }
+
+    if (element.type === 'shape' && (element.shape === 'polygon' || element.shape === 'star')) {
+        return (
+            <svg viewBox="0 0 100 100" preserveAspectRatio="none" style={svgStyle}>
+                {defs}
+                <polygon points={shapePoints(element)} fill={gradientFill} vectorEffect="non-scaling-stroke" />
+            </svg>
+        );
+    }
+
+    return null;
+};
@@ -0,0 +1,211 @@
+import React, { useRef } from 'react';
+import type { AnimationElement, Gradient, ShapeType, TextAnimation, VideoResult } from '../types';
+import { updateElement } from '../lib/editor';
+import { DEFAULT_POLYGON_SIDES, DEFAULT_STAR_INNER_RADIUS, DEFAULT_STAR_POINTS } from '../lib/shapes';
+import { blobToDataUrl } from '../lib/export/frames';
+import { defaultTextAnimation } from '../lib/animation/text';
+
+const inputClass = 'w-full px-2 py-1 bg-gray-900 border border-gray-700/50 rounded text-sm text-white placeholder-gray-600';
+const labelClass = 'flex items-center gap-2 text-sm text-gray-400';
+
+const defaultGradient = (type: Gradient['type']): Gradient => ({
+    type,
+    angle: type === 'linear' ? 45 : undefined,
+    stops: [{ offset: 0, color: '#6366f1' }, { offset: 1, color: '#a855f7' }],
+});
+
+const GradientFields: React.FC<{ gradient?: Gradient; onChange: (gradient: Gradient | undefined) => void }> = ({ gradient, onChange }) => (
+    <>
+        <label className={labelClass}>
+            <span className="w-16 shrink-0">Gradient</span>
+            <select value={gradient?.type ?? ''} onChange={e => onChange(e.target.value ? { ...defaultGradient(e.target.value as Gradient['type']), ...(gradient && { stops: gradient.stops }) } : undefined)} className={inputClass}>
+                <option value="">None</option>
+                <option value="linear">Linear</option>
+                <option value="radial">Radial</option>
+            </select>
+        </label>
+        {gradient && (
+            <div className={`${labelClass} md:col-span-2`}>
+                {gradient.type === 'linear' && (
+                    <input type="number" step={15} value={gradient.angle ?? 0} onChange={e => onChange({ ...gradient, angle: e.target.valueAsNumber || 0 })} className={`${inputClass} w-20`} aria-label="Gradient angle" title="Angle (degrees)" />
+                )}
+                {gradient.stops.map((stop, i) => (
+                    <input
+                        key={i}
+                        type="color"
+                        value={/^#[0-9a-f]{6}$/i.test(stop.color) ? stop.color : '#ffffff'}
+                        onChange={e => onChange({ ...gradient, stops: gradient.stops.map((s, j) => j === i ? { ...s, color: e.target.value } : s) })}
+                        className="w-8 h-8 shrink-0 rounded border-none bg-gray-800 cursor-pointer"
+                        aria-label={`Gradient stop ${i + 1}`}
+                    />
+                ))}
+                <button
+                    type="button"
+                    onClick={() => onChange({ ...gradient, stops: [...gradient.stops, { offset: 1, color: gradient.stops[gradient.stops.length - 1].color }].map((s, i, all) => ({ ...s, offset: i / (all.length - 1) })) })}
+                    className="px-2 py-0.5 bg-gray-800/60 border border-gray-700/50 rounded text-xs text-gray-300 hover:bg-gray-700/80 transition-colors"
+                >
+                    + Stop
+                </button>
+            </div>
+        )}
+    </>
+);
+
+interface ElementSettingsProps {
+    videoResult: VideoResult;
+    sceneIndex: number;
+    element: AnimationElement;
+    onChange: (videoResult: VideoResult) => void;
+}
+
+/**
+ * The settings of an element that aren't keyframed: its text and how it splits, shape, image, path or arrowheads,
+ * and its depth and layer.
+ */
+export const ElementSettings: React.FC<ElementSettingsProps> = ({ videoResult, sceneIndex, element, onChange }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const update = (patch: Partial<AnimationElement>) => onChange(updateElement(videoResult, sceneIndex, element.id, patch));
+
+    const handleImageFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file: File | undefined = e.target.files?.[0];
+        e.target.value = '';
+        if (file) update({ src: await blobToDataUrl(file) });
+    };
+
+    const typeFields = (() => {
+        switch (element.type) {
+            case 'text': {
+                const textAnimation = element.textAnimation;
+                return (
+                    <>
+                        <label className={`${labelClass} md:col-span-3`}>
+                            <span className="w-16 shrink-0">Text</span>
+                            <textarea rows={Math.min(4, (element.text ?? '').split('\n').length)} value={element.text ?? ''} onChange={e => update({ text: e.target.value })} className={`${inputClass} resize-y`} />
+                        </label>
+                        <label className={labelClass}>
+                            <span className="w-16 shrink-0">Animate</span>
+                            <select
+                                value={textAnimation?.split ?? ''}
+                                onChange={e => {
+                                    const split = e.target.value as TextAnimation['split'] | '';
+                                    update({ textAnimation: split ? { ...(textAnimation ?? defaultTextAnimation(split)), split } : undefined });
+                                }}
+                                className={inputClass}
+                            >
+                                <option value="">Whole text</option>
+                                <option value="chars">Each letter</option>
+                                <option value="words">Each word</option>
+                                <option value="lines">Each line</option>
+                            </select>
+                        </label>
+                        {textAnimation && (
+                            <>
+                                <label className={labelClass}>
+                                    <span className="w-16 shrink-0">Stagger</span>
+                                    <input type="number" min={0} max={1} step={0.01} value={textAnimation.stagger} onChange={e => Number.isFinite(e.target.valueAsNumber) && update({ textAnimation: { ...textAnimation, stagger: Math.min(1, Math.max(0, e.target.valueAsNumber)) } })} className={inputClass} title="Delay between units, as a fraction of the scene" />
+                                </label>
+                                <label className={labelClass}>
+                                    <span className="w-16 shrink-0">Order</span>
+                                    <select value={textAnimation.direction ?? 'forward'} onChange={e => update({ textAnimation: { ...textAnimation, direction: e.target.value as TextAnimation['direction'] } })} className={inputClass}>
+                                        <option value="forward">Forward</option>
+                                        <option value="backward">Backward</option>
+                                        <option value="center">From center</option>
+                                        <option value="edges">From edges</option>
+                                        <option value="random">Random</option>
+                                    </select>
+                                </label>
+                            </>
+                        )}
+                    </>
+                );
+            }
+            case 'logo':
+                return (
+                    <label className={`${labelClass} md:col-span-2`}>
+                        <span className="w-16 shrink-0">Logo</span>
+                        <select value={element.logo ?? ''} onChange={e => update({ logo: e.target.value })} className={inputClass}>
+                            {!videoResult.brandKit?.logos.some(logo => logo.name === element.logo) && <option value={element.logo ?? ''}>{element.logo ? `${element.logo} (not in brand kit)` : 'None'}</option>}
+                            {videoResult.brandKit?.logos.map(logo => <option key={logo.name} value={logo.name}>{logo.name}</option>)}
+                        </select>
+                    </label>
+                );
+            case 'image':
+                return (
+                    <div className={`${labelClass} md:col-span-3`}>
+                        <span className="w-16 shrink-0">Image</span>
+                        {element.src && <img src={element.src} alt="" className="h-10 w-16 object-cover rounded" />}
+                        <span className="truncate text-xs text-gray-500" title={element.imagePrompt}>{element.imagePrompt ?? (element.src ? 'Uploaded image' : 'No image')}</span>
+                        <button type="button" onClick={() => fileInputRef.current?.click()} className="ml-auto px-2 py-0.5 bg-gray-800/60 border border-gray-700/50 rounded text-xs text-gray-300 hover:bg-gray-700/80 transition-colors shrink-0">
+                            Replace
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageFile} />
+                    </div>
+                );
+            case 'path':
+                return (
+                    <>
+                        <label className={`${labelClass} md:col-span-3`}>
+                            <span className="w-16 shrink-0">Path</span>
+                            <input value={element.path ?? ''} onChange={e => update({ path: e.target.value })} placeholder="M 10 50 L 90 50" className={`${inputClass} font-mono`} />
+                        </label>
+                        <GradientFields gradient={element.gradient} onChange={gradient => update({ gradient })} />
+                    </>
+                );
+            case 'line':
+                return (
+                    <label className={labelClass}>
+                        <span className="w-16 shrink-0">Arrows</span>
+                        <select value={element.arrow ?? 'none'} onChange={e => update({ arrow: e.target.value as AnimationElement['arrow'] })} className={inputClass}>
+                            <option value="none">None</option>
+                            <option value="end">End</option>
+                            <option value="start">Start</option>
+                            <option value="both">Both</option>
+                        </select>
+                    </label>
+                );
+            default: {
+                const shape = element.shape ?? 'rectangle';
+                return (
+                    <>
+                        <label className={labelClass}>
+                            <span className="w-16 shrink-0">Shape</span>
+                            <select value={shape} onChange={e => update({ shape: e.target.value as ShapeType })} className={inputClass}>
+                                <option value="rectangle">Rectangle</option>
+                                <option value="circle">Circle</option>
+                                <option value="polygon">Polygon</option>
+                                <option value="star">Star</option>
+                            </select>
+                        </label>
+                        {(shape === 'polygon' || shape === 'star') && (
+                            <label className={labelClass}>
+                                <span className="w-16 shrink-0">{shape === 'star' ? 'Points' : 'Sides'}</span>
+                                <input type="number" min={3} max={12} value={element.sides ?? (shape === 'star' ? DEFAULT_STAR_POINTS : DEFAULT_POLYGON_SIDES)} onChange={e => Number.isFinite(e.target.valueAsNumber) && update({ sides: Math.min(12, Math.max(3, Math.round(e.target.valueAsNumber))) })} className={inputClass} />
+                            </label>
+                        )}
+                        {shape === 'star' && (
+                            <label className={labelClass}>
+                                <span className="w-16 shrink-0">Inner</span>
+                                <input type="number" min={0.1} max={0.9} step={0.05} value={element.innerRadius ?? DEFAULT_STAR_INNER_RADIUS} onChange={e => Number.isFinite(e.target.valueAsNumber) && update({ innerRadius: Math.min(0.9, Math.max(0.1, e.target.valueAsNumber)) })} className={inputClass} />
+                            </label>
+                        )}
+                        <GradientFields gradient={element.gradient} onChange={gradient => update({ gradient })} />
+                    </>
+                );
+            }
+        }
+    })();
+
+    return (
+        <>
+            {typeFields}
+            <label className={labelClass}>
+                <span className="w-16 shrink-0">Depth</span>
+                <input type="number" step={50} value={element.z ?? 0} onChange={e => Number.isFinite(e.target.valueAsNumber) && update({ z: e.target.valueAsNumber || undefined })} className={inputClass} title="Pixels behind the screen plane; negative comes toward the camera" />
+            </label>
+            <label className={labelClass}>
+                <span className="w-16 shrink-0">Layer</span>
+                <input type="number" step={1} value={element.layer ?? 0} onChange={e => Number.isFinite(e.target.valueAsNumber) && update({ layer: Math.round(e.target.valueAsNumber) || undefined })} className={inputClass} title="Higher layers are drawn in front" />
+            </label>
+        </>
+    );
+};
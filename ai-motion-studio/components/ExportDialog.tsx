@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { VideoResult } from '../types';
+import { Button } from './Button';
+import { exportComposition, FILE_EXTENSIONS, isAbortError, type ExportFormat, type ExportProgress } from '../lib/export';
+import { downloadBlob } from '../lib/download';
+import { buildCaptionCues, toSrt, toWebVtt, type CaptionSource } from '../lib/captions';
+
+const formats: { id: ExportFormat, name: string, description: string }[] = [
+    { id: 'mp4', name: 'MP4', description: 'H.264, plays everywhere' },
+    { id: 'webm', name: 'WebM', description: 'VP9, smaller files' },
+    { id: 'gif', name: 'GIF', description: 'Loops anywhere, 256 colors' },
+    { id: 'png-sequence', name: 'PNG Sequence', description: 'Zipped frames with alpha' },
+];
+
+const frameRates = [10, 15, 24, 30];
+const scales = [
+    { value: 0.25, name: '25%' },
+    { value: 0.5, name: '50%' },
+    { value: 0.75, name: '75%' },
+    { value: 1, name: '100%' },
+];
+
+interface ExportDialogProps {
+    videoResult: VideoResult;
+    initialFormat: ExportFormat;
+    onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ videoResult, initialFormat, onClose }) => {
+    const [format, setFormat] = useState<ExportFormat>(initialFormat);
+    const [fps, setFps] = useState(15);
+    const [scale, setScale] = useState(0.5);
+    const hasNarration = !!videoResult.narration?.some(Boolean);
+    const [captionSource, setCaptionSource] = useState<CaptionSource>(hasNarration ? 'narration' : 'text');
+    const [progress, setProgress] = useState<ExportProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [done, setDone] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const isExporting = progress !== null && !done;
+
+    // Cancel any running export if the dialog goes away.
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleExport = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null);
+        setDone(false);
+        setProgress({ frame: 0, totalFrames: 0, message: 'Starting export...' });
+
+        try {
+            const blob = await exportComposition(videoResult, format, { fps, scale, signal: controller.signal, onProgress: setProgress });
+            downloadBlob(blob, `motion-graphic.${FILE_EXTENSIONS[format]}`);
+            setDone(true);
+        } catch (e) {
+            setProgress(null);
+            if (!isAbortError(e)) {
+                console.error('Export failed:', e);
+                setError((e as Error).message || 'Export failed.');
+            }
+        } finally {
+            abortRef.current = null;
+        }
+    };
+
+    const handleCaptionDownload = (kind: 'srt' | 'vtt') => {
+        const cues = buildCaptionCues(videoResult, captionSource);
+        const text = kind === 'srt' ? toSrt(cues) : toWebVtt(cues);
+        downloadBlob(new Blob([text], { type: kind === 'srt' ? 'application/x-subrip' : 'text/vtt' }), `motion-graphic.${kind}`);
+    };
+
+    const handleCancel = () => {
+        abortRef.current?.abort();
+    };
+
+    const isImageFormat = format === 'gif' || format === 'png-sequence';
+    const formatName = formats.find(f => f.id === format)?.name ?? format;
+    const percent = progress && progress.totalFrames > 0 ? Math.round((progress.frame / progress.totalFrames) * 100) : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => !isExporting && onClose()}>
+            <div className="bg-gray-900 border border-gray-700/50 rounded-2xl shadow-2xl w-full max-w-lg p-6 lg:p-8 relative text-left" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-white mb-6 font-plex">Export</h2>
+                {!isExporting && (
+                    <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors" aria-label="Close export">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                )}
+                <div className="space-y-6">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">Format</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {formats.map(({ id, name, description }) => (
+                                <button key={id} type="button" disabled={isExporting} onClick={() => setFormat(id)} className={`w-full px-3 py-2 border rounded-md text-sm transition-colors duration-200 disabled:cursor-not-allowed ${format === id ? 'bg-indigo-600 border-transparent text-white' : 'bg-gray-800/60 border-gray-700/50 text-gray-300 hover:bg-gray-700/80'}`}>
+                                    <span className="block font-medium">{name}</span>
+                                    <span className="block text-xs opacity-75">{description}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {isImageFormat && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="export-fps" className="block text-sm font-medium text-gray-300 mb-2">Frame Rate</label>
+                                <select id="export-fps" value={fps} disabled={isExporting} onChange={e => setFps(Number(e.target.value))} className="w-full px-3 py-2 bg-gray-800 border border-gray-700/50 rounded-md text-sm text-gray-200">
+                                    {frameRates.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="export-scale" className="block text-sm font-medium text-gray-300 mb-2">Size</label>
+                                <select id="export-scale" value={scale} disabled={isExporting} onChange={e => setScale(Number(e.target.value))} className="w-full px-3 py-2 bg-gray-800 border border-gray-700/50 rounded-md text-sm text-gray-200">
+                                    {scales.map(({ value, name }) => <option key={value} value={value}>{name}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                    )}
+
+                    {isImageFormat && videoResult.transparentBackground && (
+                        <p className="text-xs text-gray-500">Transparent background is kept. {format === 'gif' ? 'GIF supports 1-bit transparency, so soft edges are hardened.' : 'PNG frames keep full alpha.'}</p>
+                    )}
+
+                    {progress && (
+                        <div>
+                            <p className="text-gray-400 text-sm mb-2">{done ? 'Export complete. Your download has started.' : progress.message}</p>
+                            <div className="w-full bg-gray-700/50 rounded-full h-2.5">
+                                <div className="bg-gradient-to-r from-purple-500 to-indigo-500 h-2.5 rounded-full" style={{ width: `${done ? 100 : percent}%`, transition: 'width 0.2s ease-out' }}></div>
+                            </div>
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-red-400 whitespace-pre-wrap">{error}</p>}
+
+                    <div className="flex flex-wrap items-center justify-between gap-3 border-t border-gray-700/50 pt-4">
+                        <div className="flex items-center gap-2">
+                            <label htmlFor="caption-source" className="text-sm font-medium text-gray-300">Captions</label>
+                            <select id="caption-source" value={captionSource} onChange={e => setCaptionSource(e.target.value as CaptionSource)} className="px-2 py-1.5 bg-gray-800 border border-gray-700/50 rounded-md text-sm text-gray-200">
+                                <option value="narration" disabled={!hasNarration}>Narration</option>
+                                <option value="text">On-screen text</option>
+                            </select>
+                        </div>
+                        <div className="flex gap-2">
+                            <button type="button" onClick={() => handleCaptionDownload('srt')} className="px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300 hover:bg-gray-700/80 transition-colors">SRT</button>
+                            <button type="button" onClick={() => handleCaptionDownload('vtt')} className="px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300 hover:bg-gray-700/80 transition-colors">WebVTT</button>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end gap-3">
+                        {isExporting ? (
+                            <Button type="button" onClick={handleCancel}>Cancel</Button>
+                        ) : (
+                            <Button type="button" onClick={handleExport}>{done ? 'Export Again' : `Export ${formatName}`}</Button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
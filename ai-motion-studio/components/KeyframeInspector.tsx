@@ -0,0 +1,171 @@
+import React from 'react';
+import type { AnimationElement, CameraKeyframe, CameraSettings, VideoResult } from '../types';
+import { getTrackKeyframes, removeKeyframe, setKeyframeCamera, setKeyframeStyle, updateKeyframe, type KeyframeSelection } from '../lib/editor';
+import { ANIMATABLE_PROPERTIES, COLOR_PROPERTIES, type AnimatableCSSProperties } from '../lib/animation/keyframes';
+import { EASING_PRESETS, formatEasing } from '../lib/animation/easing';
+import { TEXT_UNIT_NAMES } from '../lib/animation/text';
+import { CAMERA_PROPERTIES, DEFAULT_CAMERA } from '../lib/animation/camera';
+import { ElementSettings } from './ElementSettings';
+
+const placeholders: Partial<Record<AnimatableCSSProperties, string>> = {
+    transform: 'translateX(10vw) rotate(5deg)',
+    transformOrigin: '50% 50%',
+    width: '20vw',
+    height: '20vw',
+    borderRadius: '12px',
+    filter: 'blur(4px)',
+    textShadow: '0 0 20px #6366f1',
+    stroke: '#ffffff',
+    strokeWidth: '4',
+    strokeDashoffset: '1 = hidden, 0 = drawn',
+    fill: 'none',
+};
+
+const cameraHints: Record<keyof CameraSettings, string> = {
+    x: 'Pan, % of the frame width',
+    y: 'Pan, % of the frame height',
+    z: 'Dolly toward the scene, px',
+    zoom: 'Lens zoom, 1 for none',
+    orbit: 'Degrees around the focus point, horizontally',
+    tilt: 'Degrees around the focus point, vertically',
+    focalLength: 'Lens, mm',
+    focus: 'Depth in focus, px',
+    aperture: 'Blur per 100px away from focus',
+};
+
+const isColorProperty = (property: AnimatableCSSProperties) => (COLOR_PROPERTIES as readonly string[]).includes(property);
+const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+const inputClass = 'w-full px-2 py-1 bg-gray-900 border border-gray-700/50 rounded text-sm text-white placeholder-gray-600';
+
+interface KeyframeInspectorProps {
+    videoResult: VideoResult;
+    selection: KeyframeSelection;
+    onChange: (videoResult: VideoResult) => void;
+    onSelectionChange: (selection: KeyframeSelection | null) => void;
+}
+
+export const KeyframeInspector: React.FC<KeyframeInspectorProps> = ({ videoResult, selection, onChange, onSelectionChange }) => {
+    const scene = videoResult.scenes[selection.sceneIndex];
+    const keyframe = scene && getTrackKeyframes(scene, selection.elementId, selection.units)[selection.keyframeIndex];
+    if (!keyframe) return null;
+
+    const element: AnimationElement | undefined = scene.animationElements.find(el => el.id === selection.elementId);
+    const style = keyframe.style as Record<string, string | number | undefined>;
+
+    const setStyle = (property: AnimatableCSSProperties, value: string | number | undefined) => onChange(setKeyframeStyle(videoResult, selection, property, value));
+
+    const handleDelete = () => {
+        onChange(removeKeyframe(videoResult, selection));
+        onSelectionChange(null);
+    };
+
+    return (
+        <div className="mt-4 p-4 bg-gray-800/40 border border-gray-700/50 rounded-lg text-left">
+            <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-semibold text-gray-300 font-plex">
+                    Scene {selection.sceneIndex + 1} · {element ? element.id : 'Camera'}{selection.units && element?.textAnimation && ` · Each ${TEXT_UNIT_NAMES[element.textAnimation.split]}`} · Keyframe
+                </h4>
+                <button type="button" onClick={handleDelete} className="px-3 py-1 bg-gray-800/60 border border-red-500/30 rounded-md text-xs text-red-300 hover:bg-red-900/30 transition-colors">
+                    Delete keyframe
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                    <span className="w-16 shrink-0">At</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={Math.round(keyframe.at * 1000) / 10}
+                        onChange={e => Number.isFinite(e.target.valueAsNumber) && onChange(updateKeyframe(videoResult, selection, { at: Math.min(1, Math.max(0, e.target.valueAsNumber / 100)) }))}
+                        className={inputClass}
+                    />
+                    %
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-400 md:col-span-2">
+                    <span className="w-16 shrink-0">Easing</span>
+                    <input
+                        list="keyframe-easing-presets"
+                        value={formatEasing(keyframe.easing)}
+                        placeholder="linear"
+                        onChange={e => onChange(updateKeyframe(videoResult, selection, { easing: e.target.value || undefined }))}
+                        className={inputClass}
+                    />
+                    <datalist id="keyframe-easing-presets">
+                        {EASING_PRESETS.map(preset => <option key={preset} value={preset} />)}
+                        <option value="cubic-bezier(0.2, 0, 0, 1)" />
+                        <option value="spring(1, 12, 120)" />
+                    </datalist>
+                </label>
+            </div>
+
+            {element && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+                    <ElementSettings videoResult={videoResult} sceneIndex={selection.sceneIndex} element={element} onChange={onChange} />
+                </div>
+            )}
+
+            {selection.elementId === null && (
+                <>
+                    <p className="text-xs text-gray-500 mb-2">3D camera at this keyframe. Empty fields carry over from the keyframes around it.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-2 mb-4">
+                        {CAMERA_PROPERTIES.map(property => (
+                            <label key={property} className="flex items-center gap-2 text-sm text-gray-400">
+                                <span className="w-24 shrink-0 font-mono text-xs" title={cameraHints[property]}>{property}</span>
+                                <input
+                                    type="number"
+                                    step={property === 'zoom' ? 0.05 : 1}
+                                    value={(keyframe as CameraKeyframe).camera?.[property] ?? ''}
+                                    placeholder={String(DEFAULT_CAMERA[property])}
+                                    onChange={e => onChange(setKeyframeCamera(videoResult, selection, property, Number.isFinite(e.target.valueAsNumber) ? e.target.valueAsNumber : undefined))}
+                                    className={inputClass}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            <p className="text-xs text-gray-500 mb-2">Style at this keyframe. Leave a field empty to stop keying that property here.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                {ANIMATABLE_PROPERTIES.map(property => {
+                    const value = style[property];
+                    return (
+                        <label key={property} className="flex items-center gap-2 text-sm text-gray-400">
+                            <span className="w-28 shrink-0 font-mono text-xs">{property}</span>
+                            {property === 'opacity' ? (
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={1}
+                                    step={0.05}
+                                    value={value ?? ''}
+                                    onChange={e => setStyle(property, e.target.value === '' ? undefined : e.target.valueAsNumber)}
+                                    className={inputClass}
+                                />
+                            ) : (
+                                <input
+                                    value={value ?? ''}
+                                    placeholder={placeholders[property]}
+                                    onChange={e => setStyle(property, e.target.value)}
+                                    className={inputClass}
+                                />
+                            )}
+                            {isColorProperty(property) && (
+                                <input
+                                    type="color"
+                                    value={typeof value === 'string' && isHexColor(value) ? value : '#ffffff'}
+                                    onChange={e => setStyle(property, e.target.value)}
+                                    className="w-8 h-8 shrink-0 rounded border-none bg-gray-800 cursor-pointer"
+                                />
+                            )}
+                        </label>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
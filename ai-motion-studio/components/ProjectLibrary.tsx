@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { MotionProject } from '../types';
+import { deleteProject, listProjects, saveProject, type LibraryEntry } from '../lib/project/library';
+import { parseProject, PROJECT_EXTENSION } from '../lib/project/format';
+
+interface ProjectLibraryProps {
+    onOpen: (project: MotionProject) => void;
+    onClose: () => void;
+}
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpen, onClose }) => {
+    const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = () => listProjects().then(setEntries).catch(e => setError((e as Error).message));
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const project = parseProject(await file.text());
+            await saveProject(project);
+            onOpen(project);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteProject(id);
+            await refresh();
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-gray-900 border border-gray-700/50 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col p-6 lg:p-8 relative" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-white mb-6 font-plex">Projects</h2>
+                <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+
+                <div className="flex items-center justify-between mb-4 gap-4">
+                    <p className="text-sm text-gray-400">Generations are saved in this browser automatically.</p>
+                    <button type="button" onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300 hover:bg-gray-700/80 transition-colors">
+                        Import {PROJECT_EXTENSION}
+                    </button>
+                    <input ref={fileInputRef} type="file" accept={`${PROJECT_EXTENSION},.json,application/json`} className="hidden" onChange={handleImport} />
+                </div>
+                {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+                <div className="overflow-y-auto">
+                    {entries === null && !error && <p className="text-sm text-gray-500">Loading projects...</p>}
+                    {entries?.length === 0 && <p className="text-sm text-gray-500">No saved projects yet.</p>}
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                        {entries?.map(({ id, project, thumbnail }) => (
+                            <div key={id} className="bg-gray-800/40 border border-gray-700/50 rounded-lg overflow-hidden text-left">
+                                <button type="button" onClick={() => onOpen(project)} className="block w-full aspect-video bg-black">
+                                    {thumbnail
+                                        ? <img src={thumbnail} alt="" className="w-full h-full object-contain" />
+                                        : <span className="text-xs text-gray-600">No preview</span>}
+                                </button>
+                                <div className="p-3">
+                                    <p className="text-sm text-gray-200 truncate" title={project.name}>{project.name}</p>
+                                    <div className="flex items-center justify-between mt-1">
+                                        <span className="text-xs text-gray-500">{new Date(project.updatedAt).toLocaleString()}</span>
+                                        <button type="button" onClick={() => handleDelete(id)} className="text-xs text-gray-500 hover:text-red-400 transition-colors">Delete</button>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
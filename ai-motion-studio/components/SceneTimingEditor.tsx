@@ -0,0 +1,129 @@
+import React from 'react';
+import type { SceneTransition, TransitionType, VideoResult } from '../types';
+import { fitSceneDurations, getSceneDuration, getTimingMismatch, getTotalDuration, getTransitionDuration, MIN_SCENE_DURATION } from '../lib/timing';
+import { DEFAULT_TRANSITION, TRANSITION_TYPES } from '../lib/animation/transitions';
+import { EASING_PRESETS, formatEasing } from '../lib/animation/easing';
+
+const transitionNames: Record<TransitionType, string> = {
+    'fade': 'Fade',
+    'wipe-left': 'Wipe left',
+    'wipe-right': 'Wipe right',
+    'wipe-up': 'Wipe up',
+    'wipe-down': 'Wipe down',
+    'slide-left': 'Slide left',
+    'slide-right': 'Slide right',
+    'slide-up': 'Slide up',
+    'slide-down': 'Slide down',
+    'zoom': 'Zoom through',
+    'iris': 'Iris',
+    'glitch': 'Glitch',
+    'cut': 'Cut',
+};
+
+const inputClass = 'px-2 py-1 bg-gray-900 border border-gray-700/50 rounded text-white';
+
+interface SceneTimingEditorProps {
+    videoResult: VideoResult;
+    onChange: (videoResult: VideoResult) => void;
+}
+
+export const SceneTimingEditor: React.FC<SceneTimingEditorProps> = ({ videoResult, onChange }) => {
+    const mismatch = getTimingMismatch(videoResult);
+
+    const setSceneDuration = (index: number, duration: number) => {
+        if (!Number.isFinite(duration)) return;
+        const scenes = videoResult.scenes.map((scene, i) => i === index ? { ...scene, duration: Math.max(MIN_SCENE_DURATION, duration) } : scene);
+        onChange({ ...videoResult, scenes });
+    };
+
+    const setTransition = (index: number, patch: Partial<SceneTransition>) => {
+        const scenes = videoResult.scenes.map((scene, i) => i === index ? { ...scene, transition: { ...(scene.transition ?? DEFAULT_TRANSITION), ...patch } } : scene);
+        onChange({ ...videoResult, scenes });
+    };
+
+    const handleFit = () => {
+        if (!videoResult.duration) return;
+        onChange({ ...videoResult, scenes: fitSceneDurations(videoResult.scenes, videoResult.duration) });
+    };
+
+    return (
+        <div className="bg-gray-900/50 border border-gray-700/50 rounded-xl p-4 mb-8 text-left">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-gray-300 font-plex">Scene Timing &amp; Transitions</h3>
+                <span className="text-sm text-gray-400">
+                    Total: <span className="font-bold text-indigo-400">{getTotalDuration(videoResult).toFixed(1)}s</span>
+                    {videoResult.duration ? ` / ${videoResult.duration}s requested` : ''}
+                </span>
+            </div>
+            <div className="flex flex-wrap gap-3">
+                {videoResult.scenes.map((scene, index) => {
+                    const transition = scene.transition ?? DEFAULT_TRANSITION;
+                    const isLast = index === videoResult.scenes.length - 1;
+                    return (
+                        <div key={index} className="flex items-center gap-2 px-3 py-2 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300">
+                            <label className="flex items-center gap-2">
+                                Scene {index + 1}
+                                <input
+                                    type="number"
+                                    min={MIN_SCENE_DURATION}
+                                    step={0.1}
+                                    value={Number(getSceneDuration(scene).toFixed(2))}
+                                    onChange={e => setSceneDuration(index, Number(e.target.value))}
+                                    className={`w-20 ${inputClass}`}
+                                />
+                                s
+                            </label>
+                            {isLast ? (
+                                // Only the length of the last scene's transition matters: it holds for that long.
+                                <select value={transition.type === 'cut' ? 'cut' : 'fade'} onChange={e => setTransition(index, { type: e.target.value as TransitionType })} className={inputClass} aria-label="End of video">
+                                    <option value="fade">Hold</option>
+                                    <option value="cut">End on cut</option>
+                                </select>
+                            ) : (
+                                <select value={transition.type} onChange={e => setTransition(index, { type: e.target.value as TransitionType })} className={inputClass} aria-label={`Transition after scene ${index + 1}`}>
+                                    {TRANSITION_TYPES.map(type => <option key={type} value={type}>→ {transitionNames[type]}</option>)}
+                                </select>
+                            )}
+                            {transition.type !== 'cut' && (
+                                <>
+                                    <input
+                                        type="number"
+                                        min={0.1}
+                                        max={3}
+                                        step={0.1}
+                                        value={Number(getTransitionDuration(scene).toFixed(2))}
+                                        onChange={e => Number.isFinite(e.target.valueAsNumber) && e.target.valueAsNumber > 0 && setTransition(index, { duration: Math.min(3, e.target.valueAsNumber) })}
+                                        className={`w-16 ${inputClass}`}
+                                        aria-label={`Transition length after scene ${index + 1}`}
+                                    />
+                                    s
+                                    {!isLast && (
+                                        <input
+                                            list="transition-easing-presets"
+                                            value={formatEasing(transition.easing)}
+                                            placeholder="linear"
+                                            onChange={e => setTransition(index, { easing: e.target.value || undefined })}
+                                            className={`w-32 ${inputClass}`}
+                                            aria-label={`Transition easing after scene ${index + 1}`}
+                                        />
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+            <datalist id="transition-easing-presets">
+                {EASING_PRESETS.map(preset => <option key={preset} value={preset} />)}
+            </datalist>
+            {mismatch && (
+                <div className="flex items-center justify-between mt-3 gap-4">
+                    <p className="text-sm text-amber-400">{mismatch}</p>
+                    <button type="button" onClick={handleFit} className="px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300 hover:bg-gray-700/80 transition-colors">
+                        Fit to {videoResult.duration}s
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import type { Soundtrack, VideoResult } from '../types';
+import { getTotalDuration } from '../lib/timing';
+import { loadSoundtrack, snapKeyframesToBeats, snapScenesToBeats } from '../lib/audio/soundtrack';
+
+const smallButtonClass = 'px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300 hover:bg-gray-700/80 transition-colors disabled:opacity-50';
+const inputClass = 'px-2 py-1 bg-gray-900 border border-gray-700/50 rounded text-white';
+
+const WAVEFORM_HEIGHT = 48;
+
+/**
+ * The track's waveform with its beats, and the part of it the video plays highlighted.
+ */
+const Waveform: React.FC<{ soundtrack: Soundtrack; videoSeconds: number }> = ({ soundtrack, videoSeconds }) => {
+    const { peaks, beats, durationInSeconds, offset = 0 } = soundtrack;
+    const x = (seconds: number) => seconds / durationInSeconds * peaks.length;
+    const mid = WAVEFORM_HEIGHT / 2;
+    return (
+        <svg viewBox={`0 0 ${peaks.length} ${WAVEFORM_HEIGHT}`} preserveAspectRatio="none" className="w-full h-12 bg-gray-950/60 rounded">
+            <rect x={x(offset)} y={0} width={x(videoSeconds)} height={WAVEFORM_HEIGHT} fill="rgba(99, 102, 241, 0.2)" />
+            {beats.map((beat, i) => <line key={i} x1={x(beat)} x2={x(beat)} y1={0} y2={WAVEFORM_HEIGHT} stroke="rgba(250, 204, 21, 0.35)" strokeWidth={0.5} />)}
+            {peaks.map((peak, i) => <line key={`p${i}`} x1={i + 0.5} x2={i + 0.5} y1={mid - peak * mid} y2={mid + peak * mid} stroke="#9ca3af" strokeWidth={0.8} />)}
+        </svg>
+    );
+};
+
+interface SoundtrackPanelProps {
+    videoResult: VideoResult;
+    onChange: (videoResult: VideoResult) => void;
+}
+
+export const SoundtrackPanel: React.FC<SoundtrackPanelProps> = ({ videoResult, onChange }) => {
+    const { soundtrack } = videoResult;
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file: File | undefined = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            onChange({ ...videoResult, soundtrack: await loadSoundtrack(file) });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const update = (patch: Partial<Soundtrack>) => soundtrack && onChange({ ...videoResult, soundtrack: { ...soundtrack, ...patch } });
+
+    return (
+        <div className="bg-gray-900/50 border border-gray-700/50 rounded-xl p-4 mb-8 text-left">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-gray-300 font-plex">Soundtrack</h3>
+                <div className="flex items-center gap-2">
+                    {soundtrack && <span className="text-sm text-gray-400 truncate max-w-xs" title={soundtrack.name}>{soundtrack.name} · <span className="font-bold text-indigo-400">{Math.round(soundtrack.tempo)} BPM</span></span>}
+                    <button type="button" onClick={() => inputRef.current?.click()} disabled={isLoading} className={smallButtonClass}>
+                        {isLoading ? 'Analysing…' : soundtrack ? 'Replace' : 'Add music'}
+                    </button>
+                    {soundtrack && <button type="button" onClick={() => onChange({ ...videoResult, soundtrack: undefined })} className={smallButtonClass}>Remove</button>}
+                    <input ref={inputRef} type="file" accept="audio/*" onChange={handleFile} className="hidden" />
+                </div>
+            </div>
+            {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+            {soundtrack && (
+                <>
+                    <Waveform soundtrack={soundtrack} videoSeconds={getTotalDuration(videoResult)} />
+                    <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-gray-300">
+                        <label className="flex items-center gap-2">
+                            Start at
+                            <input
+                                type="number"
+                                min={0}
+                                max={Math.floor(soundtrack.durationInSeconds)}
+                                step={0.1}
+                                value={soundtrack.offset ?? 0}
+                                onChange={e => {
+                                    const offset = Number(e.target.value);
+                                    if (Number.isFinite(offset)) update({ offset: Math.min(soundtrack.durationInSeconds, Math.max(0, offset)) });
+                                }}
+                                className={`w-20 ${inputClass}`}
+                            />
+                            s
+                        </label>
+                        <label className="flex items-center gap-2">
+                            Volume
+                            <input type="range" min={0} max={1} step={0.05} value={soundtrack.volume ?? 1} onChange={e => update({ volume: Number(e.target.value) })} />
+                        </label>
+                        <div className="flex items-center gap-2 ml-auto">
+                            <button type="button" onClick={() => onChange(snapScenesToBeats(videoResult))} className={smallButtonClass}>Snap scenes to beats</button>
+                            <button type="button" onClick={() => onChange(snapKeyframesToBeats(videoResult))} className={smallButtonClass}>Snap keyframes to beats</button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { TemplateVariable, VideoResult, VideoTemplate } from '../types';
+import { createTemplate, fillTemplate } from '../lib/template/template';
+import { deleteTemplate, listTemplates, saveTemplate } from '../lib/template/library';
+import { BUILT_IN_TEMPLATES } from '../lib/template/builtins';
+import { blobToDataUrl } from '../lib/export/frames';
+import { VideoPlayer } from './VideoPlayer';
+
+const smallButtonClass = 'px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-md text-sm text-gray-300 hover:bg-gray-700/80 transition-colors disabled:opacity-50';
+const inputClass = 'w-full px-2 py-1.5 bg-gray-900 border border-gray-700/50 rounded text-sm text-white';
+
+const VariableField: React.FC<{ variable: TemplateVariable; value: string; onChange: (value: string) => void }> = ({ variable, value, onChange }) => {
+    const label = variable.label ?? variable.name;
+
+    const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file: File | undefined = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onChange(await blobToDataUrl(file));
+    };
+
+    return (
+        <label className="block text-sm text-gray-300">
+            <span className="block mb-1">{label}</span>
+            {variable.type === 'color' && (
+                <span className="flex items-center gap-2">
+                    <input type="color" value={value || variable.defaultValue || '#ffffff'} onChange={e => onChange(e.target.value)} className="w-8 h-8 p-0 border-none rounded cursor-pointer bg-gray-800" />
+                    <input type="text" value={value} placeholder={variable.defaultValue} onChange={e => onChange(e.target.value)} className={inputClass} />
+                </span>
+            )}
+            {variable.type === 'image' && (
+                <span className="flex items-center gap-2">
+                    {value && <img src={value} alt="" className="w-8 h-8 object-cover rounded" />}
+                    <input type="url" value={value.startsWith('data:') ? '' : value} placeholder={value.startsWith('data:') ? 'Uploaded image' : 'Image URL'} onChange={e => onChange(e.target.value)} className={inputClass} />
+                    <input type="file" accept="image/*" onChange={handleImage} className="text-xs text-gray-400 w-28" />
+                </span>
+            )}
+            {variable.type === 'text' && (
+                <textarea rows={value.includes('\n') ? 3 : 1} value={value} placeholder={variable.defaultValue} onChange={e => onChange(e.target.value)} className={`${inputClass} resize-y`} />
+            )}
+        </label>
+    );
+};
+
+interface TemplateLibraryProps {
+    videoResult?: VideoResult; // The open video, offered to be saved as a template
+    onUse: (videoResult: VideoResult, template: VideoTemplate) => void;
+    onClose: () => void;
+}
+
+export const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ videoResult, onUse, onClose }) => {
+    const [templates, setTemplates] = useState<VideoTemplate[]>(BUILT_IN_TEMPLATES);
+    const [selected, setSelected] = useState<VideoTemplate | null>(null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [saveName, setSaveName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = () => listTemplates().then(setTemplates).catch(e => setError((e as Error).message));
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const preview = useMemo(() => selected && fillTemplate(selected, values), [selected, values]);
+
+    const select = (template: VideoTemplate) => {
+        setSelected(template);
+        setValues({});
+    };
+
+    const handleSave = async () => {
+        if (!videoResult || !saveName.trim()) return;
+        try {
+            const template = createTemplate(videoResult, saveName.trim());
+            await saveTemplate(template);
+            await refresh();
+            setSaveName('');
+            select(template);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteTemplate(id);
+            if (selected?.id === id) setSelected(null);
+            await refresh();
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-gray-900 border border-gray-700/50 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[85vh] flex flex-col p-6 lg:p-8 relative" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-white mb-6 font-plex">Templates</h2>
+                <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+
+                {videoResult && (
+                    <div className="flex items-center gap-3 mb-4">
+                        <input type="text" value={saveName} onChange={e => setSaveName(e.target.value)} placeholder="Template name" className={`max-w-xs ${inputClass}`} />
+                        <button type="button" onClick={handleSave} disabled={!saveName.trim()} className={smallButtonClass}>Save current video as template</button>
+                        <span className="text-xs text-gray-500">Its text becomes fields; type {'{{name}}'} into colors or image URLs to make them fields too.</span>
+                    </div>
+                )}
+                {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+                <div className="flex gap-6 min-h-0 flex-1">
+                    <div className="w-64 shrink-0 overflow-y-auto space-y-2">
+                        {templates.map(template => (
+                            <div key={template.id} className={`p-3 rounded-lg border text-left ${selected?.id === template.id ? 'bg-indigo-600/20 border-indigo-500/60' : 'bg-gray-800/40 border-gray-700/50'}`}>
+                                <button type="button" onClick={() => select(template)} className="block w-full text-left">
+                                    <p className="text-sm text-gray-200 truncate" title={template.name}>{template.name}</p>
+                                    {template.description && <p className="text-xs text-gray-500 mt-1">{template.description}</p>}
+                                </button>
+                                <div className="flex items-center justify-between mt-1">
+                                    <span className="text-xs text-gray-500">{template.builtIn ? 'Built-in' : `${template.variables.length} fields`}</span>
+                                    {!template.builtIn && <button type="button" onClick={() => handleDelete(template.id)} className="text-xs text-gray-500 hover:text-red-400 transition-colors">Delete</button>}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex-1 min-w-0 overflow-y-auto">
+                        {!selected || !preview ? (
+                            <p className="text-sm text-gray-500">Choose a template to fill it in.</p>
+                        ) : (
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                <div className="space-y-3">
+                                    {selected.variables.length === 0 && <p className="text-sm text-gray-500">This template has no fields.</p>}
+                                    {selected.variables.map(variable => (
+                                        <VariableField
+                                            key={variable.name}
+                                            variable={variable}
+                                            value={values[variable.name] ?? ''}
+                                            onChange={value => setValues(current => ({ ...current, [variable.name]: value }))}
+                                        />
+                                    ))}
+                                </div>
+                                <div>
+                                    <div className="bg-black rounded-lg overflow-hidden">
+                                        <VideoPlayer videoResult={preview} />
+                                    </div>
+                                    <div className="flex justify-end mt-4">
+                                        <button type="button" onClick={() => onUse(preview, selected)} className={smallButtonClass}>Use template</button>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,255 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PlayerRef } from '@remotion/player';
+import type { AnimationElement, AnimationKeyframe, VideoResult } from '../types';
+import { FPS, getSceneTimings, type SceneTiming } from '../lib/timing';
+import { addElement, addKeyframe, getTrackKeyframes, removeElement, updateKeyframe, type KeyframeSelection, type NewElementKind } from '../lib/editor';
+import { blobToDataUrl } from '../lib/export/frames';
+import { TEXT_UNIT_NAMES } from '../lib/animation/text';
+import { getSceneBeatFractions } from '../lib/audio/soundtrack';
+import { KeyframeInspector } from './KeyframeInspector';
+
+const newElementKinds: { kind: NewElementKind, name: string }[] = [
+    { kind: 'text', name: '+ Text' },
+    { kind: 'rectangle', name: '+ Rectangle' },
+    { kind: 'circle', name: '+ Circle' },
+    { kind: 'polygon', name: '+ Polygon' },
+    { kind: 'star', name: '+ Star' },
+    { kind: 'path', name: '+ Path' },
+    { kind: 'line', name: '+ Line' },
+    { kind: 'image', name: '+ Image' },
+    { kind: 'logo', name: '+ Logo' },
+];
+
+type Track = Omit<KeyframeSelection, 'keyframeIndex'>;
+
+// How close (in pixels) a dragged keyframe has to come to a beat to land on it.
+const BEAT_SNAP_DISTANCE = 6;
+
+const elementLabel = (element: AnimationElement) => {
+    if (element.type === 'text') return element.text?.trim() || element.id;
+    if (element.type === 'logo') return `logo · ${element.logo ?? element.id}`;
+    if (element.type === 'shape') return `${element.shape ?? 'shape'} · ${element.id}`;
+    return `${element.type} · ${element.id}`;
+};
+
+/**
+ * Vertical line at the player's current frame, drawn only while the frame falls inside this scene.
+ */
+const Playhead: React.FC<{ playerRef: React.RefObject<PlayerRef>; timing: SceneTiming }> = ({ playerRef, timing }) => {
+    const [frame, setFrame] = useState<number | null>(null);
+
+    useEffect(() => {
+        const player = playerRef.current;
+        if (!player) return;
+        const handleFrame = ({ detail }: { detail: { frame: number } }) => setFrame(detail.frame);
+        setFrame(player.getCurrentFrame());
+        player.addEventListener('frameupdate', handleFrame);
+        return () => player.removeEventListener('frameupdate', handleFrame);
+    }, [playerRef]);
+
+    if (frame === null || frame < timing.from || frame >= timing.from + timing.durationInFrames) return null;
+    // Keyframe positions are fractions of the scene's own duration; the transition overlap runs past 100%.
+    const left = Math.min(1, (frame - timing.from) / timing.sceneDuration);
+    return <div className="absolute top-0 bottom-0 w-px bg-red-400 pointer-events-none" style={{ left: `${left * 100}%` }} />;
+};
+
+interface KeyframeTrackProps {
+    keyframes: AnimationKeyframe[];
+    sceneFrames: number;
+    beats?: number[]; // Soundtrack beats as fractions of the scene
+    selectedIndex: number | null;
+    onSelect: (index: number) => void;
+    onMove: (index: number, at: number) => void;
+    onAdd: (at: number) => void;
+    children?: React.ReactNode;
+}
+
+const KeyframeTrack: React.FC<KeyframeTrackProps> = ({ keyframes, sceneFrames, beats = [], selectedIndex, onSelect, onMove, onAdd, children }) => {
+    const trackRef = useRef<HTMLDivElement>(null);
+    const draggingRef = useRef<number | null>(null);
+
+    // Keyframes snap to nearby beats, otherwise to whole frames of the scene.
+    const positionToAt = (clientX: number) => {
+        const rect = trackRef.current!.getBoundingClientRect();
+        const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+        const beat = beats.find(at => Math.abs(at - fraction) * rect.width <= BEAT_SNAP_DISTANCE);
+        return beat ?? Math.round(fraction * sceneFrames) / sceneFrames;
+    };
+
+    const handlePointerDown = (index: number) => (e: React.PointerEvent<HTMLButtonElement>) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        draggingRef.current = index;
+        onSelect(index);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+        if (draggingRef.current === null) return;
+        onMove(draggingRef.current, positionToAt(e.clientX));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        draggingRef.current = null;
+    };
+
+    return (
+        <div
+            ref={trackRef}
+            className="relative h-6 flex-1 bg-gray-800/60 border border-gray-700/50 rounded"
+            onDoubleClick={e => onAdd(positionToAt(e.clientX))}
+            title="Double-click to add a keyframe"
+        >
+            {beats.map((at, index) => (
+                <div key={`beat-${index}`} className="absolute top-0 bottom-0 w-px bg-yellow-400/30 pointer-events-none" style={{ left: `${at * 100}%` }} />
+            ))}
+            {children}
+            {keyframes.map((kf, index) => (
+                <button
+                    key={index}
+                    type="button"
+                    aria-label={`Keyframe at ${Math.round(kf.at * 100)}%`}
+                    onPointerDown={handlePointerDown(index)}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onDoubleClick={e => e.stopPropagation()}
+                    className={`absolute top-1/2 w-3 h-3 -ml-1.5 -mt-1.5 rotate-45 border cursor-ew-resize touch-none ${selectedIndex === index ? 'bg-indigo-500 border-white' : 'bg-gray-300 border-gray-500 hover:bg-white'}`}
+                    style={{ left: `${Math.min(1, Math.max(0, kf.at)) * 100}%` }}
+                />
+            ))}
+        </div>
+    );
+};
+
+interface TimelineEditorProps {
+    videoResult: VideoResult;
+    onChange: (videoResult: VideoResult) => void;
+    playerRef: React.RefObject<PlayerRef>;
+}
+
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({ videoResult, onChange, playerRef }) => {
+    const [selection, setSelection] = useState<KeyframeSelection | null>(null);
+    const timings = getSceneTimings(videoResult);
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const imageSceneRef = useRef(0);
+
+    // Keep the preview on the keyframe being edited.
+    const seekToKeyframe = (sceneIndex: number, at: number) => {
+        const player = playerRef.current;
+        if (!player) return;
+        player.pause();
+        player.seekTo(timings[sceneIndex].from + Math.round(at * timings[sceneIndex].sceneDuration));
+    };
+
+    const select = (track: Track, keyframeIndex: number) => {
+        setSelection({ ...track, keyframeIndex });
+        const keyframe = getTrackKeyframes(videoResult.scenes[track.sceneIndex], track.elementId, track.units)[keyframeIndex];
+        if (keyframe) seekToKeyframe(track.sceneIndex, keyframe.at);
+    };
+
+    const moveKeyframe = (track: Track, keyframeIndex: number, at: number) => {
+        onChange(updateKeyframe(videoResult, { ...track, keyframeIndex }, { at }));
+        seekToKeyframe(track.sceneIndex, at);
+    };
+
+    const insertKeyframe = (track: Track, at: number) => {
+        const result = addKeyframe(videoResult, track.sceneIndex, track.elementId, at, track.units);
+        onChange(result.videoResult);
+        setSelection({ ...track, keyframeIndex: result.keyframeIndex });
+        seekToKeyframe(track.sceneIndex, at);
+    };
+
+    const insertElement = (sceneIndex: number, kind: NewElementKind, patch?: Partial<AnimationElement>) => {
+        const result = addElement(videoResult, sceneIndex, kind, patch);
+        onChange(result.videoResult);
+        setSelection({ sceneIndex, elementId: result.elementId, keyframeIndex: 0 });
+    };
+
+    // Images are picked first and added once the file has been read.
+    const handleAddClick = (sceneIndex: number, kind: NewElementKind) => {
+        if (kind !== 'image') {
+            insertElement(sceneIndex, kind);
+            return;
+        }
+        imageSceneRef.current = sceneIndex;
+        imageInputRef.current?.click();
+    };
+
+    const handleImageFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file: File | undefined = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        insertElement(imageSceneRef.current, 'image', { src: await blobToDataUrl(file) });
+    };
+
+    const deleteElement = (sceneIndex: number, elementId: string) => {
+        onChange(removeElement(videoResult, sceneIndex, elementId));
+        if (selection?.sceneIndex === sceneIndex && selection.elementId === elementId) setSelection(null);
+    };
+
+    const renderTrack = (track: Track, label: string, onDelete?: () => void) => {
+        const { sceneIndex, elementId, units = false } = track;
+        const isSelectedTrack = selection?.sceneIndex === sceneIndex && selection.elementId === elementId && Boolean(selection.units) === units;
+        return (
+            <div key={`${elementId ?? 'camera'}${units ? ':units' : ''}`} className="flex items-center gap-3">
+                <div className="w-40 shrink-0 flex items-center justify-between gap-2 text-xs text-gray-400">
+                    <span className={`truncate ${elementId === null || units ? 'italic' : ''} ${units ? 'pl-3' : ''}`} title={label}>{label}</span>
+                    {onDelete && (
+                        <button type="button" onClick={onDelete} className="text-gray-500 hover:text-red-400 transition-colors" aria-label={`Delete ${label}`}>×</button>
+                    )}
+                </div>
+                <KeyframeTrack
+                    keyframes={getTrackKeyframes(videoResult.scenes[sceneIndex], elementId, units)}
+                    sceneFrames={timings[sceneIndex].sceneDuration}
+                    // Per-unit keyframes are offset by each unit's delay, so beats don't line up with them.
+                    beats={units ? undefined : getSceneBeatFractions(videoResult, sceneIndex)}
+                    selectedIndex={isSelectedTrack ? selection.keyframeIndex : null}
+                    onSelect={index => select(track, index)}
+                    onMove={(index, at) => moveKeyframe(track, index, at)}
+                    onAdd={at => insertKeyframe(track, at)}
+                >
+                    <Playhead playerRef={playerRef} timing={timings[sceneIndex]} />
+                </KeyframeTrack>
+            </div>
+        );
+    };
+
+    return (
+        <div className="bg-gray-900/50 border border-gray-700/50 rounded-xl p-4 mb-8 text-left">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-gray-300 font-plex">Timeline</h3>
+                <span className="text-xs text-gray-500">Drag keyframes to retime them, double-click a track to add one.</span>
+                <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageFile} />
+            </div>
+            <div className="space-y-4">
+                {videoResult.scenes.map((scene, sceneIndex) => (
+                    <div key={sceneIndex} className="space-y-1.5">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs font-semibold text-gray-300">
+                                Scene {sceneIndex + 1}
+                                <span className="ml-2 font-normal text-gray-500">{(timings[sceneIndex].sceneDuration / FPS).toFixed(1)}s</span>
+                            </span>
+                            <div className="flex flex-wrap justify-end gap-1">
+                                {newElementKinds.filter(({ kind }) => kind !== 'logo' || videoResult.brandKit?.logos.length).map(({ kind, name }) => (
+                                    <button key={kind} type="button" onClick={() => handleAddClick(sceneIndex, kind)} className="px-2 py-0.5 bg-gray-800/60 border border-gray-700/50 rounded text-xs text-gray-300 hover:bg-gray-700/80 transition-colors">
+                                        {name}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {renderTrack({ sceneIndex, elementId: null }, 'Camera')}
+                        {scene.animationElements.map(element => (
+                            <React.Fragment key={element.id}>
+                                {renderTrack({ sceneIndex, elementId: element.id }, elementLabel(element), () => deleteElement(sceneIndex, element.id))}
+                                {element.textAnimation && renderTrack({ sceneIndex, elementId: element.id, units: true }, `↳ each ${TEXT_UNIT_NAMES[element.textAnimation.split]}`)}
+                            </React.Fragment>
+                        ))}
+                    </div>
+                ))}
+            </div>
+            {selection && (
+                <KeyframeInspector videoResult={videoResult} selection={selection} onChange={onChange} onSelectionChange={setSelection} />
+            )}
+        </div>
+    );
+};
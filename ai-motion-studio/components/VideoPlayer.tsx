@@ -1,119 +1,55 @@
-import React, { useMemo } from 'react';
-import { Player } from '@remotion/player';
-import { AbsoluteFill, Img, Sequence, useCurrentFrame, useVideoConfig, interpolate, interpolateColors } from 'remotion';
-import type { Scene, AspectRatio, VideoResult, AnimationElement, AnimationKeyframe } from '../types';
-
-// A specific list of CSS properties that the AI is allowed to animate.
-// This prevents TypeScript from trying to handle the entire, massive React.CSSProperties type,
-// which was causing the "union type too complex" error.
-type AnimatableCSSProperties = 'transform' | 'transformOrigin' | 'opacity' | 'backgroundColor' | 'width' | 'height' | 'borderRadius' | 'color' | 'filter' | 'textShadow';
-
-// Helper to parse transform string into a structured object
-const parseTransform = (transform: string | undefined): Record<string, { value: number; unit: string }> => {
-    const result: Record<string, { value: number; unit: string }> = {};
-    if (!transform) return result;
-    const regex = /(\w+)\(([^)]+)\)/g;
-    let match;
-    while ((match = regex.exec(transform)) !== null) {
-        const [, func, valStr] = match;
-        const valMatch = valStr.match(/(-?\d*\.?\d+)(.*)/);
-        if (valMatch) {
-            result[func] = { value: parseFloat(valMatch[1]), unit: valMatch[2] || '' };
-        }
-    }
-    return result;
-};
+import React, { useEffect, useMemo } from 'react';
+import { Player, type PlayerRef } from '@remotion/player';
+import { AbsoluteFill, Audio, Img, Sequence, useCurrentFrame, useVideoConfig, interpolate, delayRender, continueRender } from 'remotion';
+import type { Scene, AspectRatio, VideoResult, AnimationElement, AnimationKeyframe, BrandKit, SceneTransition } from '../types';
+import { FPS, getDurationInFrames, getSceneTimings } from '../lib/timing';
+import { buildCaptionCues } from '../lib/captions';
+import { sampleKeyframes } from '../lib/animation/keyframes';
+import { composeTransforms } from '../lib/animation/transform';
+import { DEFAULT_TRANSITION, transitionProgress, transitionStyle } from '../lib/animation/transitions';
+import { backgroundParallax, cameraTransform, depthBlur, lensPerspective, sampleCamera } from '../lib/animation/camera';
+import { applyBrandColor, applyBrandGradient, applyBrandPalette, fontFaceCss, fontFamilyStack, textFontSize } from '../lib/brand/kit';
+import { gradientCss } from '../lib/shapes';
+import { CaptionOverlay } from './CaptionOverlay';
+import { ElementGraphic } from './ElementGraphic';
+import { AnimatedText } from './AnimatedText';
 
 const useAnimatedStyle = (keyframes: AnimationKeyframe[] | undefined, duration: number) => {
     const frame = useCurrentFrame();
+    const { fps } = useVideoConfig();
 
-    return useMemo(() => {
-        const finalStyle: React.CSSProperties = {};
-        if (!keyframes || keyframes.length < 1) return finalStyle;
-
-        const sortedKeyframes = [...keyframes].sort((a, b) => a.at - b.at);
-
-        const properties = new Set<AnimatableCSSProperties>();
-        sortedKeyframes.forEach(kf => Object.keys(kf.style).forEach(p => properties.add(p as AnimatableCSSProperties)));
-
-        properties.forEach(prop => {
-            const keyframesForProp = sortedKeyframes.filter(kf => kf.style[prop] !== undefined);
-            if (keyframesForProp.length === 0) return;
-
-            if (keyframesForProp.length === 1) {
-                Object.assign(finalStyle, { [prop]: keyframesForProp[0].style[prop] });
-                return;
-            }
-
-            const inputRange = keyframesForProp.map(kf => kf.at * duration);
-
-            if (prop === 'opacity') {
-                // FIX: Ensure the output range is always an array of numbers.
-                // The `React.CSSProperties` type allows opacity to be a string, but Remotion's
-                // `interpolate` requires numbers. `parseFloat` safely handles this.
-                const outputRange = keyframesForProp.map(kf => parseFloat(String(kf.style.opacity ?? 1)));
-                finalStyle.opacity = interpolate(frame, inputRange, outputRange, { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-            } else if (prop === 'color' || prop === 'backgroundColor') {
-                 const outputRange = keyframesForProp.map(kf => String(kf.style[prop]));
-                 finalStyle[prop] = interpolateColors(frame, inputRange, outputRange);
-            } else if (prop === 'transform') {
-                const allFuncs = new Set<string>();
-                keyframesForProp.forEach(kf => {
-                    const parsed = parseTransform(kf.style.transform);
-                    Object.keys(parsed).forEach(key => allFuncs.add(key));
-                });
+    return useMemo(() => sampleKeyframes(keyframes, frame, duration, fps), [frame, keyframes, duration, fps]);
+};
 
-                const finalTransforms: string[] = [];
-                allFuncs.forEach(func => {
-                    let lastValue: number | undefined;
-                    let lastUnit: string | undefined;
 
-                    const funcInputRange: number[] = [];
-                    const funcOutputRange: number[] = [];
-                    
-                    sortedKeyframes.forEach(kf => {
-                        const parsed = parseTransform(kf.style.transform);
-                        const defaultValue = func.includes('scale') ? 1 : 0;
-                        const defaultUnit = func.includes('rotate') ? 'deg' : (func.includes('translate') ? 'px' : '');
-                        
-                        if(lastUnit === undefined) lastUnit = defaultUnit;
+/**
+ * Registers the brand kit's fonts and holds rendering until they have loaded, so no frame shows a fallback font.
+ */
+const BrandFonts: React.FC<{ brandKit: BrandKit }> = ({ brandKit }) => {
+    const css = useMemo(() => fontFaceCss(brandKit.fonts), [brandKit.fonts]);
 
-                        if (parsed[func]) {
-                           if(lastUnit === defaultUnit) lastUnit = parsed[func].unit;
-                           lastValue = parsed[func].value;
-                        } else if(lastValue === undefined) {
-                           lastValue = defaultValue;
-                        }
-                        
-                        funcInputRange.push(kf.at * duration);
-                        funcOutputRange.push(lastValue);
-                    });
-                    
-                    if (funcInputRange.length > 1) {
-                        const interpolatedValue = interpolate(frame, funcInputRange, funcOutputRange);
-                        finalTransforms.push(`${func}(${interpolatedValue}${lastUnit})`);
-                    }
-                });
-                finalStyle.transform = finalTransforms.join(' ');
-            } else {
-                // For other properties (width, height, filter, etc.), use step interpolation
-                let currentStyleValue = keyframesForProp[0].style[prop];
-                for (let i = 0; i < inputRange.length; i++) {
-                    if (frame >= inputRange[i]) {
-                        currentStyleValue = keyframesForProp[i].style[prop];
-                    }
-                }
-                finalStyle[prop] = currentStyleValue as any;
-            }
-        });
+    useEffect(() => {
+        if (typeof document === 'undefined' || !document.fonts) return;
+        const handle = delayRender('Loading brand fonts');
+        Promise.all(brandKit.fonts.map(font => document.fonts.load(`${font.weight ?? 400} 16px "${font.family}"`)))
+            .catch(e => console.warn('Failed to load brand fonts:', e))
+            .finally(() => continueRender(handle));
+    }, [css]);
 
-        return finalStyle;
-    }, [frame, keyframes, duration]);
+    return <style>{css}</style>;
 };
 
+interface AnimatedElementProps {
+    element: AnimationElement;
+    sceneDuration: number;
+    brandKit?: BrandKit;
+    blur?: number; // Depth-of-field blur in pixels
+}
 
-const AnimatedElement: React.FC<{ element: AnimationElement; sceneDuration: number; }> = ({ element, sceneDuration }) => {
-    const animatedStyle = useAnimatedStyle(element.keyframes, sceneDuration);
+const AnimatedElement: React.FC<AnimatedElementProps> = ({ element, sceneDuration, brandKit, blur = 0 }) => {
+    const keyframes = useMemo(() => applyBrandPalette(element.keyframes, brandKit), [element.keyframes, brandKit]);
+    const animatedStyle = useAnimatedStyle(keyframes, sceneDuration);
+    const gradient = useMemo(() => applyBrandGradient(element.gradient, brandKit), [element.gradient, brandKit]);
 
     const baseStyle: React.CSSProperties = {
         position: 'absolute',
@@ -122,31 +58,74 @@ const AnimatedElement: React.FC<{ element: AnimationElement; sceneDuration: numb
         justifyContent: 'center',
         top: '50%',
         left: '50%',
-        // Default transform to center the element, will be overridden by animation
+        // Centers the element on its position; the animated transform is applied on top
         transform: 'translate(-50%, -50%)',
     };
 
+    // Vector elements draw into an SVG that inherits stroke and fill from here.
+    const isVectorShape = element.type === 'shape' && (element.shape === 'polygon' || element.shape === 'star');
+    const isStroked = element.type === 'path' || element.type === 'line';
+
     if (element.type === 'shape' && element.shape === 'circle') {
         baseStyle.borderRadius = '50%';
     }
-    
+    if (element.type === 'shape' && !isVectorShape && gradient) {
+        baseStyle.backgroundImage = gradientCss(gradient);
+    }
+    if (isVectorShape || element.type === 'path' || element.type === 'image') {
+        baseStyle.width = '20vw';
+        baseStyle.height = '20vw';
+    }
+    if (isStroked) {
+        baseStyle.stroke = 'white';
+        baseStyle.strokeWidth = 4;
+        baseStyle.strokeLinecap = 'round';
+        baseStyle.strokeLinejoin = 'round';
+        baseStyle.fill = 'none';
+    }
+    if (element.type === 'line') {
+        baseStyle.width = '30vw';
+        baseStyle.height = '4vw';
+    }
+    if (element.type === 'image') {
+        baseStyle.overflow = 'hidden';
+    }
+
     if (element.type === 'text') {
         baseStyle.textAlign = 'center';
-        baseStyle.fontSize = 'clamp(1rem, 5vw, 3.5rem)';
-        baseStyle.fontWeight = 700;
+        baseStyle.fontSize = textFontSize(brandKit);
+        baseStyle.fontWeight = brandKit?.fontWeight ?? 700;
         baseStyle.lineHeight = '1.2';
         baseStyle.color = 'white'; // default
+        if (brandKit?.fontFamily) baseStyle.fontFamily = fontFamilyStack(brandKit.fontFamily);
+    }
+
+    // Logos come from the brand kit by name; one the kit doesn't have isn't drawn.
+    const logo = element.type === 'logo' ? brandKit?.logos.find(l => l.name === element.logo) : undefined;
+    if (element.type === 'logo') {
+        if (!logo) return null;
+        baseStyle.width = '15vw';
+        baseStyle.height = '15vw';
     }
 
-    // Combine transform from base and animation
+    // Combine transform from base and animation: the animation runs in the element's own space, after centering,
+    // and the whole element is then pushed back to its depth.
     const finalStyle = {...baseStyle, ...animatedStyle};
-    if (baseStyle.transform && animatedStyle.transform) {
-      finalStyle.transform = `${baseStyle.transform} ${animatedStyle.transform}`;
+    finalStyle.transform = composeTransforms(element.z ? `translateZ(${-element.z}px)` : undefined, baseStyle.transform, animatedStyle.transform);
+    if (blur > 0.05) finalStyle.filter = [animatedStyle.filter, `blur(${blur.toFixed(2)}px)`].filter(Boolean).join(' ');
+    // Polygons and stars are filled like the other shapes, with their background color.
+    if (isVectorShape) {
+        finalStyle.fill = animatedStyle.fill ?? animatedStyle.backgroundColor ?? 'white';
+        delete finalStyle.backgroundColor;
     }
 
     return (
         <div style={finalStyle}>
-            {element.type === 'text' ? element.text : null}
+            {element.type === 'text' && (element.textAnimation && element.text
+                ? <AnimatedText id={element.id} text={element.text} textAnimation={element.textAnimation} sceneDuration={sceneDuration} brandKit={brandKit} />
+                : element.text)}
+            {logo && <Img src={logo.src} style={{ width: '100%', height: '100%', objectFit: 'contain' }} />}
+            <ElementGraphic element={element} gradient={gradient} stroke={finalStyle.stroke} />
         </div>
     );
 };
@@ -154,11 +133,15 @@ const AnimatedElement: React.FC<{ element: AnimationElement; sceneDuration: numb
 
 interface SceneComponentProps {
     scene: Scene;
-    isFirst: boolean;
-    isLast: boolean;
+    // The previous scene's transition into this one and its length in frames; none for the first scene.
+    transitionIn?: SceneTransition;
+    transitionInDuration: number;
+    // The transition into the next scene; none for the last scene, which holds instead.
+    transitionOut?: SceneTransition;
     sceneDuration: number;
     transitionDuration: number;
     index: number;
+    brandKit?: BrandKit;
 }
 
 const getKenBurnsEffect = (frame: number, duration: number, index: number) => {
@@ -169,49 +152,44 @@ const getKenBurnsEffect = (frame: number, duration: number, index: number) => {
     return { transform: `scale(${scale}) rotate(${rotate}deg)` };
 }
 
-const SceneComponent: React.FC<SceneComponentProps> = ({ scene, isFirst, isLast, sceneDuration, transitionDuration, index }) => {
+const SceneComponent: React.FC<SceneComponentProps> = ({ scene, transitionIn, transitionInDuration, transitionOut, sceneDuration, transitionDuration, index, brandKit }) => {
     const frame = useCurrentFrame();
-    const { durationInFrames } = useVideoConfig();
+    const { fps, width } = useVideoConfig();
 
-    const opacity = (() => {
-        if (isFirst && isLast) return 1;
-        if (isFirst) {
-            return interpolate(frame, [sceneDuration, sceneDuration + transitionDuration], [1, 0], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-        }
-        if (isLast) {
-            return interpolate(frame, [0, transitionDuration], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-        }
-        const fadeIn = interpolate(frame, [0, transitionDuration], [0, 1], { extrapolateRight: 'clamp' });
-        const fadeOut = interpolate(frame, [sceneDuration, sceneDuration + transitionDuration], [1, 0], { extrapolateLeft: 'clamp' });
-        return Math.min(fadeIn, fadeOut);
-    })();
-    
-    const imageTransforms = getKenBurnsEffect(frame, durationInFrames, index);
+    const enterStyle = transitionIn && transitionStyle(transitionIn.type, 'entering', transitionProgress(transitionIn, frame, 0, transitionInDuration, fps));
+    const exitStyle = transitionOut && transitionStyle(transitionOut.type, 'exiting', transitionProgress(transitionOut, frame, sceneDuration, transitionDuration, fps));
+
+    const imageTransforms = getKenBurnsEffect(frame, sceneDuration + transitionDuration, index);
     const cameraStyle = useAnimatedStyle(scene.cameraAnimation, sceneDuration);
+    const camera = useMemo(() => sampleCamera(scene.cameraAnimation, frame, sceneDuration, fps), [scene.cameraAnimation, frame, sceneDuration, fps]);
+    // Later elements are drawn in front, so sorting by layer sets the stacking order.
+    const elements = useMemo(() => [...scene.animationElements].sort((a, b) => (a.layer ?? 0) - (b.layer ?? 0)), [scene.animationElements]);
 
     return (
-        <AbsoluteFill style={{ opacity, backgroundColor: scene.backgroundColor || 'transparent' }}>
-            {scene.imageUrl && (
-                 <Img
-                    src={scene.imageUrl}
-                    style={{
-                        position: 'absolute',
-                        width: '100%',
-                        height: '100%',
-                        objectFit: 'cover',
-                        ...imageTransforms,
-                    }}
-                />
-            )}
-            <AbsoluteFill style={{
-                background: scene.imageUrl ? 'linear-gradient(to top, rgba(0,0,0,0.4) 0%, transparent 50%)' : 'none',
-                perspective: '2000px', // Add perspective for 3D transforms to work
-                transformStyle: 'preserve-3d', // Necessary for children to have 3D space
-            }}>
-                <AbsoluteFill style={cameraStyle}>
-                  {scene.animationElements.map(el => (
-                      <AnimatedElement key={el.id} element={el} sceneDuration={sceneDuration} />
-                  ))}
+        // The exit and entrance are nested so their transforms and opacities compose.
+        <AbsoluteFill style={exitStyle}>
+            <AbsoluteFill style={{ ...enterStyle, backgroundColor: scene.backgroundColor || 'transparent' }}>
+                {scene.imageUrl && (
+                     <Img
+                        src={scene.imageUrl}
+                        style={{
+                            position: 'absolute',
+                            width: '100%',
+                            height: '100%',
+                            objectFit: 'cover',
+                            transform: composeTransforms(backgroundParallax(camera), imageTransforms.transform),
+                        }}
+                    />
+                )}
+                <AbsoluteFill style={{ background: scene.imageUrl ? 'linear-gradient(to top, rgba(0,0,0,0.4) 0%, transparent 50%)' : 'none' }}>
+                    {/* The lens: CSS camera styles apply to the whole view, and its perspective to the world inside. */}
+                    <AbsoluteFill style={{ ...cameraStyle, perspective: `${lensPerspective(camera.focalLength, width)}px` }}>
+                        <AbsoluteFill style={{ transform: cameraTransform(camera), transformStyle: 'preserve-3d' }}>
+                            {elements.map(el => (
+                                <AnimatedElement key={el.id} element={el} sceneDuration={sceneDuration} brandKit={brandKit} blur={depthBlur(camera, el.z ?? 0)} />
+                            ))}
+                        </AbsoluteFill>
+                    </AbsoluteFill>
                 </AbsoluteFill>
             </AbsoluteFill>
         </AbsoluteFill>
@@ -222,37 +200,52 @@ type AnimationProps = {
     videoResult: VideoResult;
 };
 
-const Animation: React.FC<AnimationProps> = ({ videoResult }) => {
-    const { scenes, backgroundColor } = videoResult;
+export const Animation: React.FC<AnimationProps> = ({ videoResult }) => {
+    const { scenes, backgroundColor, transparentBackground, narrationAudio, showSubtitles, captionStyle, brandKit, soundtrack } = videoResult;
 
     if (!scenes || scenes.length === 0) {
         return <AbsoluteFill style={{backgroundColor: 'black', justifyContent: 'center', alignItems: 'center', color: 'white', fontSize: 24}}>Animation data is missing or invalid.</AbsoluteFill>;
     }
-    
-    const DURATION_PER_SCENE = 90; // 3 seconds at 30fps
-    const TRANSITION_DURATION = 30; // 1 second
+
+    const timings = getSceneTimings(videoResult);
 
     return (
-        <AbsoluteFill style={{ backgroundColor: 'black' }}>
+        <AbsoluteFill style={{ backgroundColor: transparentBackground ? 'transparent' : 'black' }}>
+            {brandKit && brandKit.fonts.length > 0 && <BrandFonts brandKit={brandKit} />}
+            {soundtrack && <Audio src={soundtrack.src} trimBefore={Math.round((soundtrack.offset ?? 0) * FPS)} volume={soundtrack.volume ?? 1} />}
             {scenes.map((scene, index) => {
+                // With a transparent background, only the elements themselves may paint pixels.
+                const sceneBackground = applyBrandColor(!scene.imageUrl && backgroundColor ? backgroundColor : scene.backgroundColor, brandKit);
                 const finalScene = {
                     ...scene,
-                    backgroundColor: !scene.imageUrl && backgroundColor ? backgroundColor : scene.backgroundColor,
+                    backgroundColor: transparentBackground ? undefined : sceneBackground,
                 };
                 return (
                     <Sequence
                         key={index}
-                        from={index * DURATION_PER_SCENE}
-                        durationInFrames={DURATION_PER_SCENE + TRANSITION_DURATION}
+                        from={timings[index].from}
+                        durationInFrames={timings[index].durationInFrames}
                     >
                         <SceneComponent
                             scene={finalScene}
-                            isFirst={index === 0}
-                            isLast={index === scenes.length - 1}
-                            sceneDuration={DURATION_PER_SCENE}
-                            transitionDuration={TRANSITION_DURATION}
+                            transitionIn={index > 0 ? scenes[index - 1].transition ?? DEFAULT_TRANSITION : undefined}
+                            transitionInDuration={index > 0 ? timings[index - 1].transitionDuration : 0}
+                            transitionOut={index < scenes.length - 1 ? scene.transition ?? DEFAULT_TRANSITION : undefined}
+                            sceneDuration={timings[index].sceneDuration}
+                            transitionDuration={timings[index].transitionDuration}
                             index={index}
+                            brandKit={brandKit}
                         />
+                        {narrationAudio?.[index] && <Audio src={narrationAudio[index]!.src} />}
+                    </Sequence>
+                );
+            })}
+            {showSubtitles && buildCaptionCues(videoResult, 'narration').map((cue, index) => {
+                const from = Math.round(cue.start * FPS);
+                const durationInFrames = Math.max(1, Math.round(cue.end * FPS) - from);
+                return (
+                    <Sequence key={`caption-${index}`} from={from} durationInFrames={durationInFrames}>
+                        <CaptionOverlay text={cue.text} durationInFrames={durationInFrames} captionStyle={captionStyle} />
                     </Sequence>
                 );
             })}
@@ -262,9 +255,10 @@ const Animation: React.FC<AnimationProps> = ({ videoResult }) => {
 
 interface VideoPlayerProps {
     videoResult: VideoResult;
+    playerRef?: React.Ref<PlayerRef>;
 }
 
-const getDimensions = (aspectRatio: AspectRatio) => {
+export const getDimensions = (aspectRatio: AspectRatio) => {
     const baseResolution = 1280;
     const [w, h] = aspectRatio.split(':').map(Number);
     
@@ -279,20 +273,14 @@ const getDimensions = (aspectRatio: AspectRatio) => {
 };
   
 
-export const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoResult }) => {
-    const DURATION_PER_SCENE = 90;
-    const TRANSITION_DURATION = 30;
-    
-    const DURATION = videoResult.scenes && videoResult.scenes.length > 0
-        ? (videoResult.scenes.length * DURATION_PER_SCENE) + TRANSITION_DURATION
-        : DURATION_PER_SCENE;
-        
-    const FPS = 30;
+export const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoResult, playerRef }) => {
+    const DURATION = getDurationInFrames(videoResult);
     const { width, height } = getDimensions(videoResult.aspectRatio);
   
     return (
         <div className={videoResult.transparentBackground ? 'checkerboard' : ''} style={{ aspectRatio: videoResult.aspectRatio.replace(':', ' / '), width: '100%' }}>
             <Player
+                ref={playerRef}
                 component={Animation}
                 inputProps={{ videoResult }}
                 durationInFrames={DURATION}
@@ -0,0 +1,20 @@
+/**
+ * @file lib/accessToken.ts
+ * @description The token the generation gateway knows this user by. It is kept in local storage and sent as
+ * a bearer token; model API keys never reach the browser.
+ */
+
+const STORAGE_KEY = 'ai-motion-studio.accessToken';
+
+export const getAccessToken = (): string => localStorage.getItem(STORAGE_KEY) ?? '';
+
+export function setAccessToken(token: string) {
+    const trimmed = token.trim();
+    if (trimmed) localStorage.setItem(STORAGE_KEY, trimmed);
+    else localStorage.removeItem(STORAGE_KEY);
+}
+
+export function authorizationHeaders(): Record<string, string> {
+    const token = getAccessToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+}
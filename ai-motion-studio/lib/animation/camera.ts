@@ -0,0 +1,64 @@
+/**
+ * @file lib/animation/camera.ts
+ * @description The scene's 3D camera: sampling its keyframes and turning it into CSS. The lens sets the
+ * `perspective` of the view and the camera moves the world the opposite way, so elements at different
+ * depths (`z`) shift by different amounts when it pans (parallax) and blur away from the focus.
+ */
+
+import type { CameraKeyframe, CameraSettings } from '../../types';
+import { locateSegment } from './keyframes';
+
+export type Camera = Required<CameraSettings>;
+
+export const DEFAULT_CAMERA: Camera = { x: 0, y: 0, z: 0, zoom: 1, orbit: 0, tilt: 0, focalLength: 50, focus: 0, aperture: 0 };
+
+export const CAMERA_PROPERTIES = Object.keys(DEFAULT_CAMERA) as (keyof Camera)[];
+
+const SENSOR_WIDTH = 36; // mm, full frame
+// The background image is treated as far away: it moves this fraction of a pan.
+const BACKGROUND_PARALLAX = 0.2;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * The camera at a frame. Each setting is interpolated between the keyframes that set it, like a style property.
+ */
+export function sampleCamera(keyframes: CameraKeyframe[] | undefined, frame: number, duration: number, fps: number): Camera {
+    const camera = { ...DEFAULT_CAMERA };
+    const sorted = (keyframes ?? []).filter(kf => kf.camera).sort((a, b) => a.at - b.at);
+    if (sorted.length === 0) return camera;
+
+    CAMERA_PROPERTIES.forEach(prop => {
+        const keyed = sorted.filter(kf => typeof kf.camera![prop] === 'number');
+        if (keyed.length === 0) return;
+        const { from, to, progress } = locateSegment(keyed, frame, duration, fps);
+        camera[prop] = lerp(keyed[from].camera![prop]!, keyed[to].camera![prop]!, progress);
+    });
+    // Springs may overshoot; a lens can't zoom through zero or have no focal length.
+    camera.zoom = Math.max(0.01, camera.zoom);
+    camera.focalLength = Math.max(1, camera.focalLength);
+    camera.aperture = Math.max(0, camera.aperture);
+    return camera;
+}
+
+/**
+ * The CSS `perspective` distance in pixels that matches a lens on a frame `width` pixels wide.
+ */
+export const lensPerspective = (focalLength: number, width: number) => width * focalLength / SENSOR_WIDTH;
+
+/**
+ * The transform of the world under the camera. Orbit and tilt turn the world around the point in focus.
+ */
+export function cameraTransform({ x, y, z, zoom, orbit, tilt, focus }: Camera): string {
+    return `scale(${zoom}) translateZ(${z - focus}px) rotateX(${-tilt}deg) rotateY(${-orbit}deg) translateZ(${focus}px) translate(${-x}%, ${-y}%)`;
+}
+
+/**
+ * The pan of the background image, which sits behind every element.
+ */
+export const backgroundParallax = ({ x, y }: Camera) => `translate(${-x * BACKGROUND_PARALLAX}%, ${-y * BACKGROUND_PARALLAX}%)`;
+
+/**
+ * Depth-of-field blur in pixels for something at `depth`.
+ */
+export const depthBlur = ({ aperture, focus }: Camera, depth: number) => aperture * Math.abs(depth - focus) / 100;
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { interpolateCssValue } from './cssValues';
+
+describe('interpolateCssValue', () => {
+    it('fades an added shadow layer in its own color', () => {
+        expect(interpolateCssValue('textShadow', '0 0 0 #000', '0 0 0 #000, 0 0 4px white', 0.5))
+            .toBe('0 0 0 rgba(0, 0, 0, 1), 0px 0px 2px rgba(255, 255, 255, 0.5)');
+        expect(interpolateCssValue('textShadow', '2px 2px 4px red', 'none', 0.5)).toBe('1px 1px 2px rgba(255, 0, 0, 0.5)');
+    });
+
+    it('keeps a shadow without a color in the current color', () => {
+        expect(interpolateCssValue('textShadow', 'none', '2px 2px', 0.5)).toBe('1px 1px');
+    });
+
+    it('fades a drop-shadow the other filter lacks in its own color', () => {
+        expect(interpolateCssValue('filter', 'blur(2px)', 'blur(0px) drop-shadow(0 4px 8px white)', 0.5))
+            .toBe('blur(1px) drop-shadow(0px 2px 4px rgba(255, 255, 255, 0.5))');
+    });
+});
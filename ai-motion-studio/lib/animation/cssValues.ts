@@ -0,0 +1,226 @@
+/**
+ * @file lib/animation/cssValues.ts
+ * @description Interpolation for CSS values beyond plain numbers: lengths, space-separated value lists
+ * (borderRadius, transformOrigin), filter function lists and comma-separated textShadow layers.
+ * Anything that can't be matched up falls back to a discrete flip at the midpoint, like CSS does.
+ */
+
+import { interpolateColors } from 'remotion';
+
+export interface Length {
+    value: number;
+    unit: string;
+}
+
+const LENGTH_RE = /^(-?(?:\d+\.?\d*|\.\d+)(?:e-?\d+)?)([a-z%]*)$/i;
+
+export const parseLength = (token: string): Length | null => {
+    const match = token.trim().match(LENGTH_RE);
+    return match ? { value: parseFloat(match[1]), unit: match[2].toLowerCase() } : null;
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+const discrete = <T>(from: T, to: T, t: number) => (t < 0.5 ? from : to);
+
+// Keeps the generated strings short; sub-thousandth precision is invisible on screen.
+export const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Splits on a separator, ignoring separators nested inside parentheses (e.g. commas in `rgba(...)`).
+ */
+export function splitTopLevel(value: string, separator: RegExp): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of value) {
+        if (char === '(') depth++;
+        if (char === ')') depth = Math.max(0, depth - 1);
+        if (depth === 0 && separator.test(char)) {
+            if (current.trim()) parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+export function interpolateLength(from: Length, to: Length, t: number, min = -Infinity): string {
+    // Zero is the same length in every unit. Two zeros stay a plain zero: `calc()` can't add a unitless 0 to 0px.
+    if (from.value === 0 && to.value === 0) return `0${from.unit || to.unit}`;
+    const unit = from.value === 0 ? to.unit : from.unit;
+    const otherUnit = to.value === 0 ? from.unit : to.unit;
+    if (unit === otherUnit) {
+        return `${round(Math.max(min, lerp(from.value, to.value, t)))}${unit}`;
+    }
+    // Mismatched units (e.g. 30% -> 200px): let the browser resolve the mix.
+    const a = `${from.value}${from.unit}`;
+    const b = `${to.value}${to.unit}`;
+    return `calc(${a} * ${round(1 - t)} + ${b} * ${round(t)})`;
+}
+
+const isColor = (token: string) => {
+    try {
+        interpolateColors(0, [0, 1], [token, token]);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+function interpolateToken(from: string, to: string, t: number, min?: number): string {
+    const a = parseLength(from);
+    const b = parseLength(to);
+    if (a && b) return interpolateLength(a, b, t, min);
+    if (!a && !b && isColor(from) && isColor(to)) {
+        return interpolateColors(clamp01(t), [0, 1], [from, to]);
+    }
+    return discrete(from, to, t);
+}
+
+/**
+ * Space-separated lists such as `10px 20%` or `50% 0`. Lists of different lengths flip discretely.
+ */
+function interpolateValueList(from: string, to: string, t: number, min?: number): string {
+    const a = splitTopLevel(from, /\s/);
+    const b = splitTopLevel(to, /\s/);
+    if (a.length !== b.length) return discrete(from, to, t);
+    return a.map((token, i) => interpolateToken(token, b[i], t, min)).join(' ');
+}
+
+/* ------------------------------ Shadows ------------------------------ */
+
+// Moves the color to the end so `#000 2px 2px` lines up with `2px 2px 4px #000`.
+function normalizeShadow(shadow: string): { lengths: string[]; color: string | null } {
+    const lengths: string[] = [];
+    let color: string | null = null;
+    splitTopLevel(shadow, /\s/).forEach(token => {
+        if (parseLength(token)) lengths.push(token);
+        else color = token;
+    });
+    return { lengths, color };
+}
+
+const TRANSPARENT_SHADOW = '0px 0px 0px transparent';
+
+// The shadow collapsed to nothing in its own color at zero alpha. Padding with `transparent` (black at zero alpha)
+// instead would fade a light shadow in through grey.
+function hiddenShadow(shadow: string): string {
+    const { lengths, color } = normalizeShadow(shadow);
+    const hiddenColor = color && isColor(color)
+        ? interpolateColors(0, [0, 1], [color, color]).replace(/,\s*[\d.]+\)$/, ', 0)')
+        : color;
+    return [...lengths.map(() => '0px'), hiddenColor].filter(Boolean).join(' ');
+}
+
+function interpolateShadow(from: string, to: string, t: number): string {
+    const a = normalizeShadow(from);
+    const b = normalizeShadow(to);
+    // Offsets are required; the blur radius defaults to 0.
+    while (a.lengths.length < b.lengths.length) a.lengths.push('0px');
+    while (b.lengths.length < a.lengths.length) b.lengths.push('0px');
+
+    // Blur radius (third length) can't go negative when a springy easing overshoots.
+    const lengths = a.lengths.map((length, i) => interpolateToken(length, b.lengths[i], t, i === 2 ? 0 : undefined));
+    const fromColor = a.color ?? b.color;
+    const toColor = b.color ?? a.color;
+    const color = fromColor && toColor ? interpolateToken(fromColor, toColor, t) : null;
+    return [...lengths, color].filter(Boolean).join(' ');
+}
+
+/**
+ * Comma-separated shadow layers; the shorter list is padded with hidden copies of the other list's layers.
+ */
+function interpolateShadowList(from: string, to: string, t: number): string {
+    const a = from === 'none' ? [] : splitTopLevel(from, /,/);
+    const b = to === 'none' ? [] : splitTopLevel(to, /,/);
+    const count = Math.max(a.length, b.length);
+    if (count === 0) return 'none';
+    return Array.from({ length: count }, (_, i) => interpolateShadow(a[i] ?? hiddenShadow(b[i]), b[i] ?? hiddenShadow(a[i]), t)).join(', ');
+}
+
+/* ------------------------------ Filters ------------------------------ */
+
+// Values for which each filter function has no visible effect.
+const FILTER_IDENTITY: Record<string, string> = {
+    'blur': '0px',
+    'brightness': '1',
+    'contrast': '1',
+    'grayscale': '0',
+    'hue-rotate': '0deg',
+    'invert': '0',
+    'opacity': '1',
+    'saturate': '1',
+    'sepia': '0',
+    'drop-shadow': TRANSPARENT_SHADOW,
+};
+
+interface FilterFunction {
+    name: string;
+    args: string;
+}
+
+function parseFilter(filter: string): FilterFunction[] | null {
+    if (filter.trim() === 'none') return [];
+    const functions: FilterFunction[] = [];
+    for (const part of splitTopLevel(filter, /\s/)) {
+        const match = part.match(/^([a-z-]+)\((.*)\)$/i);
+        if (!match) return null; // url() references and the like can't be interpolated
+        functions.push({ name: match[1].toLowerCase(), args: match[2].trim() });
+    }
+    return functions;
+}
+
+function interpolateFilter(from: string, to: string, t: number): string {
+    const a = parseFilter(from);
+    const b = parseFilter(to);
+    if (!a || !b) return discrete(from, to, t);
+
+    // As in CSS, one list may extend the other; the missing functions start from their identity value.
+    const longer = a.length >= b.length ? a : b;
+    const shorter = longer === a ? b : a;
+    const sameOrder = shorter.every((fn, i) => fn.name === longer[i].name);
+    if (!sameOrder || longer.some(fn => !(fn.name in FILTER_IDENTITY))) return discrete(from, to, t);
+
+    const identity = (fn: FilterFunction): FilterFunction => ({
+        name: fn.name,
+        args: fn.name === 'drop-shadow' ? hiddenShadow(fn.args) : FILTER_IDENTITY[fn.name],
+    });
+    return longer.map((fn, i) => {
+        const start = a[i] ?? identity(fn);
+        const end = b[i] ?? identity(fn);
+        const args = fn.name === 'drop-shadow'
+            ? interpolateShadow(start.args, end.args, t)
+            // Only hue-rotate accepts negative values.
+            : interpolateToken(start.args, end.args, t, fn.name === 'hue-rotate' ? undefined : 0);
+        return `${fn.name}(${args})`;
+    }).join(' ') || 'none';
+}
+
+/**
+ * Interpolates a CSS property between two keyframe values at eased progress `t`.
+ */
+export function interpolateCssValue(property: string, from: string | number, to: string | number, t: number): string | number {
+    if (typeof from === 'number' && typeof to === 'number') return lerp(from, to, t);
+
+    const a = String(from).trim();
+    const b = String(to).trim();
+    if (a === b) return from;
+
+    switch (property) {
+        case 'filter':
+            return interpolateFilter(a, b, t);
+        case 'textShadow':
+            return interpolateShadowList(a, b, t);
+        case 'width':
+        case 'height':
+        case 'borderRadius':
+        case 'strokeWidth':
+            // Negative sizes are invalid and would make the whole declaration drop out.
+            return interpolateValueList(a, b, t, 0);
+        default:
+            return interpolateValueList(a, b, t);
+    }
+}
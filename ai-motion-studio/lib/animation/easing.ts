@@ -0,0 +1,131 @@
+/**
+ * @file lib/animation/easing.ts
+ * @description Resolves keyframe easings (named presets, cubic-bezier curves and springs) into progress functions.
+ */
+
+import { Easing, spring } from 'remotion';
+import type { CubicBezierEasing, EasingPreset, KeyframeEasing, SpringEasing } from '../../types';
+
+const PRESETS: Record<Exclude<EasingPreset, 'linear' | 'hold'>, [number, number, number, number]> = {
+    'ease': [0.25, 0.1, 0.25, 1],
+    'ease-in': [0.42, 0, 1, 1],
+    'ease-out': [0, 0, 0.58, 1],
+    'ease-in-out': [0.42, 0, 0.58, 1],
+    'ease-in-sine': [0.12, 0, 0.39, 0],
+    'ease-out-sine': [0.61, 1, 0.88, 1],
+    'ease-in-out-sine': [0.37, 0, 0.63, 1],
+    'ease-in-cubic': [0.32, 0, 0.67, 0],
+    'ease-out-cubic': [0.33, 1, 0.68, 1],
+    'ease-in-out-cubic': [0.65, 0, 0.35, 1],
+    'ease-in-quart': [0.5, 0, 0.75, 0],
+    'ease-out-quart': [0.25, 1, 0.5, 1],
+    'ease-in-out-quart': [0.76, 0, 0.24, 1],
+    'ease-in-expo': [0.7, 0, 0.84, 0],
+    'ease-out-expo': [0.16, 1, 0.3, 1],
+    'ease-in-out-expo': [0.87, 0, 0.13, 1],
+    'ease-in-back': [0.36, 0, 0.66, -0.56],
+    'ease-out-back': [0.34, 1.56, 0.64, 1],
+    'ease-in-out-back': [0.68, -0.6, 0.32, 1.6],
+};
+
+export const EASING_PRESETS = ['linear', 'hold', ...Object.keys(PRESETS)] as EasingPreset[];
+
+export type ResolvedEasing =
+    | { type: 'linear' }
+    | { type: 'hold' }
+    | CubicBezierEasing
+    | Required<SpringEasing>;
+
+const LINEAR: ResolvedEasing = { type: 'linear' };
+const SPRING_DEFAULTS = { mass: 1, damping: 10, stiffness: 100 };
+
+const parseArgs = (value: string) => value.split(',').map(arg => parseFloat(arg.trim()));
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Bezier x coordinates must stay within 0-1 for the curve to be a function of time; Remotion throws otherwise.
+const toBezier = (x1: unknown, y1: unknown, x2: unknown, y2: unknown): ResolvedEasing | null => {
+    const args = [x1, y1, x2, y2];
+    if (!args.every(arg => typeof arg === 'number' && Number.isFinite(arg))) return null;
+    return { type: 'cubic-bezier', x1: clamp01(x1 as number), y1: y1 as number, x2: clamp01(x2 as number), y2: y2 as number };
+};
+
+// Springs need positive parameters (Remotion throws on a zero damping); anything else takes the default.
+const springParameter = (value: unknown, fallback: number) => typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+const toSpring = (mass: unknown, damping: unknown, stiffness: unknown): ResolvedEasing => ({
+    type: 'spring',
+    mass: springParameter(mass, SPRING_DEFAULTS.mass),
+    damping: springParameter(damping, SPRING_DEFAULTS.damping),
+    stiffness: springParameter(stiffness, SPRING_DEFAULTS.stiffness),
+});
+
+/**
+ * Normalizes any accepted easing notation, in string or object form. Bezier x values are clamped into 0-1 and
+ * non-positive spring parameters take defaults; unknown or malformed easings fall back to linear.
+ */
+export function resolveEasing(easing: KeyframeEasing | undefined | null): ResolvedEasing {
+    if (!easing) return LINEAR;
+
+    if (typeof easing === 'object') {
+        if (easing.type === 'spring') return toSpring(easing.mass, easing.damping, easing.stiffness);
+        if (easing.type === 'cubic-bezier') return toBezier(easing.x1, easing.y1, easing.x2, easing.y2) ?? LINEAR;
+        return LINEAR;
+    }
+
+    const name = easing.trim().toLowerCase();
+    if (name === 'linear') return LINEAR;
+    if (name === 'hold' || name === 'step-end') return { type: 'hold' };
+    if (name in PRESETS) {
+        const [x1, y1, x2, y2] = PRESETS[name as keyof typeof PRESETS];
+        return { type: 'cubic-bezier', x1, y1, x2, y2 };
+    }
+
+    const bezier = name.match(/^cubic-bezier\(([^)]*)\)$/);
+    if (bezier) {
+        const [x1, y1, x2, y2] = parseArgs(bezier[1]);
+        const resolved = toBezier(x1, y1, x2, y2);
+        if (resolved) return resolved;
+    }
+
+    const springMatch = name.match(/^spring\(([^)]*)\)$/);
+    if (springMatch) {
+        const [mass, damping, stiffness] = parseArgs(springMatch[1]);
+        return toSpring(mass, damping, stiffness);
+    }
+
+    return LINEAR;
+}
+
+/**
+ * Maps linear segment progress (0-1) through an easing. Back curves and springs may overshoot past 1.
+ * Springs are stretched to settle exactly at the end of the segment.
+ */
+export function applyEasing(easing: ResolvedEasing, progress: number, segmentFrames: number, fps: number): number {
+    const t = Math.min(1, Math.max(0, progress));
+    switch (easing.type) {
+        case 'linear':
+            return t;
+        case 'hold':
+            return t < 1 ? 0 : 1;
+        case 'cubic-bezier':
+            return Easing.bezier(easing.x1, easing.y1, easing.x2, easing.y2)(t);
+        case 'spring':
+            return spring({
+                frame: t * segmentFrames,
+                fps,
+                config: { mass: easing.mass, damping: easing.damping, stiffness: easing.stiffness },
+                durationInFrames: Math.max(1, segmentFrames),
+            });
+    }
+}
+
+/**
+ * Writes an easing in the string notation accepted by resolveEasing, for display and editing.
+ */
+export function formatEasing(easing: KeyframeEasing | undefined | null): string {
+    if (!easing) return '';
+    if (typeof easing === 'string') return easing;
+    if (easing.type === 'cubic-bezier') return `cubic-bezier(${easing.x1}, ${easing.y1}, ${easing.x2}, ${easing.y2})`;
+    const { mass, damping, stiffness } = { ...SPRING_DEFAULTS, ...easing };
+    return `spring(${mass}, ${damping}, ${stiffness})`;
+}
@@ -0,0 +1,95 @@
+/**
+ * @file lib/animation/keyframes.ts
+ * @description Samples an element's keyframes at a frame. Each property is interpolated between the
+ * two keyframes that define it around the current frame, using the easing of the earlier keyframe.
+ * Transforms are handled by ./transform, other non-numeric values (lengths, filters, shadows) by ./cssValues.
+ */
+
+import type React from 'react';
+import { interpolateColors } from 'remotion';
+import type { AnimationKeyframe } from '../../types';
+import { interpolateCssValue } from './cssValues';
+import { applyEasing, resolveEasing } from './easing';
+import { interpolateTransform } from './transform';
+
+// A specific list of CSS properties that the AI is allowed to animate.
+// This prevents TypeScript from trying to handle the entire, massive React.CSSProperties type,
+// which was causing the "union type too complex" error.
+export const ANIMATABLE_PROPERTIES = [
+    'transform', 'transformOrigin', 'opacity', 'backgroundColor', 'width', 'height', 'borderRadius', 'color', 'filter', 'textShadow',
+    // Inherited by the SVG inside path, line, polygon and star elements.
+    'stroke', 'strokeWidth', 'strokeDashoffset', 'fill',
+] as const;
+export type AnimatableCSSProperties = typeof ANIMATABLE_PROPERTIES[number];
+
+export const COLOR_PROPERTIES = ['color', 'backgroundColor', 'stroke', 'fill'] as const;
+const isColorProperty = (property: string): property is typeof COLOR_PROPERTIES[number] => (COLOR_PROPERTIES as readonly string[]).includes(property);
+
+export interface Segment {
+    // Indices of the keyframes bracketing the frame; equal before the first and after the last keyframe.
+    from: number;
+    to: number;
+    // Eased progress from `from` to `to`; may leave 0-1 for overshooting easings.
+    progress: number;
+}
+
+export function locateSegment(keyframes: Pick<AnimationKeyframe, 'at' | 'easing'>[], frame: number, duration: number, fps: number): Segment {
+    const times = keyframes.map(kf => kf.at * duration);
+    const last = times.length - 1;
+    if (frame <= times[0]) return { from: 0, to: 0, progress: 0 };
+    if (frame >= times[last]) return { from: last, to: last, progress: 0 };
+
+    let i = 0;
+    while (i < last - 1 && frame >= times[i + 1]) i++;
+    const span = times[i + 1] - times[i];
+    const linear = span > 0 ? (frame - times[i]) / span : 1;
+    return { from: i, to: i + 1, progress: applyEasing(resolveEasing(keyframes[i].easing), linear, span, fps) };
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// `fill: none` and gradient references (`url(#id)`) aren't colors; they flip like any other unmatched value.
+const isColor = (value: unknown) => typeof value === 'string' && value !== 'none' && !value.startsWith('url(');
+
+export function sampleKeyframes(keyframes: AnimationKeyframe[] | undefined, frame: number, duration: number, fps: number): React.CSSProperties {
+    const finalStyle: React.CSSProperties = {};
+    if (!keyframes || keyframes.length < 1) return finalStyle;
+
+    const sortedKeyframes = [...keyframes].sort((a, b) => a.at - b.at);
+
+    const properties = new Set<AnimatableCSSProperties>();
+    sortedKeyframes.forEach(kf => Object.keys(kf.style).forEach(p => properties.add(p as AnimatableCSSProperties)));
+
+    properties.forEach(prop => {
+        const keyframesForProp = sortedKeyframes.filter(kf => kf.style[prop] !== undefined);
+        if (keyframesForProp.length === 0) return;
+
+        if (keyframesForProp.length === 1) {
+            Object.assign(finalStyle, { [prop]: keyframesForProp[0].style[prop] });
+            return;
+        }
+
+        const { from, to, progress } = locateSegment(keyframesForProp, frame, duration, fps);
+
+        if (prop === 'opacity') {
+            // The `React.CSSProperties` type allows opacity to be a string, so parse before interpolating.
+            const a = parseFloat(String(keyframesForProp[from].style.opacity ?? 1));
+            const b = parseFloat(String(keyframesForProp[to].style.opacity ?? 1));
+            finalStyle.opacity = Math.min(1, Math.max(0, lerp(a, b, progress)));
+        } else if (isColorProperty(prop) && from !== to && isColor(keyframesForProp[from].style[prop]) && isColor(keyframesForProp[to].style[prop])) {
+            // Colors can't overshoot, so springy easings are clamped.
+            const t = Math.min(1, Math.max(0, progress));
+            finalStyle[prop] = interpolateColors(t, [0, 1], [String(keyframesForProp[from].style[prop]), String(keyframesForProp[to].style[prop])]);
+        } else if (prop === 'transform') {
+            finalStyle.transform = interpolateTransform(keyframesForProp[from].style.transform, keyframesForProp[to].style.transform, progress);
+        } else {
+            // Lengths, filters and shadows; values that can't be matched up flip at the midpoint.
+            const value = from === to
+                ? keyframesForProp[from].style[prop]
+                : interpolateCssValue(prop, keyframesForProp[from].style[prop] as string | number, keyframesForProp[to].style[prop] as string | number, progress);
+            Object.assign(finalStyle, { [prop]: value });
+        }
+    });
+
+    return finalStyle;
+}
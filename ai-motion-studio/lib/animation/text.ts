@@ -0,0 +1,83 @@
+/**
+ * @file lib/animation/text.ts
+ * @description Kinetic typography: splitting text into characters, words or lines, and the start
+ * delay of each unit for a stagger direction. Explicit line breaks (`\n`) in the text define lines.
+ */
+
+import type { TextAnimation } from '../../types';
+
+// A line is a list of words, a word a list of characters. Spaces between words are implied.
+export type SplitText = string[][][];
+
+export function splitText(text: string): SplitText {
+    return text.split('\n').map(line => line.split(/\s+/).filter(Boolean).map(word => Array.from(word)));
+}
+
+/**
+ * How many units the text has in a split mode, and the unit index of each character.
+ */
+export function indexUnits(lines: SplitText, split: TextAnimation['split']): { count: number; unitOf: number[][][] } {
+    let chars = 0;
+    let words = 0;
+    const unitOf = lines.map((line, lineIndex) => line.map(word => {
+        const wordIndex = words++;
+        return word.map(() => {
+            const charIndex = chars++;
+            return split === 'chars' ? charIndex : split === 'words' ? wordIndex : lineIndex;
+        });
+    }));
+    return { count: split === 'chars' ? chars : split === 'words' ? words : lines.length, unitOf };
+}
+
+// Deterministic 0-1 values, so a random order is the same on every render.
+const seededRandom = (seed: string) => {
+    let h = 2166136261;
+    for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+    return () => {
+        h = Math.imul(h ^ (h >>> 15), 2246822507);
+        h = Math.imul(h ^ (h >>> 13), 3266489909);
+        return ((h ^= h >>> 16) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * The order in which each unit starts, from 0 (first) up; units in the middle of a `center` stagger share a rank.
+ */
+export function staggerOrder(count: number, direction: TextAnimation['direction'] = 'forward', seed = ''): number[] {
+    const middle = (count - 1) / 2;
+    switch (direction) {
+        case 'backward':
+            return Array.from({ length: count }, (_, i) => count - 1 - i);
+        case 'center':
+            return Array.from({ length: count }, (_, i) => Math.floor(Math.abs(i - middle)));
+        case 'edges':
+            return Array.from({ length: count }, (_, i) => Math.floor(middle - Math.abs(i - middle)));
+        case 'random': {
+            const random = seededRandom(seed);
+            const ranks = Array.from({ length: count }, (_, i) => ({ i, r: random() })).sort((a, b) => a.r - b.r);
+            const order = new Array<number>(count);
+            ranks.forEach(({ i }, rank) => { order[i] = rank; });
+            return order;
+        }
+        default:
+            return Array.from({ length: count }, (_, i) => i);
+    }
+}
+
+// Singular names of the units, for labels.
+export const TEXT_UNIT_NAMES: Record<TextAnimation['split'], string> = { chars: 'letter', words: 'word', lines: 'line' };
+
+/**
+ * A fade-up reveal: the animation the editor starts from when per-unit animation is turned on.
+ */
+export function defaultTextAnimation(split: TextAnimation['split']): TextAnimation {
+    return {
+        split,
+        stagger: split === 'chars' ? 0.02 : 0.06,
+        direction: 'forward',
+        keyframes: [
+            { at: 0, style: { opacity: 0, transform: 'translateY(30px)' }, easing: 'ease-out-cubic' },
+            { at: 0.2, style: { opacity: 1, transform: 'translateY(0px)' } },
+        ],
+    };
+}
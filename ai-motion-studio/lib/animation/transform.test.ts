@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { composeTransforms, interpolateTransform, parseTransform, serializeTransform } from './transform';
+
+describe('parseTransform', () => {
+    it('parses multi-argument functions into their primitives', () => {
+        expect(parseTransform('translate(10px, 20%) scale(2) rotate3d(1, 0, 0, 45deg)')).toEqual([
+            { name: 'translate3d', args: [{ value: 10, unit: 'px' }, { value: 20, unit: '%' }, { value: 0, unit: 'px' }] },
+            { name: 'scale3d', args: [{ value: 2, unit: '' }, { value: 2, unit: '' }, { value: 1, unit: '' }] },
+            { name: 'rotate3d', args: [{ value: 1, unit: '' }, { value: 0, unit: '' }, { value: 0, unit: '' }, { value: 45, unit: 'deg' }] },
+        ]);
+    });
+
+    it('accepts space-separated arguments and single-axis shorthands', () => {
+        expect(serializeTransform(parseTransform('translateY(-5vh) scaleX(0.5) skew(10deg 5deg)')!))
+            .toBe('translate3d(0px, -5vh, 0px) scale3d(0.5, 1, 1) skew(10deg, 5deg)');
+    });
+
+    it('converts angles to degrees', () => {
+        const [turn, rad, grad] = parseTransform('rotate(0.25turn) rotateX(3.14159265rad) rotateY(100grad)')!;
+        expect(turn.args[0]).toEqual({ value: 90, unit: 'deg' });
+        expect(rad.args[0].value).toBeCloseTo(180);
+        expect(rad.args[0].unit).toBe('deg');
+        expect(grad.args[0]).toEqual({ value: 90, unit: 'deg' });
+    });
+
+    it('reads bare numbers as px lengths and degrees', () => {
+        expect(serializeTransform(parseTransform('translateX(0) rotate(0)')!)).toBe('translate3d(0px, 0px, 0px) rotate(0deg)');
+    });
+
+    it('returns [] for none and null for anything it cannot understand', () => {
+        expect(parseTransform('none')).toEqual([]);
+        expect(parseTransform(undefined)).toEqual([]);
+        expect(parseTransform('translateX(var(--x))')).toBeNull();
+        expect(parseTransform('wobble(3px)')).toBeNull();
+        expect(parseTransform('matrix(1, 0, 0)')).toBeNull();
+    });
+});
+
+describe('interpolateTransform', () => {
+    it('matches functions by primitive, in order', () => {
+        expect(interpolateTransform('translateX(0px) rotate(0deg)', 'translate(100px, 50px) rotate(90deg)', 0.5))
+            .toBe('translate3d(50px, 25px, 0px) rotate(45deg)');
+    });
+
+    it('animates a function present on one side only from its identity', () => {
+        expect(interpolateTransform('scale(2)', 'scale(2) rotate(90deg)', 0.5)).toBe('scale3d(2, 2, 1) rotate(45deg)');
+        expect(interpolateTransform('translateY(40px)', 'none', 0.25)).toBe('translate3d(0px, 30px, 0px)');
+    });
+
+    it('mixes translate units through calc()', () => {
+        expect(interpolateTransform('translateX(50%)', 'translateX(100px)', 0.5))
+            .toBe('translate3d(calc(50% * 0.5 + 100px * 0.5), 0px, 0px)');
+    });
+
+    it('interpolates turn and rad angles in degrees', () => {
+        expect(interpolateTransform('rotate(0turn)', 'rotate(0.5turn)', 0.5)).toBe('rotate(90deg)');
+        expect(interpolateTransform('rotate(0rad)', `rotate(${Math.PI}rad)`, 0.5)).toBe('rotate(90deg)');
+    });
+
+    it('blends matrix() component-wise', () => {
+        expect(interpolateTransform('matrix(1, 0, 0, 1, 0, 0)', 'matrix(2, 0, 0, 2, 10, 20)', 0.5)).toBe('matrix(1.5, 0, 0, 1.5, 5, 10)');
+    });
+
+    it('flips at the midpoint when the functions are in a different order', () => {
+        const from = 'rotate(10deg) translateX(5px)';
+        const to = 'translateX(5px) rotate(10deg)';
+        expect(interpolateTransform(from, to, 0.49)).toBe(from);
+        expect(interpolateTransform(from, to, 0.5)).toBe(to);
+    });
+
+    it('flips at the midpoint when either side cannot be parsed', () => {
+        expect(interpolateTransform('translateX(var(--x))', 'matrix(2, 0, 0, 2, 0, 0)', 0.25)).toBe('translateX(var(--x))');
+        expect(interpolateTransform('translateX(var(--x))', 'matrix(2, 0, 0, 2, 0, 0)', 0.75)).toBe('matrix(2, 0, 0, 2, 0, 0)');
+    });
+
+    it('only animates the angle of rotate3d() about a single axis', () => {
+        expect(interpolateTransform('none', 'rotate3d(0, 1, 0, 90deg)', 0.5)).toBe('rotate3d(0, 1, 0, 45deg)');
+        expect(interpolateTransform('rotate3d(1, 0, 0, 90deg)', 'rotate3d(0, 1, 0, 90deg)', 0.25)).toBe('rotate3d(1, 0, 0, 90deg)');
+    });
+});
+
+describe('composeTransforms', () => {
+    it('joins transforms and skips empty ones', () => {
+        expect(composeTransforms('translateX(5px)', undefined, 'none', ' scale(2) ')).toBe('translateX(5px) scale(2)');
+        expect(composeTransforms(undefined, 'none')).toBeUndefined();
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * @file lib/animation/transform.ts
+ * @description Parses CSS transform lists and interpolates between them the way browsers do: functions
+ * are matched in order by their primitive (translateY and translate3d are both translations), a
+ * function missing on one side animates from its identity value, and every argument is kept.
+ */
+
+import { interpolateLength, parseLength, round, splitTopLevel, type Length } from './cssValues';
+
+type ArgKind = 'length' | 'number' | 'angle';
+
+export interface TransformFunction {
+    // Primitive name, e.g. 'translate3d' for translateX(), translate() and translate3d().
+    name: string;
+    args: Length[];
+}
+
+interface Primitive {
+    kinds: ArgKind[];
+    identity: Length[];
+}
+
+const px = (value: number): Length => ({ value, unit: 'px' });
+const num = (value: number): Length => ({ value, unit: '' });
+const deg = (value: number): Length => ({ value, unit: 'deg' });
+
+const PRIMITIVES: Record<string, Primitive> = {
+    translate3d: { kinds: ['length', 'length', 'length'], identity: [px(0), px(0), px(0)] },
+    scale3d: { kinds: ['number', 'number', 'number'], identity: [num(1), num(1), num(1)] },
+    rotate: { kinds: ['angle'], identity: [deg(0)] },
+    rotateX: { kinds: ['angle'], identity: [deg(0)] },
+    rotateY: { kinds: ['angle'], identity: [deg(0)] },
+    rotate3d: { kinds: ['number', 'number', 'number', 'angle'], identity: [num(0), num(0), num(1), deg(0)] },
+    skew: { kinds: ['angle', 'angle'], identity: [deg(0), deg(0)] },
+    perspective: { kinds: ['length'], identity: [] }, // no finite identity; see identityFor
+    matrix: { kinds: Array(6).fill('number'), identity: [1, 0, 0, 1, 0, 0].map(num) },
+    matrix3d: { kinds: Array(16).fill('number'), identity: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1].map(num) },
+};
+
+const DEGREES_PER_UNIT: Record<string, number> = { deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+
+/**
+ * Rewrites a function as its primitive with every argument present. Returns null for anything unknown.
+ */
+function toPrimitive(name: string, args: Length[]): TransformFunction | null {
+    const [a, b] = args;
+    switch (name) {
+        case 'translate': return { name: 'translate3d', args: [a, b ?? px(0), px(0)] };
+        case 'translateX': return { name: 'translate3d', args: [a, px(0), px(0)] };
+        case 'translateY': return { name: 'translate3d', args: [px(0), a, px(0)] };
+        case 'translateZ': return { name: 'translate3d', args: [px(0), px(0), a] };
+        case 'scale': return { name: 'scale3d', args: [a, b ?? a, num(1)] };
+        case 'scaleX': return { name: 'scale3d', args: [a, num(1), num(1)] };
+        case 'scaleY': return { name: 'scale3d', args: [num(1), a, num(1)] };
+        case 'scaleZ': return { name: 'scale3d', args: [num(1), num(1), a] };
+        case 'rotateZ': return { name: 'rotate', args: [a] };
+        case 'skewX': return { name: 'skew', args: [a, deg(0)] };
+        case 'skewY': return { name: 'skew', args: [deg(0), a] };
+        case 'skew': return { name: 'skew', args: [a, b ?? deg(0)] };
+        default: return name in PRIMITIVES ? { name, args } : null;
+    }
+}
+
+// Brings an argument to the unit its kind is interpolated in: degrees for angles, px for bare lengths.
+function normalizeArg(arg: Length, kind: ArgKind): Length {
+    if (kind === 'angle') {
+        const factor = DEGREES_PER_UNIT[arg.unit || 'deg'];
+        return factor ? deg(arg.value * factor) : arg;
+    }
+    if (kind === 'length' && !arg.unit) return px(arg.value);
+    return arg;
+}
+
+/**
+ * Parses a transform list into primitives. Returns [] for 'none' and null when any part can't be
+ * understood (CSS variables, typos), so callers can fall back instead of animating garbage.
+ */
+export function parseTransform(transform: string | undefined): TransformFunction[] | null {
+    const value = transform?.trim();
+    if (!value || value === 'none') return [];
+
+    const functions: TransformFunction[] = [];
+    for (const part of splitTopLevel(value, /\s/)) {
+        const match = part.match(/^([a-zA-Z0-9]+)\(([^()]*)\)$/);
+        if (!match) return null;
+        const args = splitTopLevel(match[2], /[\s,]/).map(parseLength);
+        if (args.length === 0 || args.some(arg => arg === null)) return null;
+
+        const fn = toPrimitive(match[1], args as Length[]);
+        const primitive = fn && PRIMITIVES[fn.name];
+        if (!fn || !primitive || fn.args.length !== primitive.kinds.length) return null;
+        functions.push({ name: fn.name, args: fn.args.map((arg, i) => normalizeArg(arg, primitive.kinds[i])) });
+    }
+    return functions;
+}
+
+const identityFor = (fn: TransformFunction): TransformFunction => {
+    // perspective() has no finite identity; hold the other side's value instead of animating from infinity.
+    if (fn.name === 'perspective') return fn;
+    // rotate3d() keeps its axis so only the angle animates.
+    if (fn.name === 'rotate3d') return { name: fn.name, args: [...fn.args.slice(0, 3), deg(0)] };
+    return { name: fn.name, args: PRIMITIVES[fn.name].identity };
+};
+
+/**
+ * Pairs up the two lists function by function, in order. A function present on one side only is paired
+ * with its identity. Returns null when the shared functions appear in a different order.
+ */
+function alignTransforms(from: TransformFunction[], to: TransformFunction[]): [TransformFunction, TransformFunction][] | null {
+    const pairs: [TransformFunction, TransformFunction][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < from.length || j < to.length) {
+        const a = from[i];
+        const b = to[j];
+        if (a && b && a.name === b.name) {
+            pairs.push([a, b]);
+            i++;
+            j++;
+        } else if (a && !to.slice(j).some(fn => fn.name === a.name)) {
+            pairs.push([a, identityFor(a)]);
+            i++;
+        } else if (b && !from.slice(i).some(fn => fn.name === b.name)) {
+            pairs.push([identityFor(b), b]);
+            j++;
+        } else {
+            return null;
+        }
+    }
+    return pairs;
+}
+
+const serializeFunction = (fn: TransformFunction) => `${fn.name}(${fn.args.map(arg => `${round(arg.value)}${arg.unit}`).join(', ')})`;
+
+function interpolateArg(from: Length, to: Length, kind: ArgKind, t: number): string {
+    if (kind === 'length') return interpolateLength(from, to, t);
+    return `${round(from.value + (to.value - from.value) * t)}${kind === 'angle' ? 'deg' : ''}`;
+}
+
+function interpolateFunction(from: TransformFunction, to: TransformFunction, t: number): string {
+    const { kinds } = PRIMITIVES[from.name];
+    // Rotations about different axes need quaternion interpolation; flip at the midpoint instead.
+    if (from.name === 'rotate3d' && from.args.slice(0, 3).some((arg, i) => arg.value !== to.args[i].value)) {
+        return serializeFunction(t < 0.5 ? from : to);
+    }
+    // matrix() values are blended component-wise: exact for translations and scales, an approximation for rotations.
+    return `${from.name}(${from.args.map((arg, i) => interpolateArg(arg, to.args[i], kinds[i], t)).join(', ')})`;
+}
+
+export function serializeTransform(functions: TransformFunction[]): string {
+    return functions.length > 0 ? functions.map(serializeFunction).join(' ') : 'none';
+}
+
+/**
+ * Interpolates between two transform lists at eased progress `t` (which may overshoot 0-1).
+ * Lists that can't be matched up flip at the midpoint, like CSS discrete animation.
+ */
+export function interpolateTransform(from: string | undefined, to: string | undefined, t: number): string {
+    const a = parseTransform(from);
+    const b = parseTransform(to);
+    const pairs = a && b ? alignTransforms(a, b) : null;
+    if (!pairs) return (t < 0.5 ? from : to) || 'none';
+    if (pairs.length === 0) return 'none';
+    return pairs.map(([fromFn, toFn]) => interpolateFunction(fromFn, toFn, t)).join(' ');
+}
+
+/**
+ * Applies transforms one after another (the first is outermost), skipping empty and 'none' entries.
+ */
+export function composeTransforms(...transforms: (string | undefined)[]): string | undefined {
+    const parts = transforms.map(value => value?.trim()).filter(value => value && value !== 'none');
+    return parts.length > 0 ? parts.join(' ') : undefined;
+}
@@ -0,0 +1,97 @@
+/**
+ * @file lib/animation/transitions.ts
+ * @description The transition engine: the style of the exiting and the entering scene at a point of a
+ * scene transition. Both scenes are mounted during the overlap, with the entering scene on top, so reveals
+ * (wipes, iris) only clip the entering scene while pushes (slides) move both.
+ */
+
+import type React from 'react';
+import type { SceneTransition, TransitionType } from '../../types';
+import { applyEasing, resolveEasing } from './easing';
+
+export const TRANSITION_TYPES: TransitionType[] = [
+    'fade',
+    'wipe-left', 'wipe-right', 'wipe-up', 'wipe-down',
+    'slide-left', 'slide-right', 'slide-up', 'slide-down',
+    'zoom',
+    'iris',
+    'glitch',
+    'cut',
+];
+
+// The cross-fade scenes get when they don't choose a transition; its length is TRANSITION_DURATION.
+export const DEFAULT_TRANSITION: SceneTransition = { type: 'fade' };
+
+export type TransitionRole = 'exiting' | 'entering';
+
+/**
+ * Eased progress (0-1) of a transition that starts at `start` and lasts `frames`, at a frame of the scene.
+ */
+export function transitionProgress(transition: SceneTransition, frame: number, start: number, frames: number, fps: number): number {
+    if (frames <= 0) return frame >= start ? 1 : 0;
+    const linear = Math.min(1, Math.max(0, (frame - start) / frames));
+    return applyEasing(resolveEasing(transition.easing), linear, frames, fps);
+}
+
+// Deterministic noise in 0-1, so a glitch looks the same on every render of a frame.
+const noise = (n: number) => {
+    const x = Math.sin(n * 12.9898 + 78.233) * 43758.5453;
+    return x - Math.floor(x);
+};
+
+const glitchStyle = (role: TransitionRole, progress: number): React.CSSProperties => {
+    const step = Math.floor(progress * 12) + (role === 'entering' ? 100 : 0);
+    const intensity = 1 - Math.abs(progress * 2 - 1);
+    const shift = (noise(step) - 0.5) * 10 * intensity;
+    const sliceTop = noise(step + 1) * 40 * intensity;
+    const sliceBottom = noise(step + 2) * 40 * intensity;
+    return {
+        // The entering scene flickers in, more often visible the further the transition has run.
+        opacity: role === 'entering' && progress < 0.5 ? (noise(step + 3) < progress * 2 ? 1 : 0) : undefined,
+        transform: `translateX(${shift}%)`,
+        filter: `hue-rotate(${Math.round(noise(step + 4) * 180 * intensity)}deg) saturate(${1 + 2 * intensity})`,
+        clipPath: role === 'entering' ? `inset(${sliceTop}% 0 ${sliceBottom}% 0)` : undefined,
+    };
+};
+
+/**
+ * The style of one of the two scenes at a point of a transition. The exiting scene is untouched at progress 0
+ * and the entering scene at progress 1, so styles only apply while the transition runs.
+ */
+export function transitionStyle(type: TransitionType, role: TransitionRole, progress: number): React.CSSProperties {
+    const p = Math.min(1, Math.max(0, progress));
+    if (role === 'entering' ? p >= 1 : p <= 0) return {};
+    const remaining = (1 - p) * 100;
+
+    switch (type) {
+        case 'fade':
+            return { opacity: role === 'entering' ? p : 1 - p };
+        case 'wipe-left':
+            return role === 'entering' ? { clipPath: `inset(0 0 0 ${remaining}%)` } : {};
+        case 'wipe-right':
+            return role === 'entering' ? { clipPath: `inset(0 ${remaining}% 0 0)` } : {};
+        case 'wipe-up':
+            return role === 'entering' ? { clipPath: `inset(${remaining}% 0 0 0)` } : {};
+        case 'wipe-down':
+            return role === 'entering' ? { clipPath: `inset(0 0 ${remaining}% 0)` } : {};
+        case 'slide-left':
+            return { transform: role === 'entering' ? `translateX(${remaining}%)` : `translateX(${-p * 100}%)` };
+        case 'slide-right':
+            return { transform: role === 'entering' ? `translateX(${-remaining}%)` : `translateX(${p * 100}%)` };
+        case 'slide-up':
+            return { transform: role === 'entering' ? `translateY(${remaining}%)` : `translateY(${-p * 100}%)` };
+        case 'slide-down':
+            return { transform: role === 'entering' ? `translateY(${-remaining}%)` : `translateY(${p * 100}%)` };
+        case 'zoom':
+            return role === 'entering'
+                ? { opacity: p, transform: `scale(${0.7 + 0.3 * p})` }
+                : { opacity: 1 - p, transform: `scale(${1 + 0.5 * p})` };
+        case 'iris':
+            // 75% of the reference radius reaches past the corners of any aspect ratio.
+            return role === 'entering' ? { clipPath: `circle(${p * 75}% at 50% 50%)` } : {};
+        case 'glitch':
+            return glitchStyle(role, p);
+        case 'cut':
+            return {};
+    }
+}
@@ -0,0 +1,181 @@
+/**
+ * @file lib/audio/beats.ts
+ * @description Offline music analysis on decoded mono samples: a waveform overview, an onset strength
+ * envelope (spectral flux), the tempo (autocorrelation of the envelope) and beat times (dynamic
+ * programming over the envelope, after Ellis 2007).
+ */
+
+const WINDOW_SIZE = 1024;
+const HOP_SIZE = 512;
+const MIN_TEMPO = 60;
+const MAX_TEMPO = 200;
+// Tempo estimates are weighted toward this, so a 120 BPM track isn't read as 60 or 240.
+const PREFERRED_TEMPO = 120;
+// How strictly beats keep to the tempo; higher values let them drift less toward strong onsets.
+const TIGHTNESS = 100;
+
+export interface BeatAnalysis {
+    tempo: number; // Beats per minute
+    beats: number[]; // Seconds
+}
+
+/**
+ * The peak amplitude (0-1) of each of `count` equal slices of the samples, for drawing a waveform.
+ */
+export function computePeaks(samples: Float32Array, count: number): number[] {
+    const size = samples.length / count;
+    return Array.from({ length: count }, (_, i) => {
+        let peak = 0;
+        for (let j = Math.floor(i * size), end = Math.floor((i + 1) * size); j < end; j++) {
+            const value = Math.abs(samples[j]);
+            if (value > peak) peak = value;
+        }
+        return Math.round(Math.min(1, peak) * 1000) / 1000;
+    });
+}
+
+// In-place radix-2 FFT; `re` and `im` have a power-of-two length.
+function fft(re: Float32Array, im: Float32Array) {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let len = 2; len <= n; len <<= 1) {
+        const angle = -2 * Math.PI / len;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let i = 0; i < n; i += len) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < len / 2; k++) {
+                const a = i + k;
+                const b = a + len / 2;
+                const tRe = re[b] * curRe - im[b] * curIm;
+                const tIm = re[b] * curIm + im[b] * curRe;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+                const next = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = next;
+            }
+        }
+    }
+}
+
+/**
+ * Onset strength per hop: how much the log-magnitude spectrum grew since the previous hop, normalized to unit
+ * standard deviation. Note attacks and drum hits show up as peaks.
+ */
+export function onsetEnvelope(samples: Float32Array): Float32Array {
+    const frames = Math.max(0, Math.floor((samples.length - WINDOW_SIZE) / HOP_SIZE) + 1);
+    const envelope = new Float32Array(frames);
+    const window = Float32Array.from({ length: WINDOW_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / WINDOW_SIZE));
+    const re = new Float32Array(WINDOW_SIZE);
+    const im = new Float32Array(WINDOW_SIZE);
+    let previous = new Float32Array(WINDOW_SIZE / 2);
+    let current = new Float32Array(WINDOW_SIZE / 2);
+
+    for (let f = 0; f < frames; f++) {
+        const offset = f * HOP_SIZE;
+        for (let i = 0; i < WINDOW_SIZE; i++) {
+            re[i] = samples[offset + i] * window[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+        let flux = 0;
+        for (let k = 0; k < WINDOW_SIZE / 2; k++) {
+            current[k] = Math.log1p(100 * Math.hypot(re[k], im[k]));
+            if (f > 0 && current[k] > previous[k]) flux += current[k] - previous[k];
+        }
+        envelope[f] = flux;
+        [previous, current] = [current, previous];
+    }
+
+    // Remove the local average so sustained loud passages don't read as onsets, then normalize.
+    const radius = 8;
+    const detrended = envelope.map((value, i) => {
+        let sum = 0;
+        let count = 0;
+        for (let j = Math.max(0, i - radius); j <= Math.min(frames - 1, i + radius); j++, count++) sum += envelope[j];
+        return Math.max(0, value - sum / count);
+    });
+    const mean = detrended.reduce((sum, value) => sum + value, 0) / Math.max(1, frames);
+    const std = Math.sqrt(detrended.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, frames)) || 1;
+    return detrended.map(value => value / std);
+}
+
+/**
+ * The tempo in BPM that best explains the periodicity of the onset envelope.
+ */
+export function estimateTempo(envelope: Float32Array, hopSeconds: number): number {
+    const minLag = Math.max(1, Math.floor(60 / MAX_TEMPO / hopSeconds));
+    const maxLag = Math.min(envelope.length - 1, Math.ceil(60 / MIN_TEMPO / hopSeconds));
+    if (maxLag <= minLag) return PREFERRED_TEMPO;
+
+    const scores: number[] = [];
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        let sum = 0;
+        for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+        const bpm = 60 / (lag * hopSeconds);
+        // Log-normal prior around the preferred tempo, one octave wide.
+        const weight = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_TEMPO) ** 2);
+        scores.push(sum / (envelope.length - lag) * weight);
+    }
+
+    const best = scores.indexOf(Math.max(...scores));
+    // Parabolic interpolation between neighbouring lags for a tempo finer than one hop.
+    const [a, b, c] = [scores[best - 1], scores[best], scores[best + 1]];
+    const shift = a !== undefined && c !== undefined && a - 2 * b + c !== 0 ? 0.5 * (a - c) / (a - 2 * b + c) : 0;
+    return 60 / ((minLag + best + shift) * hopSeconds);
+}
+
+/**
+ * Beat positions (in hops) at the given tempo that land on strong onsets while keeping an even pulse.
+ */
+export function trackBeats(envelope: Float32Array, period: number): number[] {
+    const n = envelope.length;
+    if (n === 0 || period <= 0) return [];
+    const score = new Float32Array(n);
+    const backlink = new Int32Array(n).fill(-1);
+
+    for (let t = 0; t < n; t++) {
+        let best = 0;
+        for (let p = Math.max(0, Math.round(t - 2 * period)); p <= t - Math.round(period / 2); p++) {
+            const penalty = TIGHTNESS * Math.log((t - p) / period) ** 2;
+            const candidate = score[p] - penalty;
+            if (backlink[t] === -1 || candidate > best) {
+                best = candidate;
+                backlink[t] = p;
+            }
+        }
+        score[t] = envelope[t] + Math.max(0, best);
+        if (best <= 0) backlink[t] = -1;
+    }
+
+    // End on the best-scoring beat within the last period, then follow the links back.
+    let last = n - 1;
+    for (let t = Math.max(0, Math.floor(n - period)); t < n; t++) if (score[t] > score[last]) last = t;
+    const beats: number[] = [];
+    for (let t = last; t >= 0; t = backlink[t]) beats.unshift(t);
+    return beats;
+}
+
+export function detectBeats(samples: Float32Array, sampleRate: number): BeatAnalysis {
+    const hopSeconds = HOP_SIZE / sampleRate;
+    const envelope = onsetEnvelope(samples);
+    const tempo = estimateTempo(envelope, hopSeconds);
+    const beats = trackBeats(envelope, 60 / tempo / hopSeconds)
+        // Hop times mark the start of each window; the onset is heard around its middle.
+        .map(frame => Math.round((frame * HOP_SIZE + WINDOW_SIZE / 2) / sampleRate * 1000) / 1000);
+    // The tracked beats average out the hop-sized steps of the autocorrelation estimate.
+    const tracked = beats.length >= 4 ? 60 * (beats.length - 1) / (beats[beats.length - 1] - beats[0]) : tempo;
+    return { tempo: Math.round(tracked * 10) / 10, beats };
+}
@@ -0,0 +1,133 @@
+/**
+ * @file lib/audio/soundtrack.ts
+ * @description Attaching music to a video: decoding and analysing an audio file, and snapping scene
+ * boundaries and keyframes to its beats. Beats are stored in track time; `offset` maps them into the video.
+ */
+
+import type { AnimationKeyframe, MusicGuidelines, Scene, Soundtrack, VideoResult } from '../../types';
+import { FPS, getSceneDuration, getSceneTimings, MIN_SCENE_DURATION } from '../timing';
+import { blobToDataUrl } from '../export/frames';
+import { computePeaks, detectBeats } from './beats';
+
+// Decoding resamples to this rate; plenty for onsets, and a quarter of the work of 44.1 kHz stereo.
+const ANALYSIS_SAMPLE_RATE = 22050;
+const PEAK_COUNT = 800;
+
+/**
+ * Decodes an audio file and analyses its waveform, tempo and beats.
+ */
+export async function loadSoundtrack(file: File): Promise<Soundtrack> {
+    const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+    let buffer: AudioBuffer;
+    try {
+        buffer = await context.decodeAudioData(await file.arrayBuffer());
+    } catch {
+        throw new Error(`"${file.name}" is not an audio file this browser can decode.`);
+    }
+
+    // Mix down to mono.
+    const samples = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const channel = buffer.getChannelData(c);
+        for (let i = 0; i < samples.length; i++) samples[i] += channel[i] / buffer.numberOfChannels;
+    }
+
+    const { tempo, beats } = detectBeats(samples, buffer.sampleRate);
+    return {
+        src: await blobToDataUrl(file),
+        name: file.name,
+        durationInSeconds: buffer.duration,
+        tempo,
+        beats,
+        peaks: computePeaks(samples, PEAK_COUNT),
+    };
+}
+
+/**
+ * Beat times in video seconds.
+ */
+export const getVideoBeats = ({ beats, offset = 0 }: Soundtrack): number[] => (
+    beats.map(beat => Math.round((beat - offset) * 1000) / 1000).filter(time => time >= 0)
+);
+
+export function toMusicGuidelines(soundtrack: Soundtrack): MusicGuidelines {
+    const [firstBeat = 0] = getVideoBeats(soundtrack);
+    return { tempo: soundtrack.tempo, firstBeat: Math.round(firstBeat * 100) / 100 };
+}
+
+const nearest = (values: number[], target: number) =>
+    values.reduce<number | undefined>((best, value) => best === undefined || Math.abs(value - target) < Math.abs(best - target) ? value : best, undefined);
+
+/**
+ * Moves every cut between scenes (and the end of the last scene) to the nearest beat, keeping scenes at least
+ * MIN_SCENE_DURATION long. Durations stay whole frames.
+ */
+export function snapScenesToBeats(videoResult: VideoResult): VideoResult {
+    if (!videoResult.soundtrack) return videoResult;
+    const beats = getVideoBeats(videoResult.soundtrack);
+    let start = 0;
+    const scenes = videoResult.scenes.map(scene => {
+        const end = start + getSceneDuration(scene);
+        const beat = nearest(beats.filter(time => time >= start + MIN_SCENE_DURATION), end);
+        const duration = Math.round(((beat ?? end) - start) * FPS) / FPS;
+        start += duration;
+        return { ...scene, duration };
+    });
+    return { ...videoResult, scenes };
+}
+
+// Keyframes at the very start or end of a scene frame it; only the ones in between move. A keyframe only moves
+// to a beat strictly between its neighbours (the earlier one as already snapped), so the order of the track is
+// kept and no two keyframes share a beat, which would make the property jump.
+const snapTrack = (keyframes: AnimationKeyframe[], beatAts: number[], maxDistance: number): AnimationKeyframe[] => {
+    const order = keyframes.map((kf, index) => ({ kf, index })).sort((a, b) => a.kf.at - b.kf.at);
+    const snapped = [...keyframes];
+    let previous = -Infinity;
+    order.forEach(({ kf, index }, i) => {
+        const next = order[i + 1]?.kf.at ?? Infinity;
+        let at = kf.at;
+        if (kf.at > 0 && kf.at < 1) {
+            const beat = nearest(beatAts.filter(time => time > previous && time < next), kf.at);
+            if (beat !== undefined && Math.abs(beat - kf.at) <= maxDistance) at = beat;
+        }
+        if (at !== kf.at) snapped[index] = { ...kf, at };
+        previous = at;
+    });
+    return snapped;
+};
+
+/**
+ * Moves keyframes to the nearest beat in their scene, when one is within half a beat.
+ * Per-unit text keyframes are left alone: each unit runs them at its own delay.
+ */
+export function snapKeyframesToBeats(videoResult: VideoResult): VideoResult {
+    if (!videoResult.soundtrack) return videoResult;
+    const beats = getVideoBeats(videoResult.soundtrack);
+    const halfBeat = 30 / videoResult.soundtrack.tempo;
+    const timings = getSceneTimings(videoResult);
+
+    const scenes = videoResult.scenes.map((scene, i): Scene => {
+        const start = timings[i].from / FPS;
+        const seconds = timings[i].sceneDuration / FPS;
+        const beatAts = beats.filter(time => time > start && time < start + seconds).map(time => (time - start) / seconds);
+        const maxDistance = halfBeat / seconds;
+        return {
+            ...scene,
+            cameraAnimation: scene.cameraAnimation && snapTrack(scene.cameraAnimation, beatAts, maxDistance),
+            animationElements: scene.animationElements.map(el => ({ ...el, keyframes: snapTrack(el.keyframes, beatAts, maxDistance) })),
+        };
+    });
+    return { ...videoResult, scenes };
+}
+
+/**
+ * Beat positions inside a scene as fractions of its duration, for drawing on and snapping to its tracks.
+ */
+export function getSceneBeatFractions(videoResult: VideoResult, sceneIndex: number): number[] {
+    if (!videoResult.soundtrack) return [];
+    const timing = getSceneTimings(videoResult)[sceneIndex];
+    if (!timing) return [];
+    const start = timing.from / FPS;
+    const seconds = timing.sceneDuration / FPS;
+    return getVideoBeats(videoResult.soundtrack).filter(time => time >= start && time <= start + seconds).map(time => (time - start) / seconds);
+}
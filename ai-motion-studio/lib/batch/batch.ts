@@ -0,0 +1,152 @@
+/**
+ * @file lib/batch/batch.ts
+ * @description Batch rendering: one video per dataset row, with the row's values filled into the video's
+ * placeholders. Rows render one at a time (each export already keeps the machine busy) and a failed row is
+ * reported without stopping the rest. Finished files are streamed into a zip as they complete.
+ */
+
+import { Zip, ZipPassThrough } from 'fflate';
+import type { TemplateVariable, VideoResult, VideoTemplate } from '../../types';
+import { createTemplate, fillTemplate } from '../template/template';
+import { exportComposition, FILE_EXTENSIONS, isAbortError, type ExportFormat, type ExportSettings } from '../export';
+import type { Dataset } from './dataset';
+
+export type BatchRowStatus = 'pending' | 'rendering' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchRowState {
+    status: BatchRowStatus;
+    progress: number; // 0-1
+    filename: string;
+    message?: string; // Current export step, or why the row failed
+}
+
+export interface BatchOptions extends Pick<ExportSettings, 'fps' | 'scale' | 'signal'> {
+    format: ExportFormat;
+    nameColumn?: string; // Column that names each output file; row numbers otherwise
+    onRowUpdate?: (index: number, state: BatchRowState) => void;
+}
+
+export interface BatchResult {
+    zip: Blob;
+    rows: BatchRowState[];
+}
+
+/**
+ * The video as a template: text elements become variables named after their id, alongside any {{name}}
+ * placeholders already in the video, so dataset columns can target either. The colors become variables too:
+ * `textColor`, `backgroundColor` (the video's background override) and `sceneN_backgroundColor` for each scene
+ * that sets one. Left empty, a background variable drops its field, so the video renders as if it had none.
+ */
+export function toBatchTemplate(videoResult: VideoResult): VideoTemplate {
+    const template = createTemplate(videoResult, 'Batch');
+    const taken = new Set(template.variables.map(variable => variable.name));
+    const colors: TemplateVariable[] = [];
+    // A color that's already a placeholder, or whose name a text element took, stays as it is.
+    const colorVariable = (name: string, value: string | undefined) => {
+        if (value?.includes('{{') || taken.has(name)) return value;
+        taken.add(name);
+        colors.push({ name, type: 'color', defaultValue: value || undefined });
+        return `{{${name}}}`;
+    };
+
+    const video = template.videoResult;
+    const templated: VideoResult = {
+        ...video,
+        textColor: colorVariable('textColor', video.textColor)!,
+        backgroundColor: colorVariable('backgroundColor', video.backgroundColor),
+        scenes: video.scenes.map((scene, i) => scene.backgroundColor
+            ? { ...scene, backgroundColor: colorVariable(`scene${i + 1}_backgroundColor`, scene.backgroundColor) }
+            : scene),
+    };
+    return { ...template, variables: [...template.variables, ...colors], videoResult: templated };
+}
+
+/**
+ * Variables no column fills (they keep their default) and columns no variable uses.
+ */
+export function matchColumns(variables: TemplateVariable[], columns: string[]) {
+    return {
+        unfilled: variables.filter(variable => !columns.includes(variable.name)).map(variable => variable.name),
+        unused: columns.filter(column => !variables.some(variable => variable.name === column)),
+    };
+}
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+
+/**
+ * Output file names, unique within the batch.
+ */
+export function rowFilenames(dataset: Dataset, format: ExportFormat, nameColumn?: string): string[] {
+    const width = String(dataset.rows.length).length;
+    const taken = new Set<string>();
+    return dataset.rows.map((row, i) => {
+        const number = String(i + 1).padStart(width, '0');
+        const base = (nameColumn && slug(row[nameColumn] ?? '')) || `video-${number}`;
+        let name = base;
+        for (let n = 2; taken.has(name); n++) name = `${base}-${n}`;
+        taken.add(name);
+        return `${name}.${FILE_EXTENSIONS[format]}`;
+    });
+}
+
+const failureReport = (dataset: Dataset, rows: BatchRowState[]) => {
+    const failed = rows.map((row, i) => ({ row, i })).filter(({ row }) => row.status === 'failed');
+    if (failed.length === 0) return null;
+    return JSON.stringify(failed.map(({ row, i }) => ({ row: i + 1, file: row.filename, error: row.message, values: dataset.rows[i] })), null, 2);
+};
+
+/**
+ * Renders every row and zips the results, with a `failures.json` listing rows that failed. Cancelling abandons
+ * the current row and skips the rest; the zip still holds the rows that finished.
+ */
+export async function renderBatch(videoResult: VideoResult, dataset: Dataset, { format, fps, scale, nameColumn, signal, onRowUpdate }: BatchOptions): Promise<BatchResult> {
+    const template = toBatchTemplate(videoResult);
+    const filenames = rowFilenames(dataset, format, nameColumn);
+    const rows: BatchRowState[] = filenames.map(filename => ({ status: 'pending', progress: 0, filename }));
+    const update = (index: number, state: Partial<BatchRowState>) => {
+        rows[index] = { ...rows[index], ...state };
+        onRowUpdate?.(index, rows[index]);
+    };
+
+    const chunks: Uint8Array[] = [];
+    const zip = new Zip((err, chunk) => {
+        if (err) throw err;
+        chunks.push(chunk);
+    });
+    // Rendered files are already compressed, so they're stored as they are.
+    const addFile = (name: string, data: Uint8Array) => {
+        const file = new ZipPassThrough(name);
+        zip.add(file);
+        file.push(data, true);
+    };
+
+    for (let i = 0; i < dataset.rows.length; i++) {
+        if (signal?.aborted) {
+            update(i, { status: 'cancelled' });
+            continue;
+        }
+        update(i, { status: 'rendering', message: 'Starting...' });
+        try {
+            const blob = await exportComposition(fillTemplate(template, dataset.rows[i]), format, {
+                fps,
+                scale,
+                signal,
+                onProgress: ({ frame, totalFrames, message }) => update(i, { progress: totalFrames > 0 ? frame / totalFrames : 0, message }),
+            });
+            addFile(filenames[i], new Uint8Array(await blob.arrayBuffer()));
+            update(i, { status: 'done', progress: 1, message: undefined });
+        } catch (e) {
+            if (isAbortError(e)) {
+                update(i, { status: 'cancelled', message: undefined });
+            } else {
+                console.error(`Batch row ${i + 1} failed:`, e);
+                update(i, { status: 'failed', message: (e as Error).message || 'Export failed.' });
+            }
+        }
+    }
+
+    const report = failureReport(dataset, rows);
+    if (report) addFile('failures.json', new TextEncoder().encode(report));
+    zip.end();
+    return { zip: new Blob(chunks, { type: 'application/zip' }), rows };
+}
@@ -0,0 +1,116 @@
+/**
+ * @file lib/batch/dataset.ts
+ * @description Reading the rows of a batch render from CSV or JSON. Every value is read as a string, the
+ * way it will be substituted into the video.
+ */
+
+export interface Dataset {
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+export class DatasetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DatasetError';
+    }
+}
+
+/**
+ * Splits CSV text into records (RFC 4180: quoted fields may hold commas, newlines and doubled quotes).
+ */
+function parseCsvRecords(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) throw new DatasetError('The CSV file ends inside a quoted field.');
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    // Blank lines aren't rows.
+    return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+export function parseCsv(text: string): Dataset {
+    const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+    if (!header) throw new DatasetError('The CSV file is empty.');
+    const columns = header.map(column => column.trim());
+    if (columns.some(column => !column)) throw new DatasetError('Every CSV column needs a name in the first row.');
+    const duplicate = columns.find((column, i) => columns.indexOf(column) !== i);
+    if (duplicate) throw new DatasetError(`The CSV file has more than one "${duplicate}" column.`);
+
+    const rows = records.map((record, i) => {
+        if (record.length > columns.length) {
+            throw new DatasetError(`Row ${i + 2} has ${record.length} values but there are only ${columns.length} columns.`);
+        }
+        return Object.fromEntries(columns.map((column, c) => [column, record[c] ?? '']));
+    });
+    return { columns, rows };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringify = (value: unknown) => value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Reads an array of objects, or an object with such an array in `rows`.
+ */
+export function parseJsonDataset(text: string): Dataset {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new DatasetError('The JSON file is not valid JSON.');
+    }
+    const records: unknown = Array.isArray(data) ? data : isObject(data) ? data.rows : undefined;
+    if (!Array.isArray(records) || !records.every(isObject)) {
+        throw new DatasetError('The JSON file must hold an array of objects, one per video.');
+    }
+
+    const columns: string[] = [];
+    records.forEach(record => Object.keys(record).forEach(key => {
+        if (!columns.includes(key)) columns.push(key);
+    }));
+    const rows = records.map(record => Object.fromEntries(columns.map(column => [column, stringify(record[column])])));
+    return { columns, rows };
+}
+
+/**
+ * Parses a dataset file by its extension, or by its content when the extension is neither .csv nor .json.
+ */
+export function parseDataset(text: string, filename: string): Dataset {
+    const extension = filename.toLowerCase().split('.').pop();
+    const isJson = extension === 'json' || (extension !== 'csv' && /^\s*[[{]/.test(text));
+    const dataset = isJson ? parseJsonDataset(text) : parseCsv(text);
+    if (dataset.rows.length === 0) throw new DatasetError('The dataset has no rows.');
+    return dataset;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { applyBrandColor, createBrandKit, snapToPalette, textFontSize } from './kit';
+
+const palette = ['#E11D48', '#0EA5E9', '#F8FAFC'];
+
+describe('snapToPalette', () => {
+    it('snaps hex and rgb() colors to the nearest palette color', () => {
+        expect(snapToPalette('#ff0000', palette)).toBe('#E11D48');
+        expect(snapToPalette('rgb(0 160 255)', palette)).toBe('#0EA5E9');
+        expect(snapToPalette('rgb(90%, 90%, 90%)', palette)).toBe('#F8FAFC');
+    });
+
+    it('snaps hsl() and named colors', () => {
+        expect(snapToPalette('hsl(0,100%,50%)', palette)).toBe('#E11D48');
+        expect(snapToPalette('hsl(200deg 90% 50%)', palette)).toBe('#0EA5E9');
+        expect(snapToPalette('red', palette)).toBe('#E11D48');
+        expect(snapToPalette('White', palette)).toBe('#F8FAFC');
+    });
+
+    it('keeps the alpha of translucent colors', () => {
+        expect(snapToPalette('hsla(0, 100%, 50%, 0.5)', palette)).toBe('rgba(225, 29, 72, 0.5)');
+        expect(snapToPalette('#ff000080', palette)).toMatch(/^rgba\(225, 29, 72, 0\.50\d*\)$/);
+    });
+
+    it('leaves values that are not plain colors alone', () => {
+        for (const value of ['transparent', 'currentColor', 'linear-gradient(red, blue)', 'wobble', '']) {
+            expect(snapToPalette(value, palette)).toBe(value);
+        }
+        expect(snapToPalette('red', [])).toBe('red');
+    });
+});
+
+describe('brand kit rendering', () => {
+    const kit = { ...createBrandKit('Acme'), palette: palette.map((value, i) => ({ name: `color ${i}`, value })) };
+
+    it('snaps background colors, and leaves them alone without a palette', () => {
+        expect(applyBrandColor('#101010', kit)).toBe('#E11D48');
+        expect(applyBrandColor(undefined, kit)).toBeUndefined();
+        expect(applyBrandColor('#101010', createBrandKit('Empty'))).toBe('#101010');
+    });
+
+    it('scales the default text size', () => {
+        expect(textFontSize(undefined)).toBe('clamp(1rem, 5vw, 3.5rem)');
+        expect(textFontSize({ ...kit, fontScale: 1.5 })).toBe('clamp(1.5rem, 7.5vw, 5.25rem)');
+        expect(textFontSize({ ...kit, fontScale: 0 })).toBe('clamp(1rem, 5vw, 3.5rem)');
+    });
+});
@@ -0,0 +1,148 @@
+/**
+ * @file lib/brand/kit.ts
+ * @description Brand kits: creating them, what the model is told about them, and how they are enforced
+ * when rendering (registered fonts, colors snapped to the palette).
+ */
+
+import type { AnimationKeyframe, BrandFont, BrandGuidelines, BrandKit, Gradient } from '../../types';
+import { interpolateColors } from 'remotion';
+import { COLOR_PROPERTIES } from '../animation/keyframes';
+
+export function createBrandKit(name: string): BrandKit {
+    return {
+        id: crypto.randomUUID(),
+        name,
+        palette: [],
+        fonts: [],
+        logos: [],
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+export const toBrandGuidelines = (kit: BrandKit): BrandGuidelines => ({
+    name: kit.name,
+    palette: kit.palette,
+    fontFamily: kit.fontFamily,
+    logos: kit.logos.map(logo => logo.name),
+});
+
+const cssString = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+export const fontFamilyStack = (family: string) => `${cssString(family)}, Inter, sans-serif`;
+
+// The default size of text elements, scaled by the kit's `fontScale`.
+export const textFontSize = (kit: BrandKit | undefined) => {
+    const scale = kit?.fontScale && kit.fontScale > 0 ? kit.fontScale : 1;
+    const size = (value: number, unit: string) => `${Math.round(value * scale * 100) / 100}${unit}`;
+    return `clamp(${size(1, 'rem')}, ${size(5, 'vw')}, ${size(3.5, 'rem')})`;
+};
+
+export const fontFaceCss = (fonts: BrandFont[]) => fonts.map(font => [
+    '@font-face {',
+    `font-family: ${cssString(font.family)};`,
+    `src: url(${cssString(font.src)});`,
+    `font-weight: ${font.weight ?? 'normal'};`,
+    `font-style: ${font.style ?? 'normal'};`,
+    'font-display: block;',
+    '}',
+].join(' ')).join('\n');
+
+type Rgba = [number, number, number, number];
+
+// Degrees from an `hsl()` hue: unitless, deg, grad, rad or turn.
+const parseHue = (part: string) => {
+    const value = parseFloat(part);
+    if (part.endsWith('turn')) return value * 360;
+    if (part.endsWith('grad')) return value * 0.9;
+    if (part.endsWith('rad')) return value * 180 / Math.PI;
+    return value;
+};
+
+const hslToRgb = (hue: number, saturation: number, lightness: number): [number, number, number] => {
+    const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+    const channel = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        return (lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+    };
+    return [channel(0), channel(8), channel(4)];
+};
+
+const parseColor = (value: string): Rgba | null => {
+    const color = value.trim().toLowerCase();
+    const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+    if (hex) {
+        const digits = hex[1].length <= 4 ? hex[1].replace(/./g, '$&$&') : hex[1];
+        const [r, g, b, a = 255] = digits.match(/../g)!.map(pair => parseInt(pair, 16));
+        return [r, g, b, a / 255];
+    }
+    const channel = (part: string, scale: number) => part.endsWith('%') ? (parseFloat(part) / 100) * scale : parseFloat(part);
+    const fn = color.match(/^(rgba?|hsla?)\(([^)]+)\)$/);
+    if (fn) {
+        const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+        if (parts.length < 3) return null;
+        const a = parts[3] === undefined ? 1 : channel(parts[3], 1);
+        const [r, g, b] = fn[1].startsWith('rgb')
+            ? parts.slice(0, 3).map(part => channel(part, 255))
+            : hslToRgb(((parseHue(parts[0]) % 360) + 360) % 360, channel(parts[1], 1), channel(parts[2], 1));
+        return [r, g, b, a].every(Number.isFinite) ? [r, g, b, a] : null;
+    }
+    if (/^[a-z]+$/.test(color) && color !== 'currentcolor') {
+        // Named colors, from Remotion's table.
+        try {
+            const [r, g, b, a] = interpolateColors(0, [0, 1], [color, color]).match(/[\d.]+/g)!.map(Number);
+            return [r, g, b, a];
+        } catch {
+            return null;
+        }
+    }
+    return null;
+};
+
+/**
+ * The palette color closest to `value`, keeping its alpha. Values that aren't plain colors
+ * (gradients, `transparent`, `currentColor`) are returned unchanged.
+ */
+export function snapToPalette(value: string, palette: string[]): string {
+    const color = parseColor(value);
+    if (!color || color[3] === 0 || palette.length === 0) return value;
+
+    let nearest = value;
+    let nearestDistance = Infinity;
+    palette.forEach(candidate => {
+        const rgb = parseColor(candidate);
+        if (!rgb) return;
+        const distance = (rgb[0] - color[0]) ** 2 + (rgb[1] - color[1]) ** 2 + (rgb[2] - color[2]) ** 2;
+        if (distance < nearestDistance) {
+            nearest = color[3] < 1 ? `rgba(${rgb[0]}, ${rgb[1]}, ${rgb[2]}, ${color[3]})` : candidate;
+            nearestDistance = distance;
+        }
+    });
+    return nearest;
+}
+
+/**
+ * Keyframes with every color snapped to the kit's palette, so off-brand colors from the model never reach the screen.
+ */
+export function applyBrandPalette(keyframes: AnimationKeyframe[], kit: BrandKit | undefined): AnimationKeyframe[] {
+    const palette = kit?.palette.map(color => color.value) ?? [];
+    if (palette.length === 0) return keyframes;
+    return keyframes.map(kf => {
+        const style = { ...kf.style };
+        COLOR_PROPERTIES.forEach(property => {
+            const value = style[property];
+            if (typeof value === 'string') style[property] = snapToPalette(value, palette);
+        });
+        return { ...kf, style };
+    });
+}
+
+export function applyBrandColor(value: string | undefined, kit: BrandKit | undefined): string | undefined {
+    const palette = kit?.palette.map(color => color.value) ?? [];
+    return value && palette.length > 0 ? snapToPalette(value, palette) : value;
+}
+
+export function applyBrandGradient(gradient: Gradient | undefined, kit: BrandKit | undefined): Gradient | undefined {
+    const palette = kit?.palette.map(color => color.value) ?? [];
+    if (!gradient || palette.length === 0) return gradient;
+    return { ...gradient, stops: gradient.stops.map(stop => ({ ...stop, color: snapToPalette(stop.color, palette) })) };
+}
@@ -0,0 +1,19 @@
+/**
+ * @file lib/brand/library.ts
+ * @description Brand kits saved in IndexedDB, shared by every project in this browser.
+ */
+
+import type { BrandKit } from '../../types';
+import { deleteRecord, getAllRecords, putRecord } from '../db';
+
+export const saveBrandKit = (kit: BrandKit) => putRecord<BrandKit>('brandKits', { ...kit, updatedAt: new Date().toISOString() });
+
+/**
+ * Every saved kit, alphabetically.
+ */
+export async function listBrandKits(): Promise<BrandKit[]> {
+    const kits = await getAllRecords<BrandKit>('brandKits');
+    return kits.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const deleteBrandKit = (id: string) => deleteRecord('brandKits', id);
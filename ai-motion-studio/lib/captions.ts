@@ -0,0 +1,93 @@
+/**
+ * @file lib/captions.ts
+ * @description Caption cues derived from the scene timing, and their SRT / WebVTT serializations.
+ * Cues come either from the narration lines (one per scene) or from the on-screen text elements,
+ * timed by when their keyframes make them visible.
+ */
+
+import type { AnimationElement, VideoResult } from '../types';
+import { FPS, getSceneTimings } from './timing';
+
+export type CaptionSource = 'narration' | 'text';
+
+export interface CaptionCue {
+    start: number; // seconds
+    end: number; // seconds
+    text: string;
+}
+
+// Below this opacity a text element counts as hidden.
+const VISIBLE_OPACITY = 0.05;
+
+/**
+ * The fraction of the scene (0-1) during which an element is visible, following opacity across its keyframes.
+ */
+function getVisibleSpan(element: AnimationElement): [number, number] | null {
+    const keyframes = [...(element.keyframes ?? [])].sort((a, b) => a.at - b.at);
+    if (keyframes.length === 0) return [0, 1];
+
+    let opacity = 1;
+    let first: number | null = null;
+    let end: number | null = null;
+    keyframes.forEach(kf => {
+        if (kf.style?.opacity !== undefined) opacity = parseFloat(String(kf.style.opacity));
+        if (opacity > VISIBLE_OPACITY) {
+            if (first === null) first = kf.at;
+            end = null;
+        } else if (first !== null && end === null) {
+            end = kf.at;
+        }
+    });
+    if (first === null) return null;
+    // Still visible after the final keyframe: hold until the scene ends.
+    return [first, end ?? 1];
+}
+
+export function buildCaptionCues(videoResult: VideoResult, source: CaptionSource): CaptionCue[] {
+    const timings = getSceneTimings(videoResult);
+    const cues: CaptionCue[] = [];
+
+    timings.forEach((timing, index) => {
+        const start = timing.from / FPS;
+        const isLast = index === timings.length - 1;
+        // Each cue holds until the next scene starts; the last one runs to the end of the video.
+        const end = (timing.from + (isLast ? timing.durationInFrames : timing.sceneDuration)) / FPS;
+
+        if (source === 'narration') {
+            const line = videoResult.narration?.[index]?.trim();
+            if (line) cues.push({ start, end, text: line });
+            return;
+        }
+
+        const sceneSeconds = timing.sceneDuration / FPS;
+        videoResult.scenes[index].animationElements
+            .filter(el => el.type === 'text' && el.text?.trim())
+            .forEach(el => {
+                const span = getVisibleSpan(el);
+                if (!span) return;
+                cues.push({
+                    start: start + span[0] * sceneSeconds,
+                    end: Math.min(end, start + span[1] * sceneSeconds),
+                    text: el.text!.trim(),
+                });
+            });
+    });
+
+    return cues.filter(cue => cue.end > cue.start).sort((a, b) => a.start - b.start);
+}
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+    const ms = Math.round(seconds * 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export function toSrt(cues: CaptionCue[]): string {
+    return cues.map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`).join('\n');
+}
+
+export function toWebVtt(cues: CaptionCue[]): string {
+    // "-->" can't appear inside a WebVTT cue payload.
+    const body = cues.map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text.replace(/-->/g, '->')}\n`).join('\n');
+    return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,60 @@
+/**
+ * @file lib/db.ts
+ * @description Promise wrappers around the app's IndexedDB database. Every object store is declared
+ * here; adding one means listing it in STORES and bumping DB_VERSION so the upgrade creates it.
+ */
+
+const DB_NAME = 'ai-motion-studio';
+const DB_VERSION = 3;
+
+export const STORES = {
+    projects: { keyPath: 'id' },
+    brandKits: { keyPath: 'id' },
+    templates: { keyPath: 'id' },
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('This browser does not support local storage (IndexedDB).'));
+    }
+    if (!dbPromise) {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            (Object.keys(STORES) as StoreName[]).forEach(name => {
+                if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, STORES[name]);
+            });
+        };
+        dbPromise = promisify(request).catch(error => {
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+}
+
+async function withStore<T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return promisify(run(db.transaction(name, mode).objectStore(name)));
+}
+
+export const getRecord = <T>(store: StoreName, key: IDBValidKey) =>
+    withStore<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const getAllRecords = <T>(store: StoreName) =>
+    withStore<T[]>(store, 'readonly', s => s.getAll());
+
+export const putRecord = <T>(store: StoreName, value: T) =>
+    withStore(store, 'readwrite', s => s.put(value)).then(() => undefined);
+
+export const deleteRecord = (store: StoreName, key: IDBValidKey) =>
+    withStore(store, 'readwrite', s => s.delete(key)).then(() => undefined);
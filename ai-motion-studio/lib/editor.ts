@@ -0,0 +1,163 @@
+/**
+ * @file lib/editor.ts
+ * @description Immutable edits to a VideoResult for the timeline editor. A track is an element's
+ * keyframes, a text element's per-unit keyframes (`units`) or, with a null element id, the scene's camera animation.
+ */
+
+import type { AnimationElement, AnimationKeyframe, CameraKeyframe, CameraSettings, Scene, ShapeType, VideoResult } from '../types';
+
+export interface KeyframeSelection {
+    sceneIndex: number;
+    elementId: string | null; // null selects the camera track
+    keyframeIndex: number;
+    units?: boolean; // The element's per-unit text animation keyframes
+}
+
+export const getTrackKeyframes = (scene: Scene, elementId: string | null, units = false): AnimationKeyframe[] => {
+    if (elementId === null) return scene.cameraAnimation ?? [];
+    const element = scene.animationElements.find(el => el.id === elementId);
+    return (units ? element?.textAnimation?.keyframes : element?.keyframes) ?? [];
+};
+
+const updateScene = (videoResult: VideoResult, sceneIndex: number, update: (scene: Scene) => Scene): VideoResult => ({
+    ...videoResult,
+    scenes: videoResult.scenes.map((scene, i) => i === sceneIndex ? update(scene) : scene),
+});
+
+export const updateElement = (videoResult: VideoResult, sceneIndex: number, elementId: string, patch: Partial<AnimationElement>): VideoResult =>
+    updateScene(videoResult, sceneIndex, scene => ({
+        ...scene,
+        animationElements: scene.animationElements.map(el => el.id === elementId ? { ...el, ...patch } : el),
+    }));
+
+export const updateTrack = (
+    videoResult: VideoResult,
+    sceneIndex: number,
+    elementId: string | null,
+    update: (keyframes: AnimationKeyframe[]) => AnimationKeyframe[],
+    units = false,
+): VideoResult => {
+    if (elementId === null) {
+        return updateScene(videoResult, sceneIndex, scene => ({ ...scene, cameraAnimation: update(scene.cameraAnimation ?? []) }));
+    }
+    const element = videoResult.scenes[sceneIndex]?.animationElements.find(el => el.id === elementId);
+    if (!element) return videoResult;
+    if (units) {
+        return element.textAnimation
+            ? updateElement(videoResult, sceneIndex, elementId, { textAnimation: { ...element.textAnimation, keyframes: update(element.textAnimation.keyframes) } })
+            : videoResult;
+    }
+    return updateElement(videoResult, sceneIndex, elementId, { keyframes: update(element.keyframes) });
+};
+
+export const updateKeyframe = (videoResult: VideoResult, { sceneIndex, elementId, keyframeIndex, units }: KeyframeSelection, patch: Partial<AnimationKeyframe>): VideoResult =>
+    updateTrack(videoResult, sceneIndex, elementId, keyframes => keyframes.map((kf, i) => i === keyframeIndex ? { ...kf, ...patch } : kf), units);
+
+/**
+ * Sets one style property on a keyframe; an empty value removes it so the property is no longer keyed there.
+ */
+export const setKeyframeStyle = (videoResult: VideoResult, selection: KeyframeSelection, property: string, value: string | number | undefined): VideoResult => {
+    const keyframe = getTrackKeyframes(videoResult.scenes[selection.sceneIndex], selection.elementId, selection.units)[selection.keyframeIndex];
+    if (!keyframe) return videoResult;
+    const style: Record<string, unknown> = { ...keyframe.style };
+    if (value === undefined || value === '') delete style[property];
+    else style[property] = value;
+    return updateKeyframe(videoResult, selection, { style: style as AnimationKeyframe['style'] });
+};
+
+/**
+ * Sets one 3D camera setting on a camera keyframe; undefined removes it so the setting is no longer keyed there.
+ */
+export const setKeyframeCamera = (videoResult: VideoResult, selection: KeyframeSelection, property: keyof CameraSettings, value: number | undefined): VideoResult => {
+    const keyframe: CameraKeyframe | undefined = videoResult.scenes[selection.sceneIndex]?.cameraAnimation?.[selection.keyframeIndex];
+    if (!keyframe || selection.elementId !== null) return videoResult;
+    const camera: CameraSettings = { ...keyframe.camera };
+    if (value === undefined) delete camera[property];
+    else camera[property] = value;
+    return updateKeyframe(videoResult, selection, { camera: Object.keys(camera).length > 0 ? camera : undefined } as Partial<CameraKeyframe>);
+};
+
+/**
+ * Adds a keyframe at `at`, copying the style (and camera) of the nearest existing keyframe so the motion doesn't jump.
+ * Returns the index of the new keyframe.
+ */
+export const addKeyframe = (videoResult: VideoResult, sceneIndex: number, elementId: string | null, at: number, units = false): { videoResult: VideoResult; keyframeIndex: number } => {
+    const keyframes = getTrackKeyframes(videoResult.scenes[sceneIndex], elementId, units);
+    const nearest = keyframes.reduce<AnimationKeyframe | null>((best, kf) => !best || Math.abs(kf.at - at) < Math.abs(best.at - at) ? kf : best, null);
+    const keyframe: CameraKeyframe = { ...nearest, at, style: { ...nearest?.style } };
+    return {
+        videoResult: updateTrack(videoResult, sceneIndex, elementId, kfs => [...kfs, keyframe], units),
+        keyframeIndex: keyframes.length,
+    };
+};
+
+export const removeKeyframe = (videoResult: VideoResult, { sceneIndex, elementId, keyframeIndex, units }: KeyframeSelection): VideoResult =>
+    updateTrack(videoResult, sceneIndex, elementId, keyframes => keyframes.filter((_, i) => i !== keyframeIndex), units);
+
+const createElementId = (scene: Scene, prefix: string) => {
+    const ids = new Set(scene.animationElements.map(el => el.id));
+    let n = 1;
+    while (ids.has(`${prefix}-${n}`)) n++;
+    return `${prefix}-${n}`;
+};
+
+export type NewElementKind = 'text' | 'logo' | 'image' | 'path' | 'line' | ShapeType;
+
+// A fade-and-scale entrance shared by the element kinds without a more specific one.
+const popIn = (style: AnimationKeyframe['style']): AnimationKeyframe[] => [
+    { at: 0, style: { ...style, opacity: 0, transform: 'scale(0.5)' }, easing: 'ease-out-back' },
+    { at: 0.3, style: { opacity: 1, transform: 'scale(1)' } },
+];
+
+// Paths and lines draw themselves on.
+const drawOn = (style: AnimationKeyframe['style']): AnimationKeyframe[] => [
+    { at: 0, style: { ...style, strokeDashoffset: 1 }, easing: 'ease-in-out-cubic' },
+    { at: 0.5, style: { strokeDashoffset: 0 } },
+];
+
+const newElement = (videoResult: VideoResult, kind: NewElementKind, id: string): AnimationElement => {
+    switch (kind) {
+        case 'text':
+            return {
+                id,
+                type: 'text',
+                text: 'New text',
+                keyframes: [
+                    { at: 0, style: { opacity: 0, transform: 'translateY(20px)', color: videoResult.textColor }, easing: 'ease-out-cubic' },
+                    { at: 0.3, style: { opacity: 1, transform: 'translateY(0px)' } },
+                ],
+            };
+        case 'logo':
+            return { id, type: 'logo', logo: videoResult.brandKit?.logos[0]?.name, keyframes: popIn({ width: '15vw', height: '15vw' }) };
+        case 'image':
+            return { id, type: 'image', keyframes: popIn({ width: '30vw', height: '20vw', borderRadius: '12px' }) };
+        case 'path':
+            return { id, type: 'path', path: 'M 5 50 C 25 5, 45 5, 50 50 S 75 95, 95 50', keyframes: drawOn({ width: '30vw', height: '20vw', stroke: '#6366f1', strokeWidth: 6 }) };
+        case 'line':
+            return { id, type: 'line', arrow: 'end', keyframes: drawOn({ width: '30vw', stroke: videoResult.textColor, strokeWidth: 4 }) };
+        default:
+            return { id, type: 'shape', shape: kind, keyframes: popIn({ width: '20vw', height: '20vw', backgroundColor: '#6366f1' }) };
+    }
+};
+
+/**
+ * Adds an element with a simple entrance; `patch` sets fields such as an uploaded image's `src`.
+ * New logos show the brand kit's first logo.
+ */
+export const addElement = (
+    videoResult: VideoResult,
+    sceneIndex: number,
+    kind: NewElementKind,
+    patch: Partial<AnimationElement> = {},
+): { videoResult: VideoResult; elementId: string } => {
+    const scene = videoResult.scenes[sceneIndex];
+    const id = createElementId(scene, kind);
+    const element: AnimationElement = { ...newElement(videoResult, kind, id), ...patch };
+    return {
+        videoResult: updateScene(videoResult, sceneIndex, s => ({ ...s, animationElements: [...s.animationElements, element] })),
+        elementId: id,
+    };
+};
+
+export const removeElement = (videoResult: VideoResult, sceneIndex: number, elementId: string): VideoResult =>
+    updateScene(videoResult, sceneIndex, scene => ({ ...scene, animationElements: scene.animationElements.filter(el => el.id !== elementId) }));
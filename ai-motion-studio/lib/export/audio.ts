@@ -0,0 +1,93 @@
+/**
+ * @file lib/export/audio.ts
+ * @description Mixes the composition's audio (the soundtrack, and narration clips at their scene start) offline and encodes it with WebCodecs.
+ */
+
+import type { VideoResult } from '../../types';
+import { FPS, getDurationInFrames, getSceneTimings } from '../timing';
+import { throwIfAborted } from './common';
+
+export const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+// Samples per encoded chunk; matches the frame size AAC and Opus encoders expect.
+const CHUNK_FRAMES = 1024;
+
+export const hasAudio = (videoResult: VideoResult) => Boolean(videoResult.soundtrack || videoResult.narrationAudio?.some(Boolean));
+
+export async function renderAudioMix(videoResult: VideoResult, signal?: AbortSignal): Promise<AudioBuffer | null> {
+    if (!hasAudio(videoResult)) return null;
+
+    const seconds = getDurationInFrames(videoResult) / FPS;
+    const context = new OfflineAudioContext(AUDIO_CHANNELS, Math.ceil(seconds * AUDIO_SAMPLE_RATE), AUDIO_SAMPLE_RATE);
+    const timings = getSceneTimings(videoResult);
+
+    const { soundtrack } = videoResult;
+    if (soundtrack) {
+        const source = context.createBufferSource();
+        source.buffer = await context.decodeAudioData(await (await fetch(soundtrack.src)).arrayBuffer());
+        const gain = context.createGain();
+        gain.gain.value = soundtrack.volume ?? 1;
+        source.connect(gain).connect(context.destination);
+        source.start(0, soundtrack.offset ?? 0);
+    }
+
+    for (let i = 0; i < timings.length; i++) {
+        const clip = videoResult.narrationAudio?.[i];
+        if (!clip) continue;
+        throwIfAborted(signal);
+        const data = await (await fetch(clip.src)).arrayBuffer();
+        const source = context.createBufferSource();
+        source.buffer = await context.decodeAudioData(data);
+        source.connect(context.destination);
+        // Stop at the end of the scene's sequence, like the player does.
+        source.start(timings[i].from / FPS, 0, timings[i].durationInFrames / FPS);
+    }
+
+    return context.startRendering();
+}
+
+export interface AudioTrackConfig {
+    encoderConfig: AudioEncoderConfig;
+    // Codec name in the container's vocabulary ('aac' / 'opus' for MP4, 'A_OPUS' for WebM).
+    muxerCodec: string;
+}
+
+export async function pickAudioConfig(container: 'mp4' | 'webm'): Promise<AudioTrackConfig> {
+    const base = { sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate: 128_000 };
+    const candidates: AudioTrackConfig[] = container === 'mp4'
+        ? [{ encoderConfig: { ...base, codec: 'mp4a.40.2' }, muxerCodec: 'aac' }, { encoderConfig: { ...base, codec: 'opus' }, muxerCodec: 'opus' }]
+        : [{ encoderConfig: { ...base, codec: 'opus' }, muxerCodec: 'A_OPUS' }];
+
+    for (const candidate of candidates) {
+        if (typeof AudioEncoder === 'undefined') break;
+        const { supported } = await AudioEncoder.isConfigSupported(candidate.encoderConfig);
+        if (supported) return candidate;
+    }
+    throw new Error(`This browser cannot encode audio for ${container.toUpperCase()} files.`);
+}
+
+/**
+ * Feeds the mixed buffer to an encoder in fixed-size planar chunks.
+ */
+export async function encodeAudioBuffer(buffer: AudioBuffer, encoder: AudioEncoder, signal?: AbortSignal) {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+    for (let offset = 0; offset < buffer.length; offset += CHUNK_FRAMES) {
+        throwIfAborted(signal);
+        const frames = Math.min(CHUNK_FRAMES, buffer.length - offset);
+        const planar = new Float32Array(frames * channels.length);
+        channels.forEach((data, c) => planar.set(data.subarray(offset, offset + frames), c * frames));
+
+        const audioData = new AudioData({
+            format: 'f32-planar',
+            sampleRate: buffer.sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels: channels.length,
+            timestamp: Math.round((offset / buffer.sampleRate) * 1_000_000),
+            data: planar,
+        });
+        encoder.encode(audioData);
+        audioData.close();
+    }
+    await encoder.flush();
+}
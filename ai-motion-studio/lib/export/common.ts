@@ -0,0 +1,27 @@
+export interface ExportProgress {
+    frame: number;
+    totalFrames: number;
+    message: string;
+}
+
+export interface ExportOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: ExportProgress) => void;
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) {
+        throw new DOMException('Export cancelled.', 'AbortError');
+    }
+}
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+/**
+ * Source frames to render when exporting at a lower frame rate than the composition.
+ */
+export function sampleFrames(durationInFrames: number, sourceFps: number, targetFps: number): number[] {
+    const fps = Math.min(sourceFps, targetFps);
+    const count = Math.max(1, Math.floor((durationInFrames / sourceFps) * fps));
+    return Array.from({ length: count }, (_, i) => Math.min(durationInFrames - 1, Math.round((i * sourceFps) / fps)));
+}
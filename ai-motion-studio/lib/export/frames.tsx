@@ -0,0 +1,121 @@
+/**
+ * @file lib/export/frames.tsx
+ * @description Renders the `Animation` composition one frame at a time into a canvas.
+ * A `Thumbnail` is mounted off-screen at full composition size and re-rendered for each frame,
+ * then the resulting DOM is rasterized.
+ */
+
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { Thumbnail } from '@remotion/player';
+import { Animation, getDimensions } from '../../components/VideoPlayer';
+import { FPS, getDurationInFrames } from '../timing';
+import type { VideoResult } from '../../types';
+import { rasterizeElement } from './rasterize';
+
+export interface FrameRenderer {
+    // Composition size; the canvas may be scaled down from it.
+    width: number;
+    height: number;
+    fps: number;
+    durationInFrames: number;
+    canvas: HTMLCanvasElement;
+    renderFrame(frame: number): Promise<HTMLCanvasElement>;
+    dispose(): void;
+}
+
+export interface FrameRendererOptions {
+    // Output scale relative to the composition size.
+    scale?: number;
+}
+
+const nextPaint = () => new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const toDataUrl = async (url: string) => {
+    if (url.startsWith('data:')) return url;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to load image for export: ${url}`);
+    return blobToDataUrl(await response.blob());
+};
+
+/**
+ * Images inside a serialized `foreignObject` can't load external resources, so every image is inlined first,
+ * brand kit logos included.
+ */
+export async function inlineImages(videoResult: VideoResult): Promise<VideoResult> {
+    const scenes = await Promise.all(videoResult.scenes.map(async scene => ({
+        ...scene,
+        imageUrl: scene.imageUrl && await toDataUrl(scene.imageUrl),
+        animationElements: await Promise.all(scene.animationElements.map(async el => (
+            el.src ? { ...el, src: await toDataUrl(el.src) } : el
+        ))),
+    })));
+    const { brandKit } = videoResult;
+    if (!brandKit) return { ...videoResult, scenes };
+    const logos = await Promise.all(brandKit.logos.map(async logo => ({ ...logo, src: await toDataUrl(logo.src) })));
+    return { ...videoResult, scenes, brandKit: { ...brandKit, logos } };
+}
+
+export async function createFrameRenderer(source: VideoResult, { scale = 1 }: FrameRendererOptions = {}): Promise<FrameRenderer> {
+    // Audio is mixed separately (see ./audio); leaving it out keeps the serialized frames small.
+    const videoResult = await inlineImages({ ...source, narrationAudio: undefined });
+    const { width, height } = getDimensions(videoResult.aspectRatio);
+    const durationInFrames = getDurationInFrames(videoResult);
+
+    const container = document.createElement('div');
+    Object.assign(container.style, {
+        position: 'fixed',
+        left: '-100000px',
+        top: '0',
+        width: `${width}px`,
+        height: `${height}px`,
+        pointerEvents: 'none',
+    });
+    document.body.appendChild(container);
+    const root = createRoot(container);
+
+    const canvas = document.createElement('canvas');
+    // Video encoders need even dimensions.
+    canvas.width = Math.max(2, Math.round((width * scale) / 2) * 2);
+    canvas.height = Math.max(2, Math.round((height * scale) / 2) * 2);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas 2D rendering is not available.');
+
+    return {
+        width,
+        height,
+        fps: FPS,
+        durationInFrames,
+        canvas,
+        async renderFrame(frame) {
+            root.render(
+                <Thumbnail
+                    component={Animation}
+                    inputProps={{ videoResult }}
+                    frameToDisplay={frame}
+                    durationInFrames={durationInFrames}
+                    fps={FPS}
+                    compositionWidth={width}
+                    compositionHeight={height}
+                    style={{ width, height }}
+                />
+            );
+            await nextPaint();
+            const rendered = container.firstElementChild;
+            if (!rendered) throw new Error(`Frame ${frame} did not render.`);
+            await rasterizeElement(rendered, ctx, { width, height });
+            return canvas;
+        },
+        dispose() {
+            root.unmount();
+            container.remove();
+        },
+    };
+}
@@ -0,0 +1,58 @@
+/**
+ * @file lib/export/gif.ts
+ * @description Animated GIF export. Each frame gets its own quantized palette; transparent compositions
+ * are quantized with alpha and written with 1-bit transparency.
+ */
+
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import type { VideoResult } from '../../types';
+import { throwIfAborted, sampleFrames, type ExportOptions } from './common';
+import { createFrameRenderer } from './frames';
+
+export interface GifExportOptions extends ExportOptions {
+    fps?: number;
+    // Output scale relative to the composition size.
+    scale?: number;
+    maxColors?: number;
+}
+
+export async function exportGif(videoResult: VideoResult, { fps = 15, scale = 0.5, maxColors = 256, signal, onProgress }: GifExportOptions = {}): Promise<Blob> {
+    onProgress?.({ frame: 0, totalFrames: 0, message: 'Preparing composition...' });
+    const renderer = await createFrameRenderer(videoResult, { scale });
+    const { canvas } = renderer;
+    const { width, height } = canvas;
+    const ctx = canvas.getContext('2d')!;
+    const transparent = videoResult.transparentBackground;
+    const format = transparent ? 'rgba4444' : 'rgb565';
+
+    try {
+        const frames = sampleFrames(renderer.durationInFrames, renderer.fps, fps);
+        const delay = Math.round(1000 / Math.min(fps, renderer.fps));
+        const gif = GIFEncoder();
+
+        for (let i = 0; i < frames.length; i++) {
+            throwIfAborted(signal);
+            await renderer.renderFrame(frames[i]);
+
+            const { data } = ctx.getImageData(0, 0, width, height);
+            const palette = quantize(data, maxColors, { format, oneBitAlpha: transparent });
+            const index = applyPalette(data, palette, format);
+            const transparentIndex = transparent ? palette.findIndex((color: number[]) => color[3] === 0) : -1;
+
+            gif.writeFrame(index, width, height, {
+                palette,
+                delay,
+                transparent: transparentIndex >= 0,
+                transparentIndex: Math.max(0, transparentIndex),
+                // Restore to background between frames so transparent pixels don't accumulate.
+                dispose: transparent ? 2 : -1,
+            });
+            onProgress?.({ frame: i + 1, totalFrames: frames.length, message: `Encoding frame ${i + 1} of ${frames.length}` });
+        }
+
+        gif.finish();
+        return new Blob([gif.bytes()], { type: 'image/gif' });
+    } finally {
+        renderer.dispose();
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * @file lib/export/index.ts
+ * @description Single entry point for every export format offered in the UI.
+ */
+
+import type { VideoResult } from '../../types';
+import type { ExportOptions } from './common';
+import { exportGif } from './gif';
+import { exportPngSequence } from './pngSequence';
+import { exportVideo } from './video';
+
+export type ExportFormat = 'mp4' | 'webm' | 'gif' | 'png-sequence';
+
+export interface ExportSettings extends ExportOptions {
+    // Frame rate for GIF and PNG sequences; video always uses the composition frame rate.
+    fps?: number;
+    // Output scale relative to the composition size, for GIF and PNG sequences.
+    scale?: number;
+}
+
+export const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+    'mp4': 'mp4',
+    'webm': 'webm',
+    'gif': 'gif',
+    'png-sequence': 'zip',
+};
+
+export function exportComposition(videoResult: VideoResult, format: ExportFormat, settings: ExportSettings = {}): Promise<Blob> {
+    switch (format) {
+        case 'mp4':
+        case 'webm':
+            return exportVideo(videoResult, { format, signal: settings.signal, onProgress: settings.onProgress });
+        case 'gif':
+            return exportGif(videoResult, settings);
+        case 'png-sequence':
+            return exportPngSequence(videoResult, settings);
+    }
+}
+
+export { isAbortError, type ExportProgress } from './common';
@@ -0,0 +1,48 @@
+/**
+ * @file lib/export/pngSequence.ts
+ * @description Exports every frame as a PNG inside a zip. PNGs keep full alpha, so this is the
+ * lossless route into compositing tools when `transparentBackground` is set.
+ */
+
+import { zipSync } from 'fflate';
+import type { VideoResult } from '../../types';
+import { throwIfAborted, sampleFrames, type ExportOptions } from './common';
+import { createFrameRenderer } from './frames';
+
+export interface PngSequenceExportOptions extends ExportOptions {
+    fps?: number;
+    scale?: number;
+}
+
+const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(async blob => {
+        if (!blob) {
+            reject(new Error('Failed to encode PNG frame.'));
+            return;
+        }
+        resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/png');
+});
+
+export async function exportPngSequence(videoResult: VideoResult, { fps = 30, scale = 1, signal, onProgress }: PngSequenceExportOptions = {}): Promise<Blob> {
+    onProgress?.({ frame: 0, totalFrames: 0, message: 'Preparing composition...' });
+    const renderer = await createFrameRenderer(videoResult, { scale });
+
+    try {
+        const frames = sampleFrames(renderer.durationInFrames, renderer.fps, fps);
+        const files: Record<string, [Uint8Array, { level: 0 }]> = {};
+
+        for (let i = 0; i < frames.length; i++) {
+            throwIfAborted(signal);
+            await renderer.renderFrame(frames[i]);
+            // PNG data is already compressed, so store it without deflating again.
+            files[`frame_${String(i + 1).padStart(5, '0')}.png`] = [await canvasToPng(renderer.canvas), { level: 0 }];
+            onProgress?.({ frame: i + 1, totalFrames: frames.length, message: `Rendering frame ${i + 1} of ${frames.length}` });
+        }
+
+        onProgress?.({ frame: frames.length, totalFrames: frames.length, message: 'Zipping frames...' });
+        return new Blob([zipSync(files)], { type: 'application/zip' });
+    } finally {
+        renderer.dispose();
+    }
+}
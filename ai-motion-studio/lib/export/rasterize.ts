@@ -0,0 +1,34 @@
+/**
+ * @file lib/export/rasterize.ts
+ * @description Draws a rendered DOM subtree onto a canvas by serializing it into an SVG `foreignObject`.
+ * The composition only uses inline styles, and brand fonts travel in its own `<style>` with data URLs, so the
+ * serialized markup is self-contained as long as every image is a data URL (see `inlineImages` in ./frames).
+ */
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to rasterize frame.'));
+    img.src = src;
+});
+
+export interface RasterizeOptions {
+    width: number;
+    height: number;
+}
+
+export async function rasterizeElement(element: Element, ctx: CanvasRenderingContext2D, { width, height }: RasterizeOptions) {
+    const markup = new XMLSerializer().serializeToString(element);
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+        + `<foreignObject x="0" y="0" width="100%" height="100%">`
+        + `<div xmlns="http://www.w3.org/1999/xhtml" style="width:${width}px;height:${height}px;position:relative;overflow:hidden;font-family:Inter,sans-serif;">${markup}</div>`
+        + `</foreignObject></svg>`;
+
+    const img = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+    // The canvas may be smaller than the composition (e.g. scaled-down GIFs); the SVG scales to fit.
+    // Transparent pixels stay transparent: the composition paints its own background unless it's meant to be see-through.
+    const { width: targetWidth, height: targetHeight } = ctx.canvas;
+    ctx.clearRect(0, 0, targetWidth, targetHeight);
+    ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
+}
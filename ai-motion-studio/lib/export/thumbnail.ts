@@ -0,0 +1,23 @@
+/**
+ * @file lib/export/thumbnail.ts
+ * @description Small still images of a composition for the project library.
+ */
+
+import type { VideoResult } from '../../types';
+import { getDimensions } from '../../components/VideoPlayer';
+import { getSceneTimings } from '../timing';
+import { createFrameRenderer } from './frames';
+
+/**
+ * Renders the middle of the first scene, where its elements have usually finished entering.
+ */
+export async function renderThumbnail(videoResult: VideoResult, width = 320): Promise<string> {
+    const renderer = await createFrameRenderer(videoResult, { scale: width / getDimensions(videoResult.aspectRatio).width });
+    try {
+        const [first] = getSceneTimings(videoResult);
+        const canvas = await renderer.renderFrame(first.from + Math.floor(first.sceneDuration / 2));
+        return canvas.toDataURL('image/jpeg', 0.8);
+    } finally {
+        renderer.dispose();
+    }
+}
@@ -0,0 +1,148 @@
+/**
+ * @file lib/export/video.ts
+ * @description Encodes the composition to MP4 (H.264) or WebM (VP9) in the browser with WebCodecs.
+ * Frames are rendered deterministically one by one, so the output never drops frames regardless of machine speed.
+ * Narration is mixed offline and muxed as an audio track.
+ */
+
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+import type { VideoResult } from '../../types';
+import { encodeAudioBuffer, pickAudioConfig, renderAudioMix, type AudioTrackConfig } from './audio';
+import { throwIfAborted, type ExportOptions } from './common';
+import { createFrameRenderer } from './frames';
+
+export type VideoFormat = 'mp4' | 'webm';
+
+export interface VideoExportOptions extends ExportOptions {
+    format: VideoFormat;
+    // Bits per second; defaults to a high-quality rate for the output resolution.
+    bitrate?: number;
+}
+
+// Keyframe every two seconds keeps seeking responsive without bloating the file.
+const KEYFRAME_INTERVAL_SECONDS = 2;
+// Frames allowed to queue in the encoder before rendering waits for it to catch up.
+const MAX_ENCODE_QUEUE = 8;
+
+const CODECS: Record<VideoFormat, string[]> = {
+    // H.264 High, then Main and Baseline profiles at level 4.0 (fits 1280x1280@30).
+    mp4: ['avc1.640028', 'avc1.4d0028', 'avc1.420028'],
+    webm: ['vp09.00.10.08', 'vp8'],
+};
+
+export const MIME_TYPES: Record<VideoFormat, string> = {
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+};
+
+export function isVideoExportSupported() {
+    return typeof window !== 'undefined' && 'VideoEncoder' in window && 'VideoFrame' in window;
+}
+
+async function pickEncoderConfig(format: VideoFormat, width: number, height: number, fps: number, bitrate: number): Promise<VideoEncoderConfig> {
+    for (const codec of CODECS[format]) {
+        const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: fps };
+        if (format === 'mp4') config.avc = { format: 'avc' };
+        const { supported } = await VideoEncoder.isConfigSupported(config);
+        if (supported) return config;
+    }
+    throw new Error(`This browser cannot encode ${format.toUpperCase()} video.`);
+}
+
+function createMuxer(format: VideoFormat, codec: string, width: number, height: number, fps: number, audio: AudioTrackConfig | null) {
+    const audioTrack = audio && {
+        sampleRate: audio.encoderConfig.sampleRate,
+        numberOfChannels: audio.encoderConfig.numberOfChannels,
+    };
+
+    if (format === 'mp4') {
+        const muxer = new Mp4Muxer({
+            target: new Mp4Target(),
+            video: { codec: 'avc', width, height, frameRate: fps },
+            audio: audioTrack ? { ...audioTrack, codec: audio!.muxerCodec as 'aac' | 'opus' } : undefined,
+            fastStart: 'in-memory',
+        });
+        return {
+            addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
+            addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => muxer.addAudioChunk(chunk, meta),
+            finalize: () => { muxer.finalize(); return muxer.target.buffer; },
+        };
+    }
+    const muxer = new WebmMuxer({
+        target: new WebmTarget(),
+        video: { codec: codec.startsWith('vp09') ? 'V_VP9' : 'V_VP8', width, height, frameRate: fps },
+        audio: audioTrack ? { ...audioTrack, codec: audio!.muxerCodec } : undefined,
+    });
+    return {
+        addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
+        addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => muxer.addAudioChunk(chunk, meta),
+        finalize: () => { muxer.finalize(); return muxer.target.buffer; },
+    };
+}
+
+export async function exportVideo(videoResult: VideoResult, { format, bitrate, signal, onProgress }: VideoExportOptions): Promise<Blob> {
+    if (!isVideoExportSupported()) {
+        throw new Error('Video export needs WebCodecs, which this browser does not support. Try a recent Chrome or Edge.');
+    }
+
+    onProgress?.({ frame: 0, totalFrames: 0, message: 'Preparing composition...' });
+    const renderer = await createFrameRenderer(videoResult);
+    const { canvas, fps, durationInFrames } = renderer;
+    const { width, height } = canvas;
+
+    let encoderError: Error | null = null;
+    let encoder: VideoEncoder | null = null;
+    let audioEncoder: AudioEncoder | null = null;
+
+    try {
+        const config = await pickEncoderConfig(format, width, height, fps, bitrate ?? Math.round(width * height * fps * 0.15));
+
+        onProgress?.({ frame: 0, totalFrames: durationInFrames, message: 'Mixing audio...' });
+        const audioMix = await renderAudioMix(videoResult, signal);
+        const audioConfig = audioMix ? await pickAudioConfig(format) : null;
+
+        const muxer = createMuxer(format, config.codec, width, height, fps, audioConfig);
+
+        if (audioMix && audioConfig) {
+            audioEncoder = new AudioEncoder({
+                output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+                error: e => { encoderError = e; },
+            });
+            audioEncoder.configure(audioConfig.encoderConfig);
+            await encodeAudioBuffer(audioMix, audioEncoder, signal);
+        }
+
+        encoder = new VideoEncoder({
+            output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+            error: e => { encoderError = e; },
+        });
+        encoder.configure(config);
+
+        const frameDuration = 1_000_000 / fps;
+        for (let frame = 0; frame < durationInFrames; frame++) {
+            throwIfAborted(signal);
+            if (encoderError) throw encoderError;
+
+            await renderer.renderFrame(frame);
+            const videoFrame = new VideoFrame(canvas, { timestamp: Math.round(frame * frameDuration), duration: Math.round(frameDuration) });
+            encoder.encode(videoFrame, { keyFrame: frame % (fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+            videoFrame.close();
+
+            while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+                await new Promise(resolve => setTimeout(resolve, 5));
+            }
+            onProgress?.({ frame: frame + 1, totalFrames: durationInFrames, message: `Rendering frame ${frame + 1} of ${durationInFrames}` });
+        }
+
+        onProgress?.({ frame: durationInFrames, totalFrames: durationInFrames, message: 'Finalizing file...' });
+        await encoder.flush();
+        if (encoderError) throw encoderError;
+
+        return new Blob([muxer.finalize()], { type: MIME_TYPES[format] });
+    } finally {
+        if (encoder && encoder.state !== 'closed') encoder.close();
+        if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+        renderer.dispose();
+    }
+}
@@ -0,0 +1,144 @@
+/**
+ * @file lib/project/format.ts
+ * @description The `.motion.json` project file: creation, serialization, and parsing with migrations
+ * from older versions. Bump PROJECT_VERSION and add a migration whenever the stored shape changes.
+ */
+
+import type { AspectRatio, GenerationConfig, MotionProject, VideoResult } from '../../types';
+import { getVideoConfig } from '../refinement';
+import { formatIssue, normalizeStoryboard } from '../validation';
+
+export const PROJECT_FORMAT = 'ai-motion-studio/project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.motion.json';
+
+export class ProjectFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectFormatError';
+    }
+}
+
+const createProjectId = () => crypto.randomUUID();
+
+const nameFromPrompt = (prompt: string) => {
+    const name = prompt.trim().replace(/\s+/g, ' ');
+    return name.length > 60 ? `${name.slice(0, 57)}...` : name || 'Untitled project';
+};
+
+export function createProject({ prompt, config, videoResult }: { prompt: string; config: GenerationConfig; videoResult: VideoResult }): MotionProject {
+    const now = new Date().toISOString();
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        id: createProjectId(),
+        name: nameFromPrompt(prompt),
+        createdAt: now,
+        updatedAt: now,
+        prompt,
+        refinements: [],
+        config,
+        videoResult,
+    };
+}
+
+type ProjectData = Record<string, unknown>;
+
+const isObject = (value: unknown): value is ProjectData => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isTimestamp = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+// Each migration upgrades a project from its key version to the next one.
+const MIGRATIONS: Record<number, (project: ProjectData) => ProjectData> = {
+    // Version 0 is a bare VideoResult, as copied out of the app before projects existed.
+    0: videoResult => ({
+        ...createProject({ prompt: '', config: getVideoConfig(validateVideoResult(videoResult)), videoResult: videoResult as unknown as VideoResult }),
+        name: 'Imported video',
+        version: 1,
+    }),
+};
+
+const detectVersion = (data: unknown): number => {
+    if (isObject(data) && data.format === PROJECT_FORMAT && Number.isInteger(data.version)) return data.version as number;
+    if (isObject(data) && Array.isArray(data.scenes)) return 0;
+    throw new ProjectFormatError('This file is not an AI Motion Studio project.');
+};
+
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '1:1'];
+
+/**
+ * Checks that a stored video can be played: every scene and element must survive storyboard validation
+ * (which drops what the player can't render). Settings the player needs are filled in when missing.
+ * Throws a `ProjectFormatError` otherwise.
+ */
+export function validateVideoResult(value: unknown): VideoResult {
+    if (!isObject(value) || !Array.isArray(value.scenes) || value.scenes.length === 0) {
+        throw new ProjectFormatError('The project does not contain any scenes.');
+    }
+    const rawScenes: unknown[] = value.scenes;
+    const { scenes, issues } = normalizeStoryboard({ scenes: rawScenes });
+    // Text emptied in the editor is dropped by validation but plays fine, so it doesn't count as damage.
+    const isEmptyText = (element: unknown) => isObject(element) && element.type === 'text' && typeof element.text === 'string' && !element.text.trim();
+    const damaged = scenes.length !== rawScenes.length || rawScenes.some((scene, i) =>
+        !isObject(scene) || !Array.isArray(scene.animationElements)
+        || scene.animationElements.filter(element => !isEmptyText(element)).length !== scenes[i].animationElements.length);
+    if (damaged) {
+        const problems = issues.filter(issue => issue.severity === 'fatal' || issue.message.includes('dropped'));
+        throw new ProjectFormatError(`The project's video is damaged: ${(problems.length > 0 ? problems : issues).slice(0, 3).map(formatIssue).join('; ') || 'a scene has no element list'}.`);
+    }
+    return {
+        ...value,
+        scenes: rawScenes,
+        aspectRatio: ASPECT_RATIOS.includes(value.aspectRatio as AspectRatio) ? value.aspectRatio : '16:9',
+        textColor: typeof value.textColor === 'string' ? value.textColor : '#FFFFFF',
+        transparentBackground: Boolean(value.transparentBackground),
+    } as VideoResult;
+}
+
+/**
+ * Upgrades a stored or imported project to the current version and checks it, filling in what older or
+ * hand-edited files leave out. Throws a `ProjectFormatError` for anything that isn't a usable project.
+ */
+export function migrateProject(data: unknown): MotionProject {
+    let version = detectVersion(data);
+    if (version > PROJECT_VERSION) {
+        throw new ProjectFormatError(`This project was saved by a newer version of the app (format version ${version}).`);
+    }
+    let project = data as ProjectData;
+    while (version < PROJECT_VERSION) {
+        project = MIGRATIONS[version](project);
+        version++;
+    }
+
+    const videoResult = validateVideoResult(project.videoResult);
+    const updatedAt = isTimestamp(project.updatedAt) ? project.updatedAt : isTimestamp(project.createdAt) ? project.createdAt : new Date().toISOString();
+    const prompt = typeof project.prompt === 'string' ? project.prompt : '';
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        id: typeof project.id === 'string' && project.id ? project.id : createProjectId(),
+        name: typeof project.name === 'string' && project.name.trim() ? project.name : nameFromPrompt(prompt),
+        createdAt: isTimestamp(project.createdAt) ? project.createdAt : updatedAt,
+        updatedAt,
+        prompt,
+        refinements: Array.isArray(project.refinements) ? project.refinements.filter((refinement): refinement is string => typeof refinement === 'string') : [],
+        config: isObject(project.config) ? project.config as unknown as GenerationConfig : getVideoConfig(videoResult),
+        videoResult,
+    };
+}
+
+export function parseProject(text: string): MotionProject {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ProjectFormatError('The project file is not valid JSON.');
+    }
+    return migrateProject(data);
+}
+
+export const serializeProject = (project: MotionProject) => JSON.stringify(project, null, 2);
+
+export const projectFilename = (project: MotionProject) => {
+    const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+    return `${slug || 'project'}${PROJECT_EXTENSION}`;
+};
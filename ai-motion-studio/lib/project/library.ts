@@ -0,0 +1,42 @@
+/**
+ * @file lib/project/library.ts
+ * @description The local project library: projects and their thumbnails in IndexedDB.
+ */
+
+import type { MotionProject } from '../../types';
+import { deleteRecord, getAllRecords, getRecord, putRecord } from '../db';
+import { migrateProject } from './format';
+
+export interface LibraryEntry {
+    id: string;
+    project: MotionProject;
+    thumbnail?: string; // JPEG data URL
+}
+
+/**
+ * Saves a project, keeping its previous thumbnail when no new one is given.
+ */
+export async function saveProject(project: MotionProject, thumbnail?: string): Promise<void> {
+    const existing = thumbnail ? undefined : await getRecord<LibraryEntry>('projects', project.id);
+    await putRecord<LibraryEntry>('projects', { id: project.id, project, thumbnail: thumbnail ?? existing?.thumbnail });
+}
+
+/**
+ * Every saved project, most recently updated first. Entries written by older versions are migrated on read;
+ * entries that can't be read are logged and left out rather than failing the whole list.
+ */
+export async function listProjects(): Promise<LibraryEntry[]> {
+    const entries = await getAllRecords<LibraryEntry>('projects');
+    return entries
+        .flatMap(entry => {
+            try {
+                return [{ ...entry, project: migrateProject(entry.project) }];
+            } catch (e) {
+                console.error(`Skipping unreadable project ${entry.id}:`, e);
+                return [];
+            }
+        })
+        .sort((a, b) => b.project.updatedAt.localeCompare(a.project.updatedAt));
+}
+
+export const deleteProject = (id: string) => deleteRecord('projects', id);
@@ -0,0 +1,94 @@
+/**
+ * @file lib/refinement.ts
+ * @description Follow-up prompts on an existing video: the request sent for a refinement turn and
+ * how the revised result is merged with what the client already holds.
+ */
+
+import type { GenerationConfig, GenerationRequest, NarrationClip, VideoResult } from '../types';
+import { getTotalDuration } from './timing';
+import { toBrandGuidelines } from './brand/kit';
+import { toMusicGuidelines } from './audio/soundtrack';
+
+// The server accepts 3-30 second videos.
+const clampDuration = (seconds: number) => Math.min(30, Math.max(3, Math.round(seconds)));
+
+/**
+ * The settings a video was generated with, recovered from the video itself.
+ */
+export function getVideoConfig(videoResult: VideoResult): GenerationConfig {
+    return {
+        duration: clampDuration(videoResult.duration ?? getTotalDuration(videoResult)),
+        aspectRatio: videoResult.aspectRatio,
+        generateNarration: Boolean(videoResult.narration?.some(Boolean)),
+        textColor: videoResult.textColor,
+        transparentBackground: videoResult.transparentBackground,
+        backgroundColor: videoResult.backgroundColor,
+        brand: videoResult.brandKit && toBrandGuidelines(videoResult.brandKit),
+        music: videoResult.soundtrack && toMusicGuidelines(videoResult.soundtrack),
+    };
+}
+
+// Inlined element images are sent as references, which the model keeps like any other field.
+const ATTACHMENT_PREFIX = 'attachment:';
+const attachmentRef = (sceneIndex: number, elementId: string) => `${ATTACHMENT_PREFIX}${sceneIndex}/${elementId}`;
+
+/**
+ * The refinement keeps the video's own settings. Audio clips, the soundtrack, images and the brand kit's
+ * files stay on the client; they're too large to send back and are carried over by `mergeRefinement`.
+ */
+export function buildRefinementRequest(prompt: string, videoResult: VideoResult): GenerationRequest {
+    const { narrationAudio: _audio, brandKit: _brandKit, soundtrack: _soundtrack, ...previous } = videoResult;
+    return {
+        prompt,
+        previous: {
+            ...previous,
+            scenes: previous.scenes.map(({ imageUrl: _image, ...scene }, sceneIndex) => ({
+                ...scene,
+                animationElements: scene.animationElements.map(el => el.src?.startsWith('data:') ? { ...el, src: attachmentRef(sceneIndex, el.id) } : el),
+            })),
+        },
+        config: getVideoConfig(videoResult),
+    };
+}
+
+export function mergeRefinement(previous: VideoResult, next: VideoResult): VideoResult {
+    const clipsByLine = new Map<string, NarrationClip>();
+    previous.narration?.forEach((line, i) => {
+        const clip = previous.narrationAudio?.[i];
+        if (line && clip) clipsByLine.set(line, clip);
+    });
+    const narrationAudio = next.narration?.map((line, i) => next.narrationAudio?.[i] ?? clipsByLine.get(line) ?? null);
+
+    const imagesByPrompt = new Map<string, string>();
+    const attachments = new Map<string, string>();
+    previous.scenes.forEach((scene, sceneIndex) => {
+        if (scene.imagePrompt && scene.imageUrl) imagesByPrompt.set(scene.imagePrompt, scene.imageUrl);
+        scene.animationElements.forEach(el => {
+            if (!el.src) return;
+            attachments.set(attachmentRef(sceneIndex, el.id), el.src);
+            if (el.imagePrompt) imagesByPrompt.set(el.imagePrompt, el.src);
+        });
+    });
+    const scenes = next.scenes.map(scene => {
+        const imageUrl = scene.imageUrl ?? (scene.imagePrompt ? imagesByPrompt.get(scene.imagePrompt) : undefined);
+        const animationElements = scene.animationElements.map(el => {
+            if (el.type !== 'image') return el;
+            const src = el.src?.startsWith(ATTACHMENT_PREFIX)
+                ? attachments.get(el.src)
+                : el.src ?? (el.imagePrompt ? imagesByPrompt.get(el.imagePrompt) : undefined);
+            return { ...el, src };
+        });
+        return { ...scene, animationElements, ...(imageUrl ? { imageUrl } : {}) };
+    });
+
+    return {
+        ...next,
+        scenes,
+        narrationAudio: narrationAudio?.some(Boolean) ? narrationAudio : undefined,
+        // Caption preferences, branding and music belong to the user, not the model.
+        showSubtitles: previous.showSubtitles,
+        captionStyle: previous.captionStyle,
+        brandKit: previous.brandKit,
+        soundtrack: previous.soundtrack,
+    };
+}
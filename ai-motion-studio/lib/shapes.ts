@@ -0,0 +1,45 @@
+/**
+ * @file lib/shapes.ts
+ * @description Geometry for the vector element types. Polygons, stars and paths are drawn in a
+ * 100x100 box that is stretched to the element's width and height.
+ */
+
+import type { AnimationElement, Gradient } from '../types';
+
+export const DEFAULT_POLYGON_SIDES = 6;
+export const DEFAULT_STAR_POINTS = 5;
+export const DEFAULT_STAR_INNER_RADIUS = 0.45;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const radialPoints = (radii: number[], count: number) => Array.from({ length: count }, (_, i) => {
+    // The first point sits at the top, so shapes come out upright.
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+    const radius = radii[i % radii.length] * 50;
+    return `${round(50 + radius * Math.cos(angle))},${round(50 + radius * Math.sin(angle))}`;
+}).join(' ');
+
+/**
+ * The `points` attribute for a polygon or star element.
+ */
+export function shapePoints({ shape, sides, innerRadius }: AnimationElement): string {
+    if (shape === 'star') {
+        const points = sides ?? DEFAULT_STAR_POINTS;
+        return radialPoints([1, innerRadius ?? DEFAULT_STAR_INNER_RADIUS], points * 2);
+    }
+    return radialPoints([1], sides ?? DEFAULT_POLYGON_SIDES);
+}
+
+const stopList = (gradient: Gradient) => gradient.stops.map(stop => `${stop.color} ${round(stop.offset * 100)}%`).join(', ');
+
+/**
+ * The gradient as a CSS `background-image`, for elements drawn as boxes (rectangles and circles).
+ */
+export function gradientCss(gradient: Gradient): string {
+    if (gradient.type === 'radial') return `radial-gradient(circle, ${stopList(gradient)})`;
+    // CSS angles start at the top; ours start at the left like SVG's.
+    return `linear-gradient(${round((gradient.angle ?? 0) + 90)}deg, ${stopList(gradient)})`;
+}
+
+// Valid SVG path data: commands, numbers, separators.
+export const isPathData = (value: string) => /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,\s+-]+$/.test(value) && /^\s*[Mm]/.test(value);
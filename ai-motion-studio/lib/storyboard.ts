@@ -0,0 +1,261 @@
+/**
+ * @file lib/storyboard.ts
+ * @description The storyboard contract shared by every model integration: the JSON schema the model
+ * must follow, the system instruction, and the user prompt built from a generation request.
+ */
+
+import { Type } from '@google/genai';
+import { formatIssue } from './validation';
+import { TRANSITION_TYPES } from './animation/transitions';
+import type { GenerationRequest, StoryboardIssue, VideoResult } from '../types';
+
+export const keyframeSchema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        at: { type: Type.NUMBER },
+        style: { type: Type.OBJECT, properties: {
+            transform: { type: Type.STRING, nullable: true },
+            transformOrigin: { type: Type.STRING, nullable: true },
+            opacity: { type: Type.NUMBER, nullable: true },
+            backgroundColor: { type: Type.STRING, nullable: true },
+            width: { type: Type.STRING, nullable: true },
+            height: { type: Type.STRING, nullable: true },
+            borderRadius: { type: Type.STRING, nullable: true },
+            color: { type: Type.STRING, nullable: true },
+            filter: { type: Type.STRING, nullable: true, description: "CSS filter property, e.g., 'blur(5px)'" },
+            textShadow: { type: Type.STRING, nullable: true, description: "CSS text-shadow property, e.g., '2px 2px 4px #000000'" },
+            stroke: { type: Type.STRING, nullable: true, description: "Stroke color of path and line elements." },
+            strokeWidth: { type: Type.NUMBER, nullable: true, description: "Stroke width in pixels." },
+            strokeDashoffset: { type: Type.NUMBER, nullable: true, description: "Draw-on progress of paths and lines: 1 hides the stroke, 0 draws it completely." },
+            fill: { type: Type.STRING, nullable: true, description: "Fill color of path, polygon and star elements, or 'none'." },
+        } },
+        easing: { type: Type.STRING, nullable: true, description: "Easing for the motion from this keyframe to the next: a preset (ease-in-out, ease-out-cubic, ease-out-back, ...), 'hold', 'cubic-bezier(x1, y1, x2, y2)' or 'spring(mass, damping, stiffness)'. Linear if omitted." },
+      },
+      required: ["at", "style"],
+    }
+};
+
+const cameraKeyframeSchema = {
+    ...keyframeSchema,
+    items: {
+      ...keyframeSchema.items,
+      properties: {
+        ...keyframeSchema.items.properties,
+        camera: {
+          type: Type.OBJECT,
+          description: "The 3D camera at this keyframe. Settings left out carry over from the keyframes around it.",
+          nullable: true,
+          properties: {
+            x: { type: Type.NUMBER, description: "Pan in % of the frame width; positive moves right.", nullable: true },
+            y: { type: Type.NUMBER, description: "Pan in % of the frame height; positive moves down.", nullable: true },
+            z: { type: Type.NUMBER, description: "Dolly in pixels; positive pushes in toward the scene.", nullable: true },
+            zoom: { type: Type.NUMBER, description: "Lens zoom, 1 for none.", nullable: true },
+            orbit: { type: Type.NUMBER, description: "Degrees circling the focus point horizontally.", nullable: true },
+            tilt: { type: Type.NUMBER, description: "Degrees circling the focus point vertically; positive looks down from above.", nullable: true },
+            focalLength: { type: Type.NUMBER, description: "Lens in mm (default 50); wide lenses (24) exaggerate depth.", nullable: true },
+            focus: { type: Type.NUMBER, description: "Element depth (z) that is in focus.", nullable: true },
+            aperture: { type: Type.NUMBER, description: "Depth-of-field blur in pixels per 100px of depth from focus (0-10); 0 keeps everything sharp.", nullable: true },
+          },
+        },
+      },
+    },
+};
+
+export const storyboardSchema = {
+    type: Type.OBJECT,
+    properties: {
+      scenes: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            duration: { type: Type.NUMBER, description: "How long the scene stays on screen, in seconds.", nullable: true },
+            animationElements: {
+              type: Type.ARRAY,
+              description: "List of elements to animate in the scene.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  type: { type: Type.STRING, enum: ["text", "shape", "logo", "image", "path", "line"] },
+                  text: { type: Type.STRING, nullable: true },
+                  textAnimation: {
+                    type: Type.OBJECT,
+                    description: "For text elements: animate characters, words or lines one after another.",
+                    nullable: true,
+                    properties: {
+                      split: { type: Type.STRING, enum: ["chars", "words", "lines"] },
+                      stagger: { type: Type.NUMBER, description: "Delay between consecutive units as a fraction of the scene duration, e.g. 0.03." },
+                      direction: { type: Type.STRING, enum: ["forward", "backward", "center", "edges", "random"], nullable: true },
+                      keyframes: { ...keyframeSchema, description: "Keyframes each unit runs, shifted by its delay." },
+                    },
+                    required: ["split", "stagger", "keyframes"],
+                  },
+                  shape: { type: Type.STRING, enum: ["rectangle", "circle", "polygon", "star"], nullable: true },
+                  sides: { type: Type.INTEGER, description: "Corners of a polygon or points of a star (3-12).", nullable: true },
+                  innerRadius: { type: Type.NUMBER, description: "Star inner radius as a fraction of the outer radius (0.1-0.9).", nullable: true },
+                  gradient: {
+                    type: Type.OBJECT,
+                    description: "Gradient fill for shapes and paths.",
+                    nullable: true,
+                    properties: {
+                      type: { type: Type.STRING, enum: ["linear", "radial"] },
+                      angle: { type: Type.NUMBER, description: "Degrees for linear gradients; 0 runs left to right.", nullable: true },
+                      stops: {
+                        type: Type.ARRAY,
+                        items: {
+                          type: Type.OBJECT,
+                          properties: { offset: { type: Type.NUMBER }, color: { type: Type.STRING } },
+                          required: ["offset", "color"],
+                        },
+                      },
+                    },
+                    required: ["type", "stops"],
+                  },
+                  imagePrompt: { type: Type.STRING, description: "For image elements: prompt for an image generator.", nullable: true },
+                  src: { type: Type.STRING, description: "For image elements: an existing image reference. Keep it unchanged; never invent one.", nullable: true },
+                  path: { type: Type.STRING, description: "For path elements: SVG path data in a 100x100 box.", nullable: true },
+                  arrow: { type: Type.STRING, enum: ["none", "start", "end", "both"], description: "Arrowheads on a line.", nullable: true },
+                  logo: { type: Type.STRING, description: "For logo elements: the name of one of the brand's logos.", nullable: true },
+                  z: { type: Type.NUMBER, description: "Depth in pixels behind the screen plane, e.g. 800 for a far background layer; negative comes toward the camera.", nullable: true },
+                  layer: { type: Type.INTEGER, description: "Stacking order; higher layers are drawn in front.", nullable: true },
+                  keyframes: keyframeSchema
+                },
+                required: ["id", "type", "keyframes"],
+              }
+            },
+            camera_animation: { ...cameraKeyframeSchema, description: "Keyframes for the scene's 3D camera; their styles apply to the whole view." },
+            image_prompt: { type: Type.STRING, description: "Prompt for an image generator. Null if not needed.", nullable: true },
+            background_color: { type: Type.STRING, description: "Background color as a hex code." },
+            transition: {
+              type: Type.OBJECT,
+              description: "How this scene hands over to the next one. Null for a 1 second cross-fade.",
+              nullable: true,
+              properties: {
+                type: { type: Type.STRING, enum: TRANSITION_TYPES, description: "Wipe and slide directions are the way the motion travels." },
+                duration: { type: Type.NUMBER, description: "Length in seconds, e.g. 0.6. Ignored for cuts.", nullable: true },
+                easing: { type: Type.STRING, description: "Easing of the transition, like keyframe easings. Linear if omitted.", nullable: true },
+              },
+              required: ["type"],
+            },
+          },
+          required: ["animationElements", "background_color", "camera_animation"],
+        }
+      },
+      narration: {
+        type: Type.ARRAY,
+        description: "One voice-over line per scene, in scene order. Only when narration is requested.",
+        items: { type: Type.STRING },
+        nullable: true,
+      },
+    }
+};
+
+export const systemInstruction = `You are a world-class motion design director. Your task is to conceptualize and define a high-end, visually stunning animation based on a user's prompt. You will respond with a single JSON object that strictly adheres to the provided JSON schema.
+
+Core Principles:
+1.  **Cinematic & Professional:** Aim for clean, elegant, and impactful visuals. Use composition effectively.
+2.  **Fluid Motion:** Create smooth animations using multiple keyframes (e.g., at: 0, 0.5, 1). Motion should be fluid, not linear: set \`easing\` on keyframes (e.g. \`ease-out-cubic\` for entrances, \`ease-in\` for exits, \`spring(1, 12, 120)\` for playful overshoot).
+3.  **Depth & Effects:**
+    - Build depth: place elements at different \`z\` depths (backgrounds far back, accents close) and order them with \`layer\`.
+    - Utilize 3D transformations on elements: \`rotateX\`, \`rotateY\`, \`translateZ\`; the camera lens provides the perspective.
+    - Employ \`filter\` for effects like \`blur()\` and \`drop-shadow()\`.
+    - Use \`textShadow\` for glows and depth.
+    - Animate \`opacity\` for fades.
+4.  **Layout:** Avoid centering all elements. Create interesting, dynamic layouts. Use relative units ('%', 'vw', 'vh') for responsive design.
+5.  **Text Color:** The main text elements should use the color specified in the user's prompt.
+
+Scene Contents:
+1.  **animationElements**: Define all objects to be animated. Besides text and rectangle/circle shapes you can use:
+    - polygon and star shapes (\`sides\`, \`innerRadius\`), and \`gradient\` fills on any shape;
+    - \`path\` elements with SVG path data in a 100x100 box; animate \`strokeDashoffset\` from 1 to 0 to draw them on;
+    - \`line\` elements, optionally with an \`arrow\`; their width is their length and \`rotate()\` sets the direction;
+    - \`image\` elements with an \`imagePrompt\` for a generated picture (use sparingly);
+    - \`textAnimation\` on text for kinetic typography: split into chars, words or lines (use \`\\n\` in the text for line breaks) that run their own keyframes one after another, \`stagger\` apart, e.g. letters fading in from a blur.
+2.  **camera_animation**: Move the 3D \`camera\` on these keyframes: pans (\`x\`, \`y\`) give parallax between depths, dollies (\`z\`) push in, \`orbit\` and \`tilt\` circle the subject, and \`focus\` with \`aperture\` adds depth-of-field blur (rack focus by animating \`focus\`). Keep moves gentle; a camera move is almost always wanted.
+3.  **image_prompt**: Write a DALL-E 3 style, detailed prompt for a background image. Prefer abstract, moody, and atmospheric visuals (e.g., gradients, textures, nebulae) unless the prompt is specific. Use 'null' if no image is needed.
+4.  **background_color**: Provide a CSS hex color for the background if no image is used.
+5.  **duration**: How long the scene stays on screen, in seconds. Scene durations should add up to the requested total duration; give important scenes more time.
+6.  **transition**: How the scene hands over to the next: fade, wipes, slides, zoom, iris, glitch or a hard cut. Match the mood (cuts and glitches for energy, fades and irises for calm) and vary them across the video rather than repeating one. The last scene's transition only sets how long it holds at the end.`;
+
+/**
+ * Models that don't accept a response schema (e.g. the Chat API) get the schema appended to the prompt instead.
+ */
+export const schemaInstruction = 'You MUST respond with a single JSON object that strictly adheres to the following JSON schema. Do not add any other text, just the raw JSON object. Schema: ' + JSON.stringify(storyboardSchema);
+
+/**
+ * Maps a VideoResult back onto the storyboard schema, so a model can revise it in the format it wrote it in.
+ */
+export function toStoryboard(videoResult: VideoResult) {
+    return {
+        scenes: videoResult.scenes.map(scene => ({
+            duration: scene.duration ?? null,
+            animationElements: scene.animationElements,
+            camera_animation: scene.cameraAnimation ?? [],
+            image_prompt: scene.imagePrompt ?? null,
+            background_color: scene.backgroundColor ?? null,
+            transition: scene.transition ?? null,
+        })),
+        narration: videoResult.narration ?? null,
+    };
+}
+
+/**
+ * Builds the user message for a generation request, folding the video settings into the prompt
+ * so the model can plan scene count, pacing and colors around them. Follow-up prompts carry the
+ * current storyboard and ask for a complete revision of it. When re-asking after an unusable answer,
+ * the problems found in it are listed so the model can avoid them.
+ */
+export function buildStoryboardPrompt({ prompt, config, previous }: GenerationRequest, issues: StoryboardIssue[] = []): string {
+    const lines = previous
+        ? [
+            'Current storyboard:',
+            JSON.stringify(toStoryboard(previous)),
+            '',
+            `Revise the current storyboard according to this instruction: ${prompt.trim()}`,
+            'Keep everything the instruction does not mention unchanged (element ids, text, keyframes, colors and scene timing) and return the complete revised storyboard.',
+        ]
+        : [prompt.trim()];
+    lines.push(
+        '',
+        'Video settings:',
+        `- Total duration: ${config.duration} seconds`,
+        `- Aspect ratio: ${config.aspectRatio}`,
+        `- Main text color: ${config.textColor}`,
+    );
+    if (config.generateNarration) {
+        lines.push('- Write one short voice-over line per scene in "narration"; each line must be speakable within its scene\'s duration.');
+    }
+    if (config.brand) {
+        const { name, palette, fontFamily, logos } = config.brand;
+        if (palette.length > 0) {
+            lines.push(`- Brand "${name}": use only these colors for text, shapes and backgrounds: ${palette.map(color => `${color.name} ${color.value}`).join(', ')}`);
+        }
+        if (fontFamily) {
+            lines.push(`- Text is set in the brand typeface ${fontFamily}; size and arrange it, but don't restyle the font.`);
+        }
+        if (logos.length > 0) {
+            lines.push(`- Brand logos: ${logos.map(logo => JSON.stringify(logo)).join(', ')}. To show one, add an element of type "logo" with "logo" set to its name and size it with width and height.`);
+        }
+    }
+    if (config.music) {
+        const { tempo, firstBeat } = config.music;
+        const beat = Math.round(60 / tempo * 1000) / 1000;
+        lines.push(`- Music at ${tempo} BPM: a beat every ${beat} seconds, the first at ${firstBeat} seconds. Cut between scenes and time key movements (keyframes, camera moves) on beats, preferably on every 4th beat.`);
+    }
+    if (config.transparentBackground) {
+        lines.push('- The background must stay transparent: do not rely on background colors or images.');
+    } else if (config.backgroundColor) {
+        lines.push(`- Background color: ${config.backgroundColor}`);
+    }
+    if (issues.length > 0) {
+        lines.push(
+            '',
+            'Your previous storyboard for this request could not be used. Return a corrected storyboard that avoids these problems:',
+            ...issues.map(issue => `- ${formatIssue(issue)}`),
+        );
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,258 @@
+/**
+ * @file lib/template/builtins.ts
+ * @description The templates that ship with the app.
+ */
+
+import type { VideoTemplate } from '../../types';
+
+const UPDATED_AT = '2026-10-01T00:00:00.000Z';
+
+const lowerThird: VideoTemplate = {
+    id: 'builtin-lower-third',
+    name: 'Lower third',
+    description: 'Name and role that slide in over footage. Rendered on a transparent background.',
+    builtIn: true,
+    updatedAt: UPDATED_AT,
+    variables: [
+        { name: 'name', type: 'text', label: 'Name', defaultValue: 'Alex Morgan' },
+        { name: 'role', type: 'text', label: 'Role', defaultValue: 'Head of Product' },
+        { name: 'accent', type: 'color', label: 'Accent color', defaultValue: '#6366f1' },
+        { name: 'textColor', type: 'color', label: 'Text color', defaultValue: '#ffffff' },
+    ],
+    videoResult: {
+        aspectRatio: '16:9',
+        textColor: '{{textColor}}',
+        transparentBackground: true,
+        scenes: [{
+            duration: 5,
+            transition: { type: 'cut' },
+            animationElements: [
+                {
+                    id: 'bar',
+                    type: 'shape',
+                    shape: 'rectangle',
+                    keyframes: [
+                        { at: 0, style: { width: '0vw', height: '12vh', backgroundColor: '{{accent}}', transform: 'translate(-28vw, 30vh)' }, easing: 'ease-out-expo' },
+                        { at: 0.15, style: { width: '36vw' } },
+                        { at: 0.85, style: { width: '36vw', opacity: 1 }, easing: 'ease-in-cubic' },
+                        { at: 1, style: { width: '0vw', opacity: 0 } },
+                    ],
+                },
+                {
+                    id: 'name',
+                    type: 'text',
+                    text: '{{name}}',
+                    layer: 1,
+                    keyframes: [
+                        { at: 0.08, style: { opacity: 0, fontSize: '3vw', color: '{{textColor}}', transform: 'translate(-30vw, 27vh)' }, easing: 'ease-out-cubic' },
+                        { at: 0.2, style: { opacity: 1, transform: 'translate(-28vw, 27vh)' } },
+                        { at: 0.85, style: { opacity: 1 } },
+                        { at: 0.95, style: { opacity: 0 } },
+                    ],
+                },
+                {
+                    id: 'role',
+                    type: 'text',
+                    text: '{{role}}',
+                    layer: 1,
+                    keyframes: [
+                        { at: 0.12, style: { opacity: 0, fontSize: '1.8vw', fontWeight: 400, color: '{{textColor}}', transform: 'translate(-30vw, 33vh)' }, easing: 'ease-out-cubic' },
+                        { at: 0.25, style: { opacity: 0.85, transform: 'translate(-28vw, 33vh)' } },
+                        { at: 0.85, style: { opacity: 0.85 } },
+                        { at: 0.95, style: { opacity: 0 } },
+                    ],
+                },
+            ],
+        }],
+    },
+};
+
+const productLaunch: VideoTemplate = {
+    id: 'builtin-product-launch',
+    name: 'Product launch',
+    description: 'Three scenes: the product name, a product shot with its tagline, and a call to action.',
+    builtIn: true,
+    updatedAt: UPDATED_AT,
+    variables: [
+        { name: 'product', type: 'text', label: 'Product name', defaultValue: 'Nimbus' },
+        { name: 'tagline', type: 'text', label: 'Tagline', defaultValue: 'Your files, everywhere.' },
+        { name: 'image', type: 'image', label: 'Product image' },
+        { name: 'cta', type: 'text', label: 'Call to action', defaultValue: 'Available today' },
+        { name: 'url', type: 'text', label: 'Website', defaultValue: 'nimbus.app' },
+        { name: 'accent', type: 'color', label: 'Accent color', defaultValue: '#a855f7' },
+        { name: 'background', type: 'color', label: 'Background color', defaultValue: '#0b1020' },
+    ],
+    videoResult: {
+        aspectRatio: '16:9',
+        textColor: '#ffffff',
+        transparentBackground: false,
+        scenes: [
+            {
+                duration: 3,
+                backgroundColor: '{{background}}',
+                transition: { type: 'iris', duration: 0.8, easing: 'ease-in-out-cubic' },
+                cameraAnimation: [
+                    { at: 0, style: {}, camera: { z: 200 }, easing: 'ease-out-cubic' },
+                    { at: 1, style: {}, camera: { z: 0 } },
+                ],
+                animationElements: [
+                    {
+                        id: 'product',
+                        type: 'text',
+                        text: '{{product}}',
+                        textAnimation: {
+                            split: 'chars',
+                            stagger: 0.04,
+                            direction: 'center',
+                            keyframes: [
+                                { at: 0, style: { opacity: 0, transform: 'translateY(40px)', filter: 'blur(8px)' }, easing: 'ease-out-cubic' },
+                                { at: 0.3, style: { opacity: 1, transform: 'translateY(0px)', filter: 'blur(0px)' } },
+                            ],
+                        },
+                        keyframes: [{ at: 0, style: { fontSize: '9vw' } }],
+                    },
+                    {
+                        id: 'underline',
+                        type: 'shape',
+                        shape: 'rectangle',
+                        keyframes: [
+                            { at: 0.3, style: { width: '0%', height: '6px', backgroundColor: '{{accent}}', transform: 'translateY(9vh)' }, easing: 'ease-in-out-cubic' },
+                            { at: 0.7, style: { width: '25%' } },
+                        ],
+                    },
+                ],
+            },
+            {
+                duration: 3.5,
+                backgroundColor: '{{background}}',
+                transition: { type: 'slide-left', duration: 0.6, easing: 'ease-in-out-quart' },
+                animationElements: [
+                    {
+                        id: 'glow',
+                        type: 'shape',
+                        shape: 'circle',
+                        z: 400,
+                        keyframes: [
+                            { at: 0, style: { width: '40vw', height: '40vw', backgroundColor: '{{accent}}', opacity: 0, transform: 'translateX(-18vw)' }, easing: 'ease-out-cubic' },
+                            { at: 0.4, style: { opacity: 0.35 } },
+                        ],
+                    },
+                    {
+                        id: 'image',
+                        type: 'image',
+                        src: '{{image}}',
+                        layer: 1,
+                        keyframes: [
+                            { at: 0, style: { width: '30vw', height: '30vw', opacity: 0, transform: 'translateX(-18vw) scale(0.85)' }, easing: 'spring(1, 14, 120)' },
+                            { at: 0.35, style: { opacity: 1, transform: 'translateX(-18vw) scale(1)' } },
+                        ],
+                    },
+                    {
+                        id: 'tagline',
+                        type: 'text',
+                        text: '{{tagline}}',
+                        layer: 1,
+                        textAnimation: {
+                            split: 'words',
+                            stagger: 0.06,
+                            keyframes: [
+                                { at: 0, style: { opacity: 0, transform: 'translateY(30px)' }, easing: 'ease-out-cubic' },
+                                { at: 0.2, style: { opacity: 1, transform: 'translateY(0px)' } },
+                            ],
+                        },
+                        keyframes: [{ at: 0, style: { width: '36vw', fontSize: '4vw', textAlign: 'left', transform: 'translateX(20vw)' } }],
+                    },
+                ],
+            },
+            {
+                duration: 3,
+                backgroundColor: '{{accent}}',
+                animationElements: [
+                    {
+                        id: 'cta',
+                        type: 'text',
+                        text: '{{cta}}',
+                        keyframes: [
+                            { at: 0, style: { opacity: 0, fontSize: '6vw', transform: 'scale(0.8)' }, easing: 'ease-out-back' },
+                            { at: 0.25, style: { opacity: 1, transform: 'scale(1)' } },
+                        ],
+                    },
+                    {
+                        id: 'url',
+                        type: 'text',
+                        text: '{{url}}',
+                        keyframes: [
+                            { at: 0.2, style: { opacity: 0, fontSize: '2.5vw', fontWeight: 400, transform: 'translateY(14vh)' }, easing: 'ease-out-cubic' },
+                            { at: 0.45, style: { opacity: 0.9, transform: 'translateY(11vh)' } },
+                        ],
+                    },
+                ],
+            },
+        ],
+    },
+};
+
+const quoteCard: VideoTemplate = {
+    id: 'builtin-quote-card',
+    name: 'Quote card',
+    description: 'A square quote revealed word by word, with its author.',
+    builtIn: true,
+    updatedAt: UPDATED_AT,
+    variables: [
+        { name: 'quote', type: 'text', label: 'Quote', defaultValue: 'Simplicity is the ultimate sophistication.' },
+        { name: 'author', type: 'text', label: 'Author', defaultValue: 'Leonardo da Vinci' },
+        { name: 'background', type: 'color', label: 'Background color', defaultValue: '#111827' },
+        { name: 'accent', type: 'color', label: 'Accent color', defaultValue: '#facc15' },
+        { name: 'backgroundImage', type: 'image', label: 'Background image' },
+    ],
+    videoResult: {
+        aspectRatio: '1:1',
+        textColor: '#ffffff',
+        transparentBackground: false,
+        scenes: [{
+            duration: 6,
+            backgroundColor: '{{background}}',
+            imageUrl: '{{backgroundImage}}',
+            cameraAnimation: [
+                { at: 0, style: {}, camera: { zoom: 1 } },
+                { at: 1, style: {}, camera: { zoom: 1.06 } },
+            ],
+            animationElements: [
+                {
+                    id: 'mark',
+                    type: 'text',
+                    text: '“',
+                    keyframes: [
+                        { at: 0, style: { opacity: 0, fontSize: '30vw', color: '{{accent}}', transform: 'translate(-30vw, -30vh)' }, easing: 'ease-out-cubic' },
+                        { at: 0.15, style: { opacity: 0.6 } },
+                    ],
+                },
+                {
+                    id: 'quote',
+                    type: 'text',
+                    text: '{{quote}}',
+                    textAnimation: {
+                        split: 'words',
+                        stagger: 0.04,
+                        keyframes: [
+                            { at: 0, style: { opacity: 0, filter: 'blur(6px)' }, easing: 'ease-out-sine' },
+                            { at: 0.15, style: { opacity: 1, filter: 'blur(0px)' } },
+                        ],
+                    },
+                    keyframes: [{ at: 0, style: { width: '75vw', fontSize: '6.5vw', transform: 'translateY(-4vh)' } }],
+                },
+                {
+                    id: 'author',
+                    type: 'text',
+                    text: '— {{author}}',
+                    keyframes: [
+                        { at: 0.55, style: { opacity: 0, fontSize: '4vw', fontWeight: 400, color: '{{accent}}', transform: 'translateY(26vh)' }, easing: 'ease-out-cubic' },
+                        { at: 0.7, style: { opacity: 1, transform: 'translateY(22vh)' } },
+                    ],
+                },
+            ],
+        }],
+    },
+};
+
+export const BUILT_IN_TEMPLATES: VideoTemplate[] = [lowerThird, productLaunch, quoteCard];
@@ -0,0 +1,20 @@
+/**
+ * @file lib/template/library.ts
+ * @description Templates saved in IndexedDB, listed after the built-in ones.
+ */
+
+import type { VideoTemplate } from '../../types';
+import { deleteRecord, getAllRecords, putRecord } from '../db';
+import { BUILT_IN_TEMPLATES } from './builtins';
+
+export const saveTemplate = (template: VideoTemplate) => putRecord<VideoTemplate>('templates', { ...template, updatedAt: new Date().toISOString() });
+
+/**
+ * The built-in templates, then the saved ones, most recently updated first.
+ */
+export async function listTemplates(): Promise<VideoTemplate[]> {
+    const saved = await getAllRecords<VideoTemplate>('templates');
+    return [...BUILT_IN_TEMPLATES, ...saved.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))];
+}
+
+export const deleteTemplate = (id: string) => deleteRecord('templates', id);
@@ -0,0 +1,107 @@
+/**
+ * @file lib/template/template.ts
+ * @description Templates: videos with {{name}} placeholders in their text, colors and image URLs. Filling
+ * one in is a plain string substitution, so a templated video renders without a generation request.
+ */
+
+import type { TemplateVariable, TemplateVariableType, VideoResult, VideoTemplate } from '../../types';
+import { COLOR_PROPERTIES } from '../animation/keyframes';
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][\w-]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z][\w-]*)\s*\}\}$/;
+
+const IMAGE_FIELDS = new Set(['src', 'imageUrl']);
+const COLOR_FIELDS = new Set<string>([...COLOR_PROPERTIES, 'textColor']);
+// Files and clips the user attached; they can't hold placeholders and are large to walk.
+const SKIPPED_FIELDS = new Set(['brandKit', 'soundtrack', 'narrationAudio']);
+
+const fieldType = (key: string): TemplateVariableType => {
+    if (IMAGE_FIELDS.has(key)) return 'image';
+    if (COLOR_FIELDS.has(key) || key.endsWith('Color')) return 'color';
+    return 'text';
+};
+
+/**
+ * Copies `value`, passing every string through `map` with the name of the field it's in.
+ * Strings mapped to `undefined` drop their field.
+ */
+function mapStrings(value: unknown, map: (text: string, key: string) => string | undefined, key = ''): unknown {
+    if (typeof value === 'string') return map(value, key);
+    if (Array.isArray(value)) return value.map(item => mapStrings(item, map, key) ?? '');
+    if (value && typeof value === 'object') {
+        const copy: Record<string, unknown> = {};
+        Object.entries(value).forEach(([field, child]) => {
+            const mapped = SKIPPED_FIELDS.has(field) ? child : mapStrings(child, map, field);
+            if (mapped !== undefined) copy[field] = mapped;
+        });
+        return copy;
+    }
+    return value;
+}
+
+/**
+ * The placeholders used in a video, in order of first use. A placeholder's type comes from the first field it
+ * appears in; `known` variables keep their labels and defaults.
+ */
+export function findVariables(videoResult: VideoResult, known: TemplateVariable[] = []): TemplateVariable[] {
+    const found = new Map<string, TemplateVariable>();
+    mapStrings(videoResult, (text, key) => {
+        for (const [, name] of text.matchAll(PLACEHOLDER)) {
+            if (!found.has(name)) found.set(name, known.find(variable => variable.name === name) ?? { name, type: fieldType(key) });
+        }
+        return text;
+    });
+    return [...found.values()];
+}
+
+/**
+ * The template's video with every placeholder replaced by its value, or its default when the form left it empty.
+ * A field that is only a placeholder and gets no value is removed, so an empty image or color falls back to
+ * what the renderer does without one.
+ */
+export function fillTemplate(template: VideoTemplate, values: Record<string, string>): VideoResult {
+    const valueOf = (name: string) => values[name] || template.variables.find(variable => variable.name === name)?.defaultValue || '';
+    const filled = mapStrings(template.videoResult, text => {
+        const whole = text.match(WHOLE_PLACEHOLDER);
+        if (whole) return valueOf(whole[1]) || undefined;
+        return text.replace(PLACEHOLDER, (_, name: string) => valueOf(name));
+    }) as VideoResult;
+    return { ...filled, generation: undefined };
+}
+
+const variableName = (id: string, taken: Set<string>) => {
+    const base = id.replace(/[^\w-]+/g, '_').replace(/^[^A-Za-z]+/, '') || 'text';
+    let name = base;
+    for (let i = 2; taken.has(name); i++) name = `${base}_${i}`;
+    taken.add(name);
+    return name;
+};
+
+/**
+ * Turns a video into a template. The copy of each text element becomes a variable named after the element,
+ * defaulting to the current text; placeholders already typed into the video are kept. Narration clips are
+ * dropped since they speak the original copy.
+ */
+export function createTemplate(videoResult: VideoResult, name: string, description?: string): VideoTemplate {
+    const { narrationAudio: _audio, generation: _generation, ...video } = videoResult;
+    const taken = new Set(findVariables(videoResult).map(variable => variable.name));
+    const defaults: TemplateVariable[] = [];
+    const scenes = video.scenes.map(scene => ({
+        ...scene,
+        animationElements: scene.animationElements.map(el => {
+            if (el.type !== 'text' || !el.text?.trim() || el.text.match(PLACEHOLDER)) return el;
+            const variable = variableName(el.id, taken);
+            defaults.push({ name: variable, type: 'text', defaultValue: el.text });
+            return { ...el, text: `{{${variable}}}` };
+        }),
+    }));
+    const templated = { ...video, scenes };
+    return {
+        id: crypto.randomUUID(),
+        name,
+        description,
+        variables: findVariables(templated, defaults),
+        videoResult: templated,
+        updatedAt: new Date().toISOString(),
+    };
+}
@@ -0,0 +1,100 @@
+/**
+ * @file lib/timing.ts
+ * @description Scene timing for the composition. Each scene is on screen for `scene.duration` seconds,
+ * and overlaps the next scene for the length of its `transition`, so the video lasts the sum of the scene
+ * durations plus the last scene's transition, which it holds for.
+ */
+
+import type { Scene, VideoResult } from '../types';
+
+export const FPS = 30;
+export const DEFAULT_SCENE_DURATION = 3; // seconds, used when a scene has no duration of its own
+export const MIN_SCENE_DURATION = 1; // seconds
+export const TRANSITION_DURATION = 1; // seconds, used when a scene has no transition duration of its own
+
+export interface SceneTiming {
+    // First frame of the scene's `Sequence`.
+    from: number;
+    // Frames before the transition into the next scene starts.
+    sceneDuration: number;
+    // Frames of the transition; 0 for a cut.
+    transitionDuration: number;
+    // Full length of the scene's `Sequence`, including the transition into the next scene.
+    durationInFrames: number;
+}
+
+export const secondsToFrames = (seconds: number) => Math.max(1, Math.round(seconds * FPS));
+
+export const getSceneDuration = (scene: Scene) => (
+    typeof scene.duration === 'number' && scene.duration > 0 ? scene.duration : DEFAULT_SCENE_DURATION
+);
+
+export const getTransitionDuration = (scene: Scene) => {
+    if (scene.transition?.type === 'cut') return 0;
+    const duration = scene.transition?.duration;
+    return typeof duration === 'number' && duration > 0 ? duration : TRANSITION_DURATION;
+};
+
+export function getSceneTimings(videoResult: VideoResult): SceneTiming[] {
+    let from = 0;
+    return (videoResult.scenes ?? []).map(scene => {
+        const sceneDuration = secondsToFrames(getSceneDuration(scene));
+        const transitionSeconds = getTransitionDuration(scene);
+        const transitionDuration = transitionSeconds > 0 ? secondsToFrames(transitionSeconds) : 0;
+        const timing = { from, sceneDuration, transitionDuration, durationInFrames: sceneDuration + transitionDuration };
+        from += sceneDuration;
+        return timing;
+    });
+}
+
+export function getDurationInFrames(videoResult: VideoResult): number {
+    const timings = getSceneTimings(videoResult);
+    if (timings.length === 0) return secondsToFrames(DEFAULT_SCENE_DURATION);
+    const last = timings[timings.length - 1];
+    return last.from + last.durationInFrames;
+}
+
+export const getTotalDuration = (videoResult: VideoResult) => getDurationInFrames(videoResult) / FPS;
+
+/**
+ * Assigns every scene a duration so the video lasts `totalSeconds`.
+ * Scenes that already have a duration keep their relative length; scenes without one share the remaining time.
+ * If the fixed durations don't fit, everything is scaled proportionally.
+ * Durations are snapped to whole frames, with any rounding remainder given to the longest scene.
+ */
+export function fitSceneDurations(scenes: Scene[], totalSeconds: number): Scene[] {
+    if (scenes.length === 0) return scenes;
+
+    const available = Math.max(scenes.length * MIN_SCENE_DURATION, totalSeconds - getTransitionDuration(scenes[scenes.length - 1]));
+    const isFixed = (scene: Scene) => typeof scene.duration === 'number' && scene.duration > 0;
+    const fixedTotal = scenes.filter(isFixed).reduce((sum, scene) => sum + scene.duration!, 0);
+    const openCount = scenes.filter(scene => !isFixed(scene)).length;
+    const openShare = openCount > 0 ? (available - fixedTotal) / openCount : 0;
+
+    let seconds: number[];
+    if (openCount > 0 && openShare >= MIN_SCENE_DURATION) {
+        seconds = scenes.map(scene => isFixed(scene) ? scene.duration! : openShare);
+    } else {
+        // Scale everything, treating open scenes as default-length.
+        const durations = scenes.map(getSceneDuration);
+        const scale = available / durations.reduce((sum, d) => sum + d, 0);
+        seconds = durations.map(d => Math.max(MIN_SCENE_DURATION, d * scale));
+    }
+
+    const frames = seconds.map(secondsToFrames);
+    const remainder = Math.round(available * FPS) - frames.reduce((sum, f) => sum + f, 0);
+    const longest = frames.indexOf(Math.max(...frames));
+    frames[longest] = Math.max(secondsToFrames(MIN_SCENE_DURATION), frames[longest] + remainder);
+
+    return scenes.map((scene, i) => ({ ...scene, duration: frames[i] / FPS }));
+}
+
+/**
+ * Describes how far the composition is from the requested duration, or returns null when it matches to the frame.
+ */
+export function getTimingMismatch(videoResult: VideoResult): string | null {
+    if (!videoResult.duration) return null;
+    const actual = getTotalDuration(videoResult);
+    if (Math.abs(actual - videoResult.duration) * FPS < 1) return null;
+    return `The scenes run ${actual.toFixed(1)}s, but ${videoResult.duration}s was requested.`;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { formatIssue, normalizeStoryboard } from './validation';
+
+const messages = (storyboard: unknown) => normalizeStoryboard(storyboard).issues.map(formatIssue);
+
+const textElement = (id: unknown, text = 'Hello') => ({ id, type: 'text', text, keyframes: [{ at: 0, style: { opacity: 0 } }] });
+
+describe('normalizeStoryboard', () => {
+    it('maps the model schema onto scenes', () => {
+        const { scenes, narration, issues } = normalizeStoryboard({
+            scenes: [{
+                duration: 4,
+                image_prompt: 'A misty forest',
+                background_color: '#102030',
+                camera_animation: [{ at: 0, style: {}, camera: { z: 200 } }],
+                animation_elements: [textElement('title')],
+            }],
+            narration: ['Welcome.'],
+        });
+        expect(issues).toEqual([]);
+        expect(narration).toEqual(['Welcome.']);
+        expect(scenes).toEqual([{
+            duration: 4,
+            imagePrompt: 'A misty forest',
+            backgroundColor: '#102030',
+            cameraAnimation: [{ at: 0, style: {}, camera: { z: 200 } }],
+            animationElements: [{ id: 'title', type: 'text', text: 'Hello', keyframes: [{ at: 0, style: { opacity: 0 } }] }],
+            transition: undefined,
+        }]);
+    });
+
+    it('renames duplicate ids and reports trimmed and missing ones', () => {
+        const storyboard = { scenes: [{ animationElements: [textElement('title'), textElement('title'), textElement(' tagline '), { type: 'shape' }] }] };
+        expect(normalizeStoryboard(storyboard).scenes[0].animationElements.map(el => el.id)).toEqual(['title', 'title-2', 'tagline', 'shape']);
+        expect(messages(storyboard)).toEqual([
+            'scenes[0].animationElements[1].id: duplicate id "title"; renamed to "title-2"',
+            'scenes[0].animationElements[2].id: surrounding whitespace removed from id " tagline "',
+            'scenes[0].animationElements[3].id: missing id; set to "shape"',
+        ]);
+    });
+
+    it('clamps `at` into 0-1 and drops keyframes without one', () => {
+        const storyboard = {
+            scenes: [{ animationElements: [{ id: 'box', type: 'shape', keyframes: [{ at: -0.5, style: {} }, { at: '1.5', style: {} }, { style: {} }] }] }],
+        };
+        expect(normalizeStoryboard(storyboard).scenes[0].animationElements[0].keyframes.map(kf => kf.at)).toEqual([0, 1]);
+        expect(messages(storyboard)).toEqual([
+            'scenes[0].animationElements[0].keyframes[0].at: -0.5 is outside 0-1; clamped to 0',
+            'scenes[0].animationElements[0].keyframes[1].at: 1.5 is outside 0-1; clamped to 1',
+            'scenes[0].animationElements[0].keyframes[2].at: missing or not a number; keyframe dropped',
+        ]);
+    });
+
+    it('drops style properties that cannot be animated and clamps opacity', () => {
+        const storyboard = {
+            scenes: [{ animationElements: [{ id: 'box', type: 'shape', keyframes: [{ at: 0, style: { fontSize: '2rem', opacity: 2, width: null, color: { r: 1 } } }] }] }],
+        };
+        expect(normalizeStoryboard(storyboard).scenes[0].animationElements[0].keyframes[0].style).toEqual({ opacity: 1 });
+        expect(messages(storyboard)).toEqual([
+            'scenes[0].animationElements[0].keyframes[0].style.fontSize: not an animatable property; dropped',
+            'scenes[0].animationElements[0].keyframes[0].style.color: must be a string or number; dropped',
+        ]);
+    });
+
+    it('infers the type of elements with an unknown one, or drops them', () => {
+        const storyboard = { scenes: [{ animationElements: [{ id: 'a', type: 'banner', text: 'Sale' }, { id: 'b', type: 'banner' }] }] };
+        expect(normalizeStoryboard(storyboard).scenes[0].animationElements.map(el => [el.id, el.type])).toEqual([['a', 'text']]);
+        expect(messages(storyboard)).toEqual([
+            'scenes[0].animationElements[0].type: unknown element type "banner"; treated as text',
+            'scenes[0].animationElements[1].type: unknown element type "banner"; element dropped',
+        ]);
+    });
+
+    it('replaces easings the renderer cannot play', () => {
+        const storyboard = {
+            scenes: [{
+                animationElements: [{
+                    id: 'box',
+                    type: 'shape',
+                    keyframes: [
+                        { at: 0, style: {}, easing: 'cubic-bezier(1.5, 0, 0.5, 1)' },
+                        { at: 0.25, style: {}, easing: { type: 'spring', mass: -1, damping: 10, stiffness: 100 } },
+                        { at: 0.5, style: {}, easing: 'wobble' },
+                        { at: 1, style: {}, easing: 'ease-out-back' },
+                    ],
+                }],
+            }],
+        };
+        expect(normalizeStoryboard(storyboard).scenes[0].animationElements[0].keyframes.map(kf => kf.easing)).toEqual([
+            { type: 'cubic-bezier', x1: 1, y1: 0, x2: 0.5, y2: 1 },
+            { type: 'spring', mass: 1, damping: 10, stiffness: 100 },
+            undefined,
+            'ease-out-back',
+        ]);
+        expect(messages(storyboard)).toEqual([
+            'scenes[0].animationElements[0].keyframes[0].easing: cubic-bezier(1.5, 0, 0.5, 1) can\'t be played; using cubic-bezier(1, 0, 0.5, 1)',
+            'scenes[0].animationElements[0].keyframes[1].easing: spring(-1, 10, 100) can\'t be played; using spring(1, 10, 100)',
+            'scenes[0].animationElements[0].keyframes[2].easing: unknown easing "wobble"; using linear',
+        ]);
+    });
+
+    it('is fatal when no scene has a usable element', () => {
+        const { issues } = normalizeStoryboard({ scenes: [{ animation_elements: [{ type: 'text', text: '  ' }, { type: 'image' }] }] });
+        expect(issues.filter(issue => issue.severity === 'fatal').map(formatIssue)).toEqual(['scenes: no scene has any usable animation elements']);
+    });
+
+    it('is fatal without scenes', () => {
+        expect(messages({ scenes: [] })).toEqual(['scenes: the storyboard has no usable scenes']);
+        expect(messages([])).toEqual(['scenes: the storyboard must be an object with a "scenes" array']);
+    });
+
+    it('keeps scenes that lost their elements when another scene is usable', () => {
+        const { scenes, issues } = normalizeStoryboard({ scenes: [{ animationElements: [textElement('title')] }, { animationElements: [{ type: 'text' }] }] });
+        expect(scenes).toHaveLength(2);
+        expect(issues.every(issue => issue.severity === 'repaired')).toBe(true);
+    });
+});
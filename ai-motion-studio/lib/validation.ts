@@ -0,0 +1,431 @@
+/**
+ * @file lib/validation.ts
+ * @description Checks a storyboard against the model schema and normalizes it into `Scene`s. Problems that
+ * can be repaired (out-of-range `at`, unknown style properties, duplicate ids) are fixed and reported;
+ * problems that can't leave the storyboard unusable and are reported as fatal.
+ */
+
+import type { AnimationElement, CameraKeyframe, CameraSettings, ElementType, Gradient, KeyframeEasing, Scene, SceneTransition, ShapeType, StoryboardIssue, TextAnimation } from '../types';
+import { ANIMATABLE_PROPERTIES } from './animation/keyframes';
+import { formatEasing, resolveEasing } from './animation/easing';
+import { TRANSITION_TYPES } from './animation/transitions';
+import { isPathData } from './shapes';
+
+export class StoryboardValidationError extends Error {
+    constructor(public readonly issues: StoryboardIssue[]) {
+        super(`The model returned an unusable storyboard: ${issues.filter(issue => issue.severity === 'fatal').map(formatIssue).join('; ')}`);
+        this.name = 'StoryboardValidationError';
+    }
+}
+
+export const formatIssue = ({ path, message }: StoryboardIssue) => path ? `${path}: ${message}` : message;
+
+export interface NormalizedStoryboard {
+    scenes: Scene[];
+    narration?: string[];
+    issues: StoryboardIssue[];
+}
+
+const ANIMATABLE = new Set<string>(ANIMATABLE_PROPERTIES);
+const ELEMENT_TYPES: ElementType[] = ['text', 'shape', 'logo', 'image', 'path', 'line'];
+const SHAPES: ShapeType[] = ['rectangle', 'circle', 'polygon', 'star'];
+const ARROWS: NonNullable<AnimationElement['arrow']>[] = ['none', 'start', 'end', 'both'];
+const TEXT_SPLITS: TextAnimation['split'][] = ['chars', 'words', 'lines'];
+const STAGGER_DIRECTIONS: NonNullable<TextAnimation['direction']>[] = ['forward', 'backward', 'center', 'edges', 'random'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const oneOf = <T>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+const nonEmptyString = (value: unknown): string | undefined => typeof value === 'string' && value.trim() ? value : undefined;
+
+const repaired = (issues: StoryboardIssue[], path: string, message: string) => issues.push({ path, message, severity: 'repaired' });
+const fatal = (issues: StoryboardIssue[], path: string, message: string) => issues.push({ path, message, severity: 'fatal' });
+
+/**
+ * A finite number clamped to min-max, or undefined (reported) when the value isn't a number. Null means unset.
+ */
+function clampedNumber(value: unknown, min: number, max: number, path: string, issues: StoryboardIssue[]): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        repaired(issues, path, `${JSON.stringify(value)} is not a number; ignored`);
+        return undefined;
+    }
+    const clamped = Math.min(max, Math.max(min, value));
+    if (clamped !== value) repaired(issues, path, `${value} is outside ${min} to ${max}; clamped to ${clamped}`);
+    return clamped;
+}
+
+const CAMERA_RANGES: Record<keyof CameraSettings, [number, number]> = {
+    x: [-500, 500],
+    y: [-500, 500],
+    z: [-5000, 1500],
+    zoom: [0.1, 10],
+    orbit: [-180, 180],
+    tilt: [-89, 89],
+    focalLength: [10, 300],
+    focus: [-1000, 5000],
+    aperture: [0, 10],
+};
+
+function normalizeCamera(value: unknown, path: string, issues: StoryboardIssue[]): CameraSettings | undefined {
+    if (!isObject(value)) {
+        repaired(issues, path, 'camera is not an object; ignored');
+        return undefined;
+    }
+    const camera: CameraSettings = {};
+    Object.entries(value).forEach(([property, setting]) => {
+        if (setting === null || setting === undefined) return;
+        if (!(property in CAMERA_RANGES)) {
+            repaired(issues, `${path}.${property}`, 'not a camera setting; dropped');
+            return;
+        }
+        const [min, max] = CAMERA_RANGES[property as keyof CameraSettings];
+        const number = clampedNumber(setting, min, max, `${path}.${property}`, issues);
+        if (number !== undefined) camera[property as keyof CameraSettings] = number;
+    });
+    return Object.keys(camera).length > 0 ? camera : undefined;
+}
+
+const easingArgs = (notation: string) => notation.slice(notation.indexOf('(') + 1, notation.lastIndexOf(')')).split(',').map(arg => parseFloat(arg.trim()));
+
+/**
+ * Keeps an easing only in a form the renderer can play: unknown easings are dropped (linear), and curves or
+ * springs the renderer would reject (bezier x outside 0-1, non-positive spring parameters) are replaced by
+ * the clamped or default values they play with.
+ */
+function normalizeEasing(value: unknown, path: string, issues: StoryboardIssue[]): KeyframeEasing | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string' && !isObject(value)) {
+        repaired(issues, path, `${JSON.stringify(value)} is not an easing; using linear`);
+        return undefined;
+    }
+    const easing = value as KeyframeEasing;
+    const resolved = resolveEasing(easing);
+    if (resolved.type === 'linear') {
+        if (typeof easing === 'string' && easing.trim().toLowerCase() === 'linear') return easing;
+        repaired(issues, path, `unknown easing ${JSON.stringify(value)}; using linear`);
+        return undefined;
+    }
+    if (resolved.type === 'hold') return easing;
+
+    // Presets have no arguments to check; curves and springs keep their own notation when it plays as written.
+    const written = formatEasing(easing);
+    if (!written.includes('(')) return easing;
+    const played = formatEasing(resolved);
+    const playedArgs = easingArgs(played);
+    if (easingArgs(written).some((arg, i) => arg !== playedArgs[i])) {
+        repaired(issues, path, `${written} can't be played; using ${played}`);
+        return resolved;
+    }
+    return easing;
+}
+
+/**
+ * Normalizes a keyframe list; camera tracks (`withCamera`) may also key the 3D camera on each keyframe.
+ */
+function normalizeKeyframes(value: unknown, path: string, issues: StoryboardIssue[], withCamera = false): CameraKeyframe[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+        repaired(issues, path, 'keyframes must be an array; ignored');
+        return [];
+    }
+
+    const keyframes: CameraKeyframe[] = [];
+    value.forEach((kf, i) => {
+        const kfPath = `${path}[${i}]`;
+        if (!isObject(kf)) {
+            repaired(issues, kfPath, 'keyframe is not an object; dropped');
+            return;
+        }
+        const at = typeof kf.at === 'string' ? parseFloat(kf.at) : kf.at;
+        if (typeof at !== 'number' || !Number.isFinite(at)) {
+            repaired(issues, `${kfPath}.at`, 'missing or not a number; keyframe dropped');
+            return;
+        }
+        const clamped = Math.min(1, Math.max(0, at));
+        if (clamped !== at) repaired(issues, `${kfPath}.at`, `${at} is outside 0-1; clamped to ${clamped}`);
+
+        const style: Record<string, string | number> = {};
+        if (kf.style !== undefined && !isObject(kf.style)) {
+            repaired(issues, `${kfPath}.style`, 'style is not an object; ignored');
+        }
+        Object.entries(isObject(kf.style) ? kf.style : {}).forEach(([property, styleValue]) => {
+            // The schema marks every property nullable, so nulls just mean "not keyed here".
+            if (styleValue === null || styleValue === undefined) return;
+            if (!ANIMATABLE.has(property)) {
+                repaired(issues, `${kfPath}.style.${property}`, 'not an animatable property; dropped');
+                return;
+            }
+            if (property === 'opacity') {
+                const opacity = typeof styleValue === 'string' ? parseFloat(styleValue) : styleValue;
+                if (typeof opacity !== 'number' || !Number.isFinite(opacity)) {
+                    repaired(issues, `${kfPath}.style.opacity`, 'not a number; dropped');
+                    return;
+                }
+                style.opacity = Math.min(1, Math.max(0, opacity));
+                return;
+            }
+            if (typeof styleValue !== 'string' && typeof styleValue !== 'number') {
+                repaired(issues, `${kfPath}.style.${property}`, 'must be a string or number; dropped');
+                return;
+            }
+            style[property] = styleValue;
+        });
+
+        const keyframe: CameraKeyframe = { at: clamped, style };
+        const easing = normalizeEasing(kf.easing, `${kfPath}.easing`, issues);
+        if (easing) keyframe.easing = easing;
+        if (kf.camera != null) {
+            if (!withCamera) repaired(issues, `${kfPath}.camera`, 'only camera keyframes can move the camera; ignored');
+            else {
+                const camera = normalizeCamera(kf.camera, `${kfPath}.camera`, issues);
+                if (camera) keyframe.camera = camera;
+            }
+        }
+        keyframes.push(keyframe);
+    });
+    return keyframes;
+}
+
+function normalizeGradient(value: unknown, path: string, issues: StoryboardIssue[]): Gradient | undefined {
+    if (!isObject(value) || !Array.isArray(value.stops)) {
+        repaired(issues, path, 'gradient must be an object with "stops"; ignored');
+        return undefined;
+    }
+    const colors = value.stops.filter((stop): stop is Record<string, unknown> => isObject(stop) && nonEmptyString(stop.color) !== undefined);
+    if (colors.length < 2) {
+        repaired(issues, `${path}.stops`, 'a gradient needs at least two colors; ignored');
+        return undefined;
+    }
+    if (colors.length !== value.stops.length) repaired(issues, `${path}.stops`, 'stops without a color were dropped');
+
+    // Missing offsets are spread evenly.
+    const stops = colors.map((stop, i) => ({
+        offset: typeof stop.offset === 'number' && Number.isFinite(stop.offset) ? Math.min(1, Math.max(0, stop.offset)) : i / (colors.length - 1),
+        color: stop.color as string,
+    }));
+    const gradient: Gradient = { type: value.type === 'radial' ? 'radial' : 'linear', stops };
+    if (value.type != null && value.type !== 'linear' && value.type !== 'radial') repaired(issues, `${path}.type`, `unknown gradient type ${JSON.stringify(value.type)}; using ${gradient.type}`);
+    if (gradient.type === 'linear' && typeof value.angle === 'number' && Number.isFinite(value.angle)) gradient.angle = value.angle;
+    return gradient;
+}
+
+function normalizeTextAnimation(value: unknown, path: string, issues: StoryboardIssue[]): TextAnimation | undefined {
+    if (!isObject(value) || !oneOf(TEXT_SPLITS, value.split)) {
+        repaired(issues, `${path}.split`, 'must be one of chars, words or lines; text animation ignored');
+        return undefined;
+    }
+    const keyframes = normalizeKeyframes(value.keyframes, `${path}.keyframes`, issues);
+    if (keyframes.length === 0) {
+        repaired(issues, `${path}.keyframes`, 'no usable keyframes; text animation ignored');
+        return undefined;
+    }
+
+    let stagger = typeof value.stagger === 'number' && Number.isFinite(value.stagger) ? value.stagger : 0.05;
+    if (stagger !== value.stagger && value.stagger != null) repaired(issues, `${path}.stagger`, `${JSON.stringify(value.stagger)} is not a number; using ${stagger}`);
+    if (stagger < 0 || stagger > 1) {
+        const clamped = Math.min(1, Math.max(0, stagger));
+        repaired(issues, `${path}.stagger`, `${stagger} is outside 0-1; clamped to ${clamped}`);
+        stagger = clamped;
+    }
+
+    const textAnimation: TextAnimation = { split: value.split, stagger, keyframes };
+    if (oneOf(STAGGER_DIRECTIONS, value.direction)) textAnimation.direction = value.direction;
+    else if (value.direction != null) repaired(issues, `${path}.direction`, `unknown direction ${JSON.stringify(value.direction)}; using forward`);
+    return textAnimation;
+}
+
+function normalizeElement(value: unknown, path: string, usedIds: Set<string>, issues: StoryboardIssue[]): AnimationElement | null {
+    if (!isObject(value)) {
+        repaired(issues, path, 'element is not an object; dropped');
+        return null;
+    }
+
+    let type: ElementType;
+    if (oneOf(ELEMENT_TYPES, value.type)) {
+        type = value.type;
+    } else {
+        const inferred = nonEmptyString(value.text) ? 'text'
+            : value.shape ? 'shape'
+            : nonEmptyString(value.logo) ? 'logo'
+            : nonEmptyString(value.path) ? 'path'
+            : nonEmptyString(value.src) || nonEmptyString(value.imagePrompt ?? value.image_prompt) ? 'image'
+            : null;
+        if (!inferred) {
+            repaired(issues, `${path}.type`, `unknown element type ${JSON.stringify(value.type)}; element dropped`);
+            return null;
+        }
+        repaired(issues, `${path}.type`, `unknown element type ${JSON.stringify(value.type)}; treated as ${inferred}`);
+        type = inferred;
+    }
+
+    const element: AnimationElement = {
+        id: '',
+        type,
+        keyframes: normalizeKeyframes(value.keyframes, `${path}.keyframes`, issues),
+    };
+
+    if (type === 'text') {
+        const text = nonEmptyString(value.text);
+        if (!text) {
+            repaired(issues, `${path}.text`, 'text element without text; dropped');
+            return null;
+        }
+        element.text = text;
+        const textAnimation = value.textAnimation ?? value.text_animation;
+        if (textAnimation != null) {
+            element.textAnimation = normalizeTextAnimation(textAnimation, `${path}.textAnimation`, issues);
+            if (!element.textAnimation) delete element.textAnimation;
+        }
+    } else if (type === 'logo') {
+        const logo = nonEmptyString(value.logo);
+        if (!logo) {
+            repaired(issues, `${path}.logo`, 'logo element without a logo name; dropped');
+            return null;
+        }
+        element.logo = logo;
+    } else if (type === 'image') {
+        const src = nonEmptyString(value.src);
+        const imagePrompt = nonEmptyString(value.imagePrompt ?? value.image_prompt);
+        if (!src && !imagePrompt) {
+            repaired(issues, `${path}.imagePrompt`, 'image element without a source or prompt; dropped');
+            return null;
+        }
+        if (src) element.src = src;
+        if (imagePrompt) element.imagePrompt = imagePrompt;
+    } else if (type === 'path') {
+        const data = nonEmptyString(value.path);
+        if (!data || !isPathData(data)) {
+            repaired(issues, `${path}.path`, 'missing or invalid SVG path data; element dropped');
+            return null;
+        }
+        element.path = data;
+    } else if (type === 'line') {
+        if (value.arrow != null && !oneOf(ARROWS, value.arrow)) repaired(issues, `${path}.arrow`, `unknown arrow ${JSON.stringify(value.arrow)}; ignored`);
+        if (oneOf(ARROWS, value.arrow) && value.arrow !== 'none') element.arrow = value.arrow;
+    } else {
+        element.shape = oneOf(SHAPES, value.shape) ? value.shape : 'rectangle';
+        if (value.shape != null && value.shape !== element.shape) repaired(issues, `${path}.shape`, `unknown shape ${JSON.stringify(value.shape)}; using rectangle`);
+        if (element.shape === 'polygon' || element.shape === 'star') {
+            const sides = value.sides;
+            if (typeof sides === 'number' && Number.isFinite(sides)) {
+                element.sides = Math.min(12, Math.max(3, Math.round(sides)));
+                if (element.sides !== sides) repaired(issues, `${path}.sides`, `${sides} is not a whole number from 3 to 12; using ${element.sides}`);
+            }
+            const innerRadius = value.innerRadius ?? value.inner_radius;
+            if (element.shape === 'star' && typeof innerRadius === 'number' && Number.isFinite(innerRadius)) {
+                element.innerRadius = Math.min(0.9, Math.max(0.1, innerRadius));
+                if (element.innerRadius !== innerRadius) repaired(issues, `${path}.innerRadius`, `${innerRadius} is outside 0.1-0.9; clamped to ${element.innerRadius}`);
+            }
+        }
+    }
+
+    const z = clampedNumber(value.z, -1000, 5000, `${path}.z`, issues);
+    if (z) element.z = z;
+    const layer = clampedNumber(value.layer, -100, 100, `${path}.layer`, issues);
+    if (layer) element.layer = Math.round(layer);
+
+    if ((type === 'shape' || type === 'path') && value.gradient != null) {
+        const gradient = normalizeGradient(value.gradient, `${path}.gradient`, issues);
+        if (gradient) element.gradient = gradient;
+    }
+
+    // Ids key React elements and timeline tracks, so they must be unique within the scene.
+    const base = nonEmptyString(value.id)?.trim() ?? type;
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+    if (id !== value.id) {
+        const message = !nonEmptyString(value.id) ? `missing id; set to ${JSON.stringify(id)}`
+            : id === base ? `surrounding whitespace removed from id ${JSON.stringify(value.id)}`
+            : `duplicate id ${JSON.stringify(value.id)}; renamed to ${JSON.stringify(id)}`;
+        repaired(issues, `${path}.id`, message);
+    }
+    usedIds.add(id);
+    element.id = id;
+
+    return element;
+}
+
+const MAX_TRANSITION_DURATION = 3; // seconds
+
+function normalizeTransition(value: unknown, path: string, issues: StoryboardIssue[]): SceneTransition | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!isObject(value) || !oneOf(TRANSITION_TYPES, value.type)) {
+        repaired(issues, `${path}.type`, `unknown transition ${JSON.stringify(isObject(value) ? value.type : value)}; using a cross-fade`);
+        return undefined;
+    }
+
+    const transition: SceneTransition = { type: value.type };
+    if (value.duration != null && value.type !== 'cut') {
+        if (typeof value.duration === 'number' && value.duration > 0) {
+            transition.duration = Math.min(MAX_TRANSITION_DURATION, value.duration);
+            if (transition.duration !== value.duration) repaired(issues, `${path}.duration`, `${value.duration}s is too long; shortened to ${transition.duration}s`);
+        } else {
+            repaired(issues, `${path}.duration`, `${JSON.stringify(value.duration)} is not a positive number; ignored`);
+        }
+    }
+    const easing = normalizeEasing(value.easing, `${path}.easing`, issues);
+    if (easing) transition.easing = easing;
+    return transition;
+}
+
+function normalizeScene(value: unknown, path: string, issues: StoryboardIssue[]): Scene | null {
+    if (!isObject(value)) {
+        repaired(issues, path, 'scene is not an object; dropped');
+        return null;
+    }
+
+    const rawElements = value.animationElements ?? value.animation_elements;
+    if (rawElements !== undefined && !Array.isArray(rawElements)) {
+        repaired(issues, `${path}.animationElements`, 'must be an array; ignored');
+    }
+    const usedIds = new Set<string>();
+    const animationElements = (Array.isArray(rawElements) ? rawElements : [])
+        .map((el, i) => normalizeElement(el, `${path}.animationElements[${i}]`, usedIds, issues))
+        .filter((el): el is AnimationElement => el !== null);
+
+    let duration: number | undefined;
+    if (value.duration !== undefined && value.duration !== null) {
+        if (typeof value.duration === 'number' && value.duration > 0) duration = value.duration;
+        else repaired(issues, `${path}.duration`, `${JSON.stringify(value.duration)} is not a positive number; ignored`);
+    }
+
+    return {
+        duration,
+        animationElements,
+        cameraAnimation: normalizeKeyframes(value.camera_animation ?? value.cameraAnimation, `${path}.camera_animation`, issues, true),
+        imagePrompt: nonEmptyString(value.image_prompt ?? value.imagePrompt),
+        backgroundColor: nonEmptyString(value.background_color ?? value.backgroundColor),
+        transition: normalizeTransition(value.transition, `${path}.transition`, issues),
+    };
+}
+
+/**
+ * Normalizes a parsed storyboard in either the model's snake_case schema or the camelCase `Scene` shape.
+ */
+export function normalizeStoryboard(storyboard: unknown): NormalizedStoryboard {
+    const issues: StoryboardIssue[] = [];
+    if (!isObject(storyboard) || !Array.isArray(storyboard.scenes)) {
+        fatal(issues, 'scenes', 'the storyboard must be an object with a "scenes" array');
+        return { scenes: [], issues };
+    }
+
+    const scenes = storyboard.scenes
+        .map((scene, i) => normalizeScene(scene, `scenes[${i}]`, issues))
+        .filter((scene): scene is Scene => scene !== null);
+    if (scenes.length === 0) {
+        fatal(issues, 'scenes', 'the storyboard has no usable scenes');
+    } else if (scenes.every(scene => scene.animationElements.length === 0)) {
+        fatal(issues, 'scenes', 'no scene has any usable animation elements');
+    }
+
+    let narration: string[] | undefined;
+    if (Array.isArray(storyboard.narration)) {
+        narration = storyboard.narration.map((line: unknown, i: number) => {
+            if (typeof line === 'string') return line;
+            if (line !== null) repaired(issues, `narration[${i}]`, 'not a string; left silent');
+            return '';
+        });
+    }
+
+    return { scenes, narration, issues };
+}
@@ -0,0 +1,329 @@
+/**
+ * @file server/cli.ts
+ * @description Headless rendering for pipelines: generates a video from a prompt (or reads a saved one) and
+ * renders it to a file. Progress is written to stdout as one JSON event per line, the same `progress` and
+ * `error` events the generation endpoint streams, ending with `done` or `error`. Logs go to stderr.
+ *
+ *   npm run render -- --prompt "Launch teaser for 'Nimbus'" --duration 6 --output out/nimbus.mp4
+ *   npm run render -- --input project.motion.json --output out/video.webm
+ *   npm run render -- --prompt "..." --provider fixture --fixture storyboard.json --output out/ci.mp4
+ */
+
+import { access, mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import type { GenerationEvent, LoadingState, VideoResult } from '../types';
+import { migrateProject, ProjectFormatError } from '../lib/project/format';
+import { HttpError, parseGenerationConfig, parseGenerationRequest } from './http';
+import { runGeneration } from './pipeline';
+import { fitSceneDurations, FPS } from '../lib/timing';
+import { createServicesFromEnv } from './services';
+import { ProviderSelectionError } from './providers';
+import { codecForOutput, CODECS, renderVideo, supportsTransparency } from './render/remotion';
+
+export const EXIT_CODES = {
+    success: 0,
+    generationFailed: 1, // The model or the storyboard failed
+    usage: 2, // Bad arguments or input file
+    renderFailed: 3,
+    cancelled: 130,
+} as const;
+
+type CliEvent =
+    | Extract<GenerationEvent, { type: 'progress' | 'error' }>
+    | { type: 'done'; data: { output: string; frames: number; durationInSeconds: number } };
+
+const PROVIDERS = ['gemini', 'openai', 'mock', 'fixture'];
+
+// Bundling and rendering follow the generation steps.
+const RENDER_STEPS = 2;
+
+const USAGE = `Usage: npm run render -- (--prompt <text> | --input <video.json>) --output <file> [options]
+
+  --prompt <text>              Generate a video from a prompt
+  --input <file>               Render a saved VideoResult or .motion.json project instead
+  --output <file>              ${Object.keys(CODECS).join(', ')}; the extension picks the codec
+  --duration <seconds>         3-30, default 10
+  --aspect-ratio <ratio>       16:9, 9:16 or 1:1, default 16:9
+  --text-color <color>         Default #FFFFFF
+  --background-color <color>   Override the background of scenes without images
+  --transparent-background     Keep the background transparent (.webm and .mov keep alpha)
+  --narration                  Generate voice-over (with --prompt)
+  --provider <name>            Storyboard provider: gemini, openai, mock or fixture (default from STORYBOARD_PROVIDER)
+  --model <name>               One of the provider's models (default from GEMINI_MODEL or OPENAI_MODEL)
+  --fixture <file>             Storyboard JSON replayed by the fixture provider
+  --save-video <file>          Also write the generated VideoResult as JSON
+  --concurrency <n>            Frames rendered in parallel
+  --browser <path>             Render with this Chrome instead of downloading Remotion's headless shell
+`;
+
+const emit = (event: CliEvent) => process.stdout.write(`${JSON.stringify(event)}\n`);
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+class GenerationError extends Error {
+    constructor(public readonly event: Extract<GenerationEvent, { type: 'error' }>) {
+        super(event.data);
+        this.name = 'GenerationError';
+    }
+}
+
+function parseCliArgs(argv: string[]) {
+    try {
+        return parseArgs({
+            args: argv,
+            options: {
+                'prompt': { type: 'string' },
+                'input': { type: 'string' },
+                'output': { type: 'string' },
+                'duration': { type: 'string' },
+                'aspect-ratio': { type: 'string' },
+                'text-color': { type: 'string' },
+                'background-color': { type: 'string' },
+                'transparent-background': { type: 'boolean' },
+                'narration': { type: 'boolean' },
+                'provider': { type: 'string' },
+                'model': { type: 'string' },
+                'fixture': { type: 'string' },
+                'save-video': { type: 'string' },
+                'concurrency': { type: 'string' },
+                'browser': { type: 'string' },
+                'help': { type: 'boolean', short: 'h' },
+            },
+            strict: true,
+        }).values;
+    } catch (e) {
+        throw new UsageError((e as Error).message);
+    }
+}
+
+type CliOptions = ReturnType<typeof parseCliArgs>;
+
+// Options that only make sense when generating.
+const GENERATION_ONLY = ['narration', 'provider', 'model', 'fixture', 'save-video'] as const;
+
+// The App's video settings, as passed on the command line.
+const configOptions = (options: CliOptions) => ({
+    duration: options.duration,
+    aspectRatio: options['aspect-ratio'],
+    textColor: options['text-color'],
+    backgroundColor: options['background-color'],
+    transparentBackground: options['transparent-background'],
+});
+
+// The request fields the options above fill in, so errors about them name the option instead.
+const OPTION_NAMES: Record<string, string> = {
+    'prompt': '--prompt',
+    'config.duration': '--duration',
+    'config.aspectRatio': '--aspect-ratio',
+    'config.textColor': '--text-color',
+    'config.backgroundColor': '--background-color',
+    'config.transparentBackground': '--transparent-background',
+    'config.generateNarration': '--narration',
+    'config.model': '--model',
+};
+
+const toUsageError = (error: HttpError) =>
+    new UsageError(error.message.replace(/"([\w.]+)"/g, (quoted, field: string) => OPTION_NAMES[field] ?? quoted));
+
+/**
+ * Reads a saved VideoResult or project, checked the way the app checks an imported project.
+ */
+async function readVideo(file: string): Promise<VideoResult> {
+    let data: unknown;
+    try {
+        data = JSON.parse(await readFile(file, 'utf8'));
+    } catch (e) {
+        throw new UsageError(`Could not read "${file}" as JSON: ${(e as Error).message}`);
+    }
+    try {
+        // A bare VideoResult is the oldest project version, so both kinds of file go through the migration.
+        return migrateProject(data).videoResult;
+    } catch (e) {
+        if (e instanceof ProjectFormatError) throw new UsageError(`"${file}": ${e.message}`);
+        throw e;
+    }
+}
+
+/**
+ * Applies the video settings given on the command line to a saved video, like changing them in the app;
+ * settings that aren't given keep the video's own.
+ */
+function applyVideoOptions(videoResult: VideoResult, options: CliOptions): VideoResult {
+    let config;
+    try {
+        config = parseGenerationConfig(configOptions(options));
+    } catch (e) {
+        if (e instanceof HttpError) throw toUsageError(e);
+        throw e;
+    }
+    return {
+        ...videoResult,
+        ...(options.duration !== undefined ? { duration: config.duration, scenes: fitSceneDurations(videoResult.scenes, config.duration) } : {}),
+        ...(options['aspect-ratio'] !== undefined ? { aspectRatio: config.aspectRatio } : {}),
+        ...(options['text-color'] !== undefined ? { textColor: config.textColor } : {}),
+        ...(options['background-color'] !== undefined ? { backgroundColor: config.backgroundColor } : {}),
+        ...(options['transparent-background'] ? { transparentBackground: true } : {}),
+    };
+}
+
+/**
+ * Runs the generation pipeline, forwarding its progress with the render steps added to the total.
+ * Resolves with the video and the number of steps the generation took.
+ */
+async function generate(options: CliOptions): Promise<{ videoResult: VideoResult; steps: number }> {
+    let request;
+    try {
+        request = parseGenerationRequest({
+            prompt: options.prompt,
+            config: {
+                ...configOptions(options),
+                generateNarration: options.narration,
+                model: options.model,
+            },
+        });
+    } catch (e) {
+        if (e instanceof HttpError) throw toUsageError(e);
+        throw e;
+    }
+
+    if (options.provider && !PROVIDERS.includes(options.provider)) throw new UsageError(`--provider must be one of ${PROVIDERS.join(', ')}.`);
+    if (options.provider === 'fixture' && !options.fixture) throw new UsageError('--provider fixture needs --fixture <storyboard.json>.');
+    if (options.fixture) {
+        try {
+            await access(options.fixture);
+        } catch (e) {
+            throw new UsageError(`Could not read the storyboard fixture "${options.fixture}": ${(e as Error).message}`);
+        }
+    }
+    let services;
+    try {
+        services = createServicesFromEnv({
+            ...process.env,
+            ...(options.provider ? { STORYBOARD_PROVIDER: options.provider } : {}),
+            ...(options.fixture ? { STORYBOARD_FIXTURE: options.fixture } : {}),
+        });
+    } catch (e) {
+        // The only errors here are missing or inconsistent configuration, e.g. --provider openai without OPENAI_BASE_URL.
+        throw new UsageError((e as Error).message);
+    }
+    try {
+        services.storyboards.select(request.config.provider, request.config.model);
+    } catch (e) {
+        if (e instanceof ProviderSelectionError) throw new UsageError(e.message);
+        throw e;
+    }
+
+    const events: GenerationEvent[] = [];
+    let steps = 0;
+    await runGeneration(request, services, event => {
+        events.push(event);
+        if (event.type !== 'progress') return;
+        steps = event.data.totalSteps;
+        emit({ type: 'progress', data: { ...event.data, totalSteps: event.data.totalSteps + RENDER_STEPS } });
+    });
+    const last = events[events.length - 1];
+    if (last?.type === 'error') throw new GenerationError(last);
+    if (last?.type !== 'result') throw new GenerationError({ type: 'error', data: 'The generation ended without a video.' });
+    return { videoResult: last.data, steps };
+}
+
+async function main(argv: string[]): Promise<number> {
+    const options = parseCliArgs(argv);
+    if (options.help) {
+        process.stderr.write(USAGE);
+        return EXIT_CODES.success;
+    }
+    if (!options.output) throw new UsageError('--output is required.');
+    if (!options.prompt === !options.input) throw new UsageError('Pass either --prompt or --input.');
+    const codec = codecForOutput(options.output);
+    if (!codec) throw new UsageError(`--output must end in ${Object.keys(CODECS).join(', ')}.`);
+    const concurrency = options.concurrency === undefined ? null : Number(options.concurrency);
+    if (concurrency !== null && !(Number.isInteger(concurrency) && concurrency > 0)) throw new UsageError('--concurrency must be a positive whole number.');
+
+    let videoResult: VideoResult;
+    let stepsBefore = 0;
+    if (options.input) {
+        const generationOnly = GENERATION_ONLY.filter(name => options[name] !== undefined);
+        if (generationOnly.length > 0) throw new UsageError(`${generationOnly.map(name => `--${name}`).join(', ')} only ${generationOnly.length === 1 ? 'applies' : 'apply'} with --prompt.`);
+        videoResult = applyVideoOptions(await readVideo(options.input), options);
+    } else {
+        try {
+            ({ videoResult, steps: stepsBefore } = await generate(options));
+        } catch (e) {
+            if (!(e instanceof GenerationError)) throw e;
+            emit(e.event);
+            return EXIT_CODES.generationFailed;
+        }
+        if (options['save-video']) {
+            await mkdir(path.dirname(path.resolve(options['save-video'])), { recursive: true });
+            await writeFile(options['save-video'], JSON.stringify(videoResult, null, 2));
+        }
+    }
+    if (videoResult.transparentBackground && !supportsTransparency(codec)) {
+        console.warn(`${path.extname(options.output)} has no alpha channel; the transparent background renders as black.`);
+    }
+
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+    const totalSteps = stepsBefore + RENDER_STEPS;
+    let lastMessage = '';
+    const progress = (state: LoadingState) => {
+        // Renders report every frame; only changes in the message are worth a line.
+        if (state.message === lastMessage) return;
+        lastMessage = state.message;
+        emit({ type: 'progress', data: state });
+    };
+
+    try {
+        await mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+        const frames = await renderVideo(videoResult, options.output, {
+            concurrency,
+            signal: controller.signal,
+            browserExecutable: options.browser,
+            onProgress: ({ stage, progress: fraction, frame, totalFrames }) => {
+                const percent = Math.round(fraction * 100);
+                if (stage === 'downloading-browser') progress({ step: stepsBefore + 1, totalSteps, message: `Downloading the browser... ${percent}%` });
+                else if (stage === 'bundling') progress({ step: stepsBefore + 1, totalSteps, message: `Bundling the composition... ${percent}%` });
+                else progress({ step: stepsBefore + 2, totalSteps, message: `Rendering frame ${frame} of ${totalFrames}... ${percent}%` });
+            },
+        });
+        emit({ type: 'done', data: { output: path.resolve(options.output), frames, durationInSeconds: Math.round(frames / FPS * 100) / 100 } });
+        return EXIT_CODES.success;
+    } catch (e) {
+        if (controller.signal.aborted) {
+            emit({ type: 'error', data: 'Render cancelled.' });
+            return EXIT_CODES.cancelled;
+        }
+        console.error('Render failed:', e);
+        emit({ type: 'error', data: (e as Error).message || 'Render failed.' });
+        return EXIT_CODES.renderFailed;
+    }
+}
+
+// Some renderer failures (a browser download cut off mid-stream) surface outside the promise chain; they still
+// end the run with an error event and the render exit code.
+process.on('uncaughtException', e => {
+    console.error(e);
+    emit({ type: 'error', data: e.message || 'Render failed.' });
+    process.exit(EXIT_CODES.renderFailed);
+});
+
+main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    e => {
+        if (e instanceof UsageError) {
+            emit({ type: 'error', data: e.message });
+            process.stderr.write(`\n${USAGE}`);
+            process.exit(EXIT_CODES.usage);
+        }
+        console.error(e);
+        emit({ type: 'error', data: (e as Error).message || 'Unexpected error.' });
+        process.exit(EXIT_CODES.renderFailed);
+    },
+);
@@ -0,0 +1,92 @@
+import type { IncomingMessage } from 'http';
+import { HttpError } from '../http';
+import { createDailyQuota, createRateLimit, type RequestLimit } from './limits';
+import { parseAccessTokens, type AccessTokens } from './tokens';
+
+export { createDailyQuota, createRateLimit, parseAccessTokens };
+export type { AccessTokens, RequestLimit };
+
+export interface GatewayUser {
+    id: string;
+}
+
+/**
+ * Sits in front of the model providers: every generation request is tied to a user and counted against
+ * their limits, so the API key stays on the server and one caller can't run up the bill.
+ */
+export interface Gateway {
+    /** Whether callers need a bearer token; without tokens configured, callers are told apart by address. */
+    requiresToken: boolean;
+    /** Resolves the caller from the `Authorization: Bearer` header. Throws a 401 `HttpError`. */
+    authenticate(req: IncomingMessage): GatewayUser;
+    /** Counts one generation against the caller's rate limit and daily quota. Throws a 429 `HttpError` when either is used up. */
+    admit(user: GatewayUser): void;
+}
+
+export interface GatewayOptions {
+    tokens: AccessTokens | null;
+    rateLimit: RequestLimit;
+    dailyQuota: RequestLimit;
+}
+
+const bearerToken = (req: IncomingMessage) => /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? '')?.[1] ?? null;
+
+export function createGateway({ tokens, rateLimit, dailyQuota }: GatewayOptions): Gateway {
+    return {
+        requiresToken: tokens !== null,
+        authenticate(req) {
+            if (!tokens) return { id: `address:${req.socket.remoteAddress ?? 'unknown'}` };
+            const token = bearerToken(req);
+            if (!token) {
+                throw new HttpError(401, 'An access token is required.', { 'WWW-Authenticate': 'Bearer' });
+            }
+            const user = tokens.userFor(token);
+            if (!user) {
+                throw new HttpError(401, 'The access token is not valid.', { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+            }
+            return { id: `user:${user}` };
+        },
+        admit(user) {
+            const quotaWait = dailyQuota.retryAfter(user.id);
+            if (quotaWait > 0) {
+                throw new HttpError(429, `Daily limit of ${dailyQuota.limit} generations reached. It resets at midnight UTC.`, { 'Retry-After': String(quotaWait) });
+            }
+            const rateWait = rateLimit.retryAfter(user.id);
+            if (rateWait > 0) {
+                throw new HttpError(429, `Too many generations; at most ${rateLimit.limit} a minute. Try again in ${rateWait}s.`, { 'Retry-After': String(rateWait) });
+            }
+            rateLimit.record(user.id);
+            dailyQuota.record(user.id);
+        },
+    };
+}
+
+const positiveInteger = (value: string | undefined, fallback: number) => {
+    const number = Number(value);
+    return value !== undefined && Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+export interface GatewayEnvOptions {
+    /** Refuse to run open unless `GATEWAY_OPEN=1` says so. The standalone server sets it; the Vite dev server doesn't. */
+    requireTokens?: boolean;
+}
+
+/**
+ * `GATEWAY_TOKENS` holds the `user:token` pairs allowed to generate; without it the endpoint is open and limits
+ * apply per client address. `GATEWAY_RATE_LIMIT` (per minute, default 5) and `GATEWAY_DAILY_QUOTA` (per UTC day,
+ * default 100) cap each user.
+ */
+export function createGatewayFromEnv(env: Record<string, string | undefined> = process.env, { requireTokens = false }: GatewayEnvOptions = {}): Gateway {
+    const tokens = env.GATEWAY_TOKENS ? parseAccessTokens(env.GATEWAY_TOKENS) : null;
+    if (!tokens) {
+        if (requireTokens && env.GATEWAY_OPEN !== '1') {
+            throw new Error('GATEWAY_TOKENS is not set. Set it to the user:token pairs allowed to generate, or GATEWAY_OPEN=1 to run without access tokens.');
+        }
+        console.warn('GATEWAY_TOKENS is not set: the generation endpoint is open to anyone who can reach it, limited per client address.');
+    }
+    return createGateway({
+        tokens,
+        rateLimit: createRateLimit(positiveInteger(env.GATEWAY_RATE_LIMIT, 5)),
+        dailyQuota: createDailyQuota(positiveInteger(env.GATEWAY_DAILY_QUOTA, 100)),
+    });
+}
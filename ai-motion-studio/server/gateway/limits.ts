@@ -0,0 +1,67 @@
+/**
+ * In-memory request limits, keyed by user. They reset when the server restarts and are per process, which
+ * is enough for a single server; several instances would need a shared store.
+ */
+export interface RequestLimit {
+    limit: number;
+    /** Seconds until `key` may make another request, or 0 when it may make one now. */
+    retryAfter(key: string, now?: number): number;
+    record(key: string, now?: number): void;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * At most `limit` requests in any rolling minute.
+ */
+export function createRateLimit(limit: number): RequestLimit {
+    const requests = new Map<string, number[]>();
+    const recent = (key: string, now: number) => (requests.get(key) ?? []).filter(time => time > now - MINUTE_MS);
+
+    return {
+        limit,
+        retryAfter(key, now = Date.now()) {
+            const times = recent(key, now);
+            return times.length < limit ? 0 : Math.ceil((times[times.length - limit] + MINUTE_MS - now) / 1000);
+        },
+        record(key, now = Date.now()) {
+            requests.set(key, [...recent(key, now), now].slice(-limit));
+            // Forget callers that have gone quiet, so keying by client address can't grow the map without bound.
+            if (requests.size > 1000) {
+                for (const [other, times] of requests) {
+                    if (times[times.length - 1] <= now - MINUTE_MS) requests.delete(other);
+                }
+            }
+        },
+    };
+}
+
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * At most `limit` requests per UTC day.
+ */
+export function createDailyQuota(limit: number): RequestLimit {
+    let day = '';
+    const counts = new Map<string, number>();
+    const rollOver = (now: number) => {
+        if (utcDay(now) === day) return;
+        day = utcDay(now);
+        counts.clear();
+    };
+
+    return {
+        limit,
+        retryAfter(key, now = Date.now()) {
+            rollOver(now);
+            if ((counts.get(key) ?? 0) < limit) return 0;
+            const midnight = new Date(now);
+            midnight.setUTCHours(24, 0, 0, 0);
+            return Math.ceil((midnight.getTime() - now) / 1000);
+        },
+        record(key, now = Date.now()) {
+            rollOver(now);
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        },
+    };
+}
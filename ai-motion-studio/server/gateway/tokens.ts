@@ -0,0 +1,43 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Long enough that guessing one through the rate limit is hopeless.
+const MIN_TOKEN_LENGTH = 16;
+
+const digest = (token: string) => createHash('sha256').update(token).digest();
+
+export interface AccessTokens {
+    /** The user a bearer token belongs to, or null when it matches none. */
+    userFor(token: string): string | null;
+}
+
+/**
+ * Reads `GATEWAY_TOKENS`: comma-separated `user:token` pairs. Only digests of the tokens are kept, and they are
+ * compared in constant time.
+ */
+export function parseAccessTokens(value: string): AccessTokens {
+    const entries = value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+        const separator = entry.indexOf(':');
+        const user = entry.slice(0, separator).trim();
+        const token = entry.slice(separator + 1).trim();
+        if (separator < 0 || !user) {
+            throw new Error('GATEWAY_TOKENS must be comma-separated "user:token" pairs.');
+        }
+        if (token.length < MIN_TOKEN_LENGTH) {
+            throw new Error(`The GATEWAY_TOKENS token for "${user}" must be at least ${MIN_TOKEN_LENGTH} characters.`);
+        }
+        return { user, digest: digest(token) };
+    });
+    if (entries.length === 0) throw new Error('GATEWAY_TOKENS has no "user:token" pairs.');
+
+    return {
+        userFor(token) {
+            const candidate = digest(token);
+            // Every entry is compared, so the time taken doesn't reveal which one matched.
+            let user: string | null = null;
+            for (const entry of entries) {
+                if (timingSafeEqual(entry.digest, candidate)) user ??= entry.user;
+            }
+            return user;
+        },
+    };
+}
@@ -0,0 +1,223 @@
+/**
+ * @file server/http.ts
+ * @description Node HTTP glue for the generation endpoint: request parsing and the SSE response.
+ * Shared by the Vite dev middleware and the standalone server.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AspectRatio, BrandGuidelines, GenerationConfig, GenerationEvent, GenerationRequest, MusicGuidelines, StoryboardProviderInfo, VideoResult } from '../types';
+import { runGeneration } from './pipeline';
+import type { GenerationServices } from './services';
+import type { Gateway } from './gateway';
+import { ProviderSelectionError } from './providers';
+
+// The client has posted to both paths over time; serve them identically.
+export const GENERATION_ROUTES = ['/api/api', '/api/handler'];
+export const PROVIDERS_ROUTE = '/api/providers';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '1:1'];
+
+export class HttpError extends Error {
+    constructor(public readonly status: number, message: string, public readonly headers: Record<string, string> = {}) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, 'Request body is too large.'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+            } catch {
+                reject(new HttpError(400, 'Request body must be valid JSON.'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseBrandGuidelines(brand: unknown): BrandGuidelines | undefined {
+    if (brand === undefined || brand === null) return undefined;
+    const isColor = (color: unknown): color is BrandGuidelines['palette'][number] => isObject(color) && isString(color.name) && isString(color.value);
+    if (!isObject(brand)
+        || !isString(brand.name)
+        || !Array.isArray(brand.palette) || !brand.palette.every(isColor)
+        || !Array.isArray(brand.logos) || !brand.logos.every(isString)
+        || (brand.fontFamily !== undefined && !isString(brand.fontFamily))) {
+        throw new HttpError(400, '"config.brand" must have a "name", a "palette" of { name, value } colors and a list of "logos".');
+    }
+    return {
+        name: brand.name,
+        palette: brand.palette.map(({ name, value }) => ({ name, value })),
+        fontFamily: isString(brand.fontFamily) ? brand.fontFamily : undefined,
+        logos: brand.logos,
+    };
+}
+
+function parseMusicGuidelines(music: unknown): MusicGuidelines | undefined {
+    if (music === undefined || music === null) return undefined;
+    const tempo = isObject(music) ? Number(music.tempo) : NaN;
+    const firstBeat = isObject(music) ? Number(music.firstBeat ?? 0) : NaN;
+    if (!Number.isFinite(tempo) || tempo < 30 || tempo > 300 || !Number.isFinite(firstBeat) || firstBeat < 0) {
+        throw new HttpError(400, '"config.music" must have a "tempo" between 30 and 300 BPM and a non-negative "firstBeat".');
+    }
+    return { tempo, firstBeat };
+}
+
+/**
+ * Validates generation settings and fills in defaults for optional ones.
+ */
+export function parseGenerationConfig(config: unknown = {}): GenerationConfig {
+    if (!isObject(config)) {
+        throw new HttpError(400, '"config" must be an object.');
+    }
+    const duration = Number(config.duration ?? 10);
+    if (!Number.isFinite(duration) || duration < 3 || duration > 30) {
+        throw new HttpError(400, '"config.duration" must be between 3 and 30 seconds.');
+    }
+    const aspectRatio = config.aspectRatio ?? '16:9';
+    if (!ASPECT_RATIOS.includes(aspectRatio as AspectRatio)) {
+        throw new HttpError(400, `"config.aspectRatio" must be one of ${ASPECT_RATIOS.join(', ')}.`);
+    }
+
+    const { provider, model } = config;
+    for (const [key, value] of Object.entries({ provider, model })) {
+        if (value !== undefined && !isString(value)) {
+            throw new HttpError(400, `"config.${key}" must be a string.`);
+        }
+    }
+
+    return {
+        duration,
+        aspectRatio: aspectRatio as AspectRatio,
+        generateNarration: Boolean(config.generateNarration),
+        textColor: isString(config.textColor) ? config.textColor : '#FFFFFF',
+        transparentBackground: Boolean(config.transparentBackground),
+        backgroundColor: isString(config.backgroundColor) ? config.backgroundColor : undefined,
+        brand: parseBrandGuidelines(config.brand),
+        music: parseMusicGuidelines(config.music),
+        provider: isString(provider) && provider ? provider : undefined,
+        model: isString(model) && model ? model : undefined,
+    };
+}
+
+/**
+ * Validates the `{ prompt, config, previous? }` body sent by `App.tsx` and fills in defaults for optional settings.
+ */
+export function parseGenerationRequest(body: unknown): GenerationRequest {
+    const prompt = isObject(body) && isString(body.prompt) ? body.prompt.trim() : '';
+    if (!isObject(body) || !prompt) {
+        throw new HttpError(400, 'A non-empty "prompt" is required.');
+    }
+
+    const config = parseGenerationConfig(body.config ?? {});
+    const previous = body.previous;
+    if (previous !== undefined && (!isObject(previous) || !Array.isArray(previous.scenes))) {
+        throw new HttpError(400, '"previous" must be a video result with a "scenes" array.');
+    }
+    return { prompt, previous: previous as VideoResult | undefined, config };
+}
+
+export function sendJsonError(res: ServerResponse, status: number, error: string) {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ error }));
+}
+
+function sendHttpError(res: ServerResponse, error: HttpError) {
+    for (const [name, value] of Object.entries(error.headers)) res.setHeader(name, value);
+    sendJsonError(res, error.status, error.message);
+}
+
+/**
+ * Handles generation requests. The gateway checks the caller before the body is read and admits the request
+ * against their limits once it has parsed.
+ */
+export function createGenerationHandler(getServices: () => GenerationServices, getGateway: () => Gateway) {
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            sendJsonError(res, 405, 'Method not allowed.');
+            return;
+        }
+
+        let request: GenerationRequest;
+        try {
+            const gateway = getGateway();
+            const user = gateway.authenticate(req);
+            request = parseGenerationRequest(await readJsonBody(req));
+            getServices().storyboards.select(request.config.provider, request.config.model);
+            gateway.admit(user);
+        } catch (e) {
+            if (e instanceof ProviderSelectionError) {
+                sendJsonError(res, 400, e.message);
+                return;
+            }
+            if (!(e instanceof HttpError)) {
+                sendJsonError(res, 500, (e as Error).message);
+                return;
+            }
+            sendHttpError(res, e);
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        });
+
+        const emit = (event: GenerationEvent) => {
+            if (!res.writableEnded && !res.destroyed) {
+                res.write(`data: ${JSON.stringify(event)}\n\n`);
+            }
+        };
+
+        // A client that disconnects stops the model, image and speech calls still to come.
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+        await runGeneration(request, getServices(), emit, controller.signal);
+        res.end();
+    };
+}
+
+/**
+ * Lists the storyboard providers and models a request may pick, for the settings modal.
+ */
+export function createProvidersHandler(getServices: () => GenerationServices, getGateway: () => Gateway) {
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        if (req.method !== 'GET') {
+            res.setHeader('Allow', 'GET');
+            sendJsonError(res, 405, 'Method not allowed.');
+            return;
+        }
+        try {
+            getGateway().authenticate(req);
+        } catch (e) {
+            if (!(e instanceof HttpError)) throw e;
+            sendHttpError(res, e);
+            return;
+        }
+
+        const { providers, defaultProvider } = getServices().storyboards;
+        const body: { providers: StoryboardProviderInfo[]; defaultProvider: string } = { providers, defaultProvider };
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+    };
+}
@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+import type { AspectRatio } from '../../types';
+import type { GeneratedImage, ImageProvider } from './types';
+
+/**
+ * Wraps a provider with an in-memory cache keyed by a hash of the prompt, so refinements and repeated
+ * prompts reuse images instead of paying for them again. Least recently used entries are evicted first.
+ */
+export function createCachedImageProvider(provider: ImageProvider, maxEntries = 64): ImageProvider {
+    // Pending generations are cached too, so concurrent requests for one prompt share a single call.
+    const cache = new Map<string, Promise<GeneratedImage>>();
+    const keyFor = (prompt: string, aspectRatio: AspectRatio) =>
+        createHash('sha256').update(`${provider.name}\n${aspectRatio}\n${prompt.trim()}`).digest('hex');
+
+    return {
+        name: provider.name,
+        // The signal isn't passed on: another request may be waiting on the same pending image.
+        generate(prompt, aspectRatio) {
+            const key = keyFor(prompt, aspectRatio);
+            let image = cache.get(key);
+            if (image) {
+                cache.delete(key);
+            } else {
+                image = provider.generate(prompt, aspectRatio);
+                // Failures aren't cached; the next request tries again.
+                image.catch(() => cache.delete(key));
+            }
+            cache.set(key, image);
+            while (cache.size > maxEntries) {
+                cache.delete(cache.keys().next().value!);
+            }
+            return image;
+        },
+    };
+}
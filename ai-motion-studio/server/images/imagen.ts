@@ -0,0 +1,24 @@
+import { GoogleGenAI } from '@google/genai';
+import type { ImageProvider } from './types';
+
+export const DEFAULT_IMAGE_MODEL = 'imagen-3.0-generate-002';
+
+export function createImagenProvider(apiKey: string, model: string = DEFAULT_IMAGE_MODEL): ImageProvider {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'imagen',
+        async generate(prompt, aspectRatio, signal) {
+            const response = await ai.models.generateImages({
+                model,
+                prompt,
+                config: { numberOfImages: 1, aspectRatio, outputMimeType: 'image/jpeg', abortSignal: signal },
+            });
+            const image = response.generatedImages?.[0]?.image;
+            if (!image?.imageBytes) {
+                throw new Error('The image model returned no image.');
+            }
+            return { data: Buffer.from(image.imageBytes, 'base64'), mimeType: image.mimeType ?? 'image/jpeg' };
+        },
+    };
+}
@@ -0,0 +1,20 @@
+import { createCachedImageProvider } from './cache';
+import { createImagenProvider } from './imagen';
+import { createPlaceholderImageProvider } from './placeholder';
+import type { ImageProvider } from './types';
+
+export type { GeneratedImage, ImageProvider } from './types';
+export { createCachedImageProvider, createImagenProvider, createPlaceholderImageProvider };
+
+/**
+ * `IMAGE_PROVIDER=imagen` uses Imagen (requires `GEMINI_API_KEY`); anything else uses the offline placeholder,
+ * since image generation is billed separately from storyboards. `IMAGE_CACHE_SIZE` sets how many images are kept.
+ */
+export function createImageProviderFromEnv(env: Record<string, string | undefined> = process.env): ImageProvider {
+    const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+    const provider = env.IMAGE_PROVIDER === 'imagen' && apiKey
+        ? createImagenProvider(apiKey, env.IMAGEN_MODEL)
+        : createPlaceholderImageProvider();
+    const cacheSize = Number(env.IMAGE_CACHE_SIZE);
+    return createCachedImageProvider(provider, Number.isInteger(cacheSize) && cacheSize > 0 ? cacheSize : undefined);
+}
@@ -0,0 +1,46 @@
+import { createHash } from 'crypto';
+import type { ImageProvider } from './types';
+
+/**
+ * Offline stand-in for an image model: an SVG gradient with a soft glow and film grain.
+ * Colors, angle and grain are derived from the prompt's hash, so the same prompt always yields the same image.
+ */
+export function renderPlaceholderSvg(prompt: string, width: number, height: number): string {
+    const bytes = createHash('sha256').update(prompt).digest();
+    const hue = (bytes[0] / 255) * 360;
+    const hue2 = (hue + 40 + (bytes[1] / 255) * 120) % 360;
+    const glowHue = (hue + 180) % 360;
+    const angle = Math.round((bytes[2] / 255) * 360);
+    const glowX = 20 + Math.round((bytes[3] / 255) * 60);
+    const glowY = 20 + Math.round((bytes[4] / 255) * 60);
+    const seed = bytes.readUInt16BE(5);
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + '<defs>'
+        + `<linearGradient id="base" gradientTransform="rotate(${angle} 0.5 0.5)">`
+        + `<stop offset="0" stop-color="hsl(${hue.toFixed(0)}, 55%, 14%)"/><stop offset="1" stop-color="hsl(${hue2.toFixed(0)}, 60%, 28%)"/>`
+        + '</linearGradient>'
+        + `<radialGradient id="glow" cx="${glowX}%" cy="${glowY}%" r="55%">`
+        + `<stop offset="0" stop-color="hsl(${glowHue.toFixed(0)}, 80%, 60%)" stop-opacity="0.45"/><stop offset="1" stop-color="hsl(${glowHue.toFixed(0)}, 80%, 60%)" stop-opacity="0"/>`
+        + '</radialGradient>'
+        + `<filter id="grain"><feTurbulence type="fractalNoise" baseFrequency="0.85" numOctaves="3" seed="${seed}" stitchTiles="stitch"/>`
+        + '<feColorMatrix type="saturate" values="0"/><feComponentTransfer><feFuncA type="linear" slope="0.12"/></feComponentTransfer></filter>'
+        + '</defs>'
+        + '<rect width="100%" height="100%" fill="url(#base)"/>'
+        + '<rect width="100%" height="100%" fill="url(#glow)"/>'
+        + '<rect width="100%" height="100%" filter="url(#grain)"/>'
+        + '</svg>';
+}
+
+export function createPlaceholderImageProvider(): ImageProvider {
+    return {
+        name: 'placeholder',
+        async generate(prompt, aspectRatio) {
+            // The SVG scales cleanly, so only the proportions matter.
+            const [w, h] = aspectRatio.split(':').map(Number);
+            const width = 1280;
+            const height = Math.round((width * h) / w);
+            return { data: new TextEncoder().encode(renderPlaceholderSvg(prompt, width, height)), mimeType: 'image/svg+xml' };
+        },
+    };
+}
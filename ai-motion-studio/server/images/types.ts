@@ -0,0 +1,14 @@
+import type { AspectRatio } from '../../types';
+
+export interface GeneratedImage {
+    data: Uint8Array;
+    mimeType: string;
+}
+
+/**
+ * Turns a scene's `image_prompt` into a background image.
+ */
+export interface ImageProvider {
+    readonly name: string;
+    generate(prompt: string, aspectRatio: AspectRatio, signal?: AbortSignal): Promise<GeneratedImage>;
+}
@@ -0,0 +1,82 @@
+/**
+ * @file server/index.ts
+ * @description Standalone server: the generation endpoint plus the built app from `dist/`.
+ * Run with `npm run server` after `npm run build`; it needs `GATEWAY_TOKENS`, or `GATEWAY_OPEN=1` to run open.
+ */
+
+import { createReadStream, existsSync, statSync } from 'fs';
+import { createServer, type ServerResponse } from 'http';
+import path from 'path';
+import { createGenerationHandler, createProvidersHandler, GENERATION_ROUTES, PROVIDERS_ROUTE, sendJsonError } from './http';
+import { createServicesFromEnv } from './services';
+import { createGatewayFromEnv } from './gateway';
+
+const PORT = Number(process.env.PORT ?? 3000);
+const DIST_DIR = path.resolve(process.cwd(), 'dist');
+
+const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+const services = createServicesFromEnv();
+const gateway = createGatewayFromEnv(process.env, { requireTokens: true });
+const handleGeneration = createGenerationHandler(() => services, () => gateway);
+const handleProviders = createProvidersHandler(() => services, () => gateway);
+
+function serveStatic(urlPath: string, res: ServerResponse) {
+    // Static files, falling back to index.html for client-side routes (mirrors vercel.json).
+    let filePath = path.join(DIST_DIR, path.normalize(urlPath));
+    if (!filePath.startsWith(DIST_DIR + path.sep) || !existsSync(filePath) || statSync(filePath).isDirectory()) {
+        filePath = path.join(DIST_DIR, 'index.html');
+    }
+    if (!existsSync(filePath)) {
+        sendJsonError(res, 404, 'Not found. Run `npm run build` to serve the app.');
+        return;
+    }
+    res.setHeader('Content-Type', MIME_TYPES[path.extname(filePath)] ?? 'application/octet-stream');
+    createReadStream(filePath)
+        .on('error', e => {
+            console.error(`Failed to read ${filePath}:`, e);
+            if (!res.headersSent) sendJsonError(res, 500, 'Internal server error.');
+            else res.end();
+        })
+        .pipe(res);
+}
+
+const server = createServer((req, res) => {
+    let urlPath: string;
+    try {
+        urlPath = decodeURIComponent(req.url?.split('?')[0] ?? '/');
+    } catch {
+        // A malformed escape such as `/%E0`.
+        sendJsonError(res, 400, 'Bad request URL.');
+        return;
+    }
+
+    if (GENERATION_ROUTES.includes(urlPath) || urlPath === PROVIDERS_ROUTE) {
+        const handle = urlPath === PROVIDERS_ROUTE ? handleProviders : handleGeneration;
+        handle(req, res).catch(e => {
+            console.error(`Unhandled error in ${urlPath} handler:`, e);
+            if (!res.headersSent) sendJsonError(res, 500, 'Internal server error.');
+            else res.end();
+        });
+        return;
+    }
+
+    try {
+        serveStatic(urlPath, res);
+    } catch (e) {
+        console.error(`Failed to serve ${urlPath}:`, e);
+        if (!res.headersSent) sendJsonError(res, 500, 'Internal server error.');
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`AI Motion Studio server listening on http://localhost:${PORT} (storyboards: ${services.storyboards.providers.map(({ name }) => name).join(', ')}, default ${services.storyboards.defaultProvider}, speech: ${services.tts.name}, access: ${gateway.requiresToken ? 'tokens' : 'open'})`);
+});
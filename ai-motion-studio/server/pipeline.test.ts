@@ -0,0 +1,139 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { GenerationConfig, GenerationEvent, GenerationRequest, StoryboardIssue } from '../types';
+import { getTotalDuration } from '../lib/timing';
+import { runGeneration } from './pipeline';
+import { createFixtureProvider, createMockProvider, createStoryboardCatalog, type StoryboardProvider } from './providers';
+import { createToneTtsProvider } from './tts';
+import { createPlaceholderImageProvider } from './images';
+import type { GenerationServices } from './services';
+
+const config = (overrides: Partial<GenerationConfig> = {}): GenerationConfig => ({
+    duration: 9,
+    aspectRatio: '16:9',
+    generateNarration: false,
+    textColor: '#FFFFFF',
+    transparentBackground: false,
+    ...overrides,
+});
+
+const servicesWith = (provider: StoryboardProvider): GenerationServices => ({
+    storyboards: createStoryboardCatalog([{
+        info: { name: provider.name, label: provider.name, models: [provider.model], defaultModel: provider.model },
+        create: () => provider,
+    }], provider.name),
+    tts: createToneTtsProvider(),
+    images: createPlaceholderImageProvider(),
+});
+
+async function generate(request: GenerationRequest, provider: StoryboardProvider, signal?: AbortSignal) {
+    const events: GenerationEvent[] = [];
+    await runGeneration(request, servicesWith(provider), event => events.push(event), signal);
+    return events;
+}
+
+const progressOf = (events: GenerationEvent[]) => events.flatMap(event => event.type === 'progress' ? [event.data] : []);
+
+describe('runGeneration with the mock provider', () => {
+    it('reports progress, then the video fitted to the requested duration', async () => {
+        const events = await generate({ prompt: 'Launch teaser for "Nimbus"', config: config({ duration: 9 }) }, createMockProvider());
+
+        expect(events.map(event => event.type)).toEqual(['progress', 'progress', 'progress', 'result']);
+        expect(progressOf(events).map(({ step, totalSteps }) => `${step}/${totalSteps}`)).toEqual(['1/3', '2/3', '3/3']);
+        const result = events[events.length - 1];
+        if (result.type !== 'result') throw new Error('expected a result');
+        expect(result.data.scenes).toHaveLength(3);
+        expect(getTotalDuration(result.data)).toBeCloseTo(9, 1);
+        expect(result.data.generation).toMatchObject({ provider: 'mock', model: 'mock-storyboard' });
+    });
+
+    it('records narration with the tone voice without the progress going back', async () => {
+        const events = await generate({ prompt: 'Launch teaser for "Nimbus"', config: config({ duration: 6, generateNarration: true }) }, createMockProvider());
+
+        const progress = progressOf(events);
+        expect(progress.map(({ step, totalSteps }) => `${step}/${totalSteps}`)).toEqual(['1/3', '2/3', '3/5', '4/5', '5/5']);
+        expect(progress.slice(-2).map(({ message }) => message)).toEqual(['Recording narration 1 of 2...', 'Recording narration 2 of 2...']);
+        const result = events[events.length - 1];
+        if (result.type !== 'result') throw new Error('expected a result');
+        expect(result.data.narration).toEqual(['Introducing Nimbus.', 'Part 2.']);
+        // The tone voice takes as long as the line would to read, at least half a second.
+        expect(result.data.narrationAudio?.map(clip => clip?.durationInSeconds)).toEqual([0.8, 0.8]);
+        expect(result.data.narrationAudio?.every(clip => clip?.src.startsWith('data:audio/wav;base64,'))).toBe(true);
+    });
+
+    it('stops without another event once the signal is aborted', async () => {
+        const controller = new AbortController();
+        const events: GenerationEvent[] = [];
+        await runGeneration({ prompt: 'Nimbus', config: config() }, servicesWith(createMockProvider({ delayMs: 50 })), event => {
+            events.push(event);
+            controller.abort();
+        }, controller.signal);
+
+        expect(events.map(event => event.type)).toEqual(['progress']);
+    });
+});
+
+describe('runGeneration with a fixture', () => {
+    let dir: string;
+    beforeAll(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'pipeline-test-'));
+    });
+    afterAll(() => rm(dir, { recursive: true, force: true }));
+
+    // Counts the calls to a provider and records the issues each re-ask was given.
+    const recording = (provider: StoryboardProvider) => {
+        const asked: (StoryboardIssue[] | undefined)[] = [];
+        return {
+            asked,
+            provider: { ...provider, generateStoryboard: (request: GenerationRequest, issues?: StoryboardIssue[], signal?: AbortSignal) => {
+                asked.push(issues);
+                return provider.generateStoryboard(request, issues, signal);
+            } },
+        };
+    };
+
+    it('replays the recorded storyboard', async () => {
+        const file = path.join(dir, 'storyboard.json');
+        await writeFile(file, JSON.stringify({ scenes: [{ animation_elements: [{ id: 'title', type: 'text', text: 'Hello', keyframes: [] }] }] }));
+
+        const events = await generate({ prompt: 'anything', config: config({ duration: 5 }) }, createFixtureProvider(file));
+        const result = events[events.length - 1];
+        if (result.type !== 'result') throw new Error('expected a result');
+        expect(result.data.scenes.map(scene => scene.animationElements.map(el => el.text))).toEqual([['Hello']]);
+        expect(getTotalDuration(result.data)).toBeCloseTo(5, 1);
+    });
+
+    it('asks once more after bad JSON, then reports the issues', async () => {
+        const file = path.join(dir, 'broken.json');
+        await writeFile(file, '{ "scenes": [');
+        const { provider, asked } = recording(createFixtureProvider(file));
+
+        const events = await generate({ prompt: 'anything', config: config() }, provider);
+
+        expect(asked).toEqual([undefined, [{ path: '', message: 'the response is not valid JSON', severity: 'fatal' }]]);
+        expect(progressOf(events).map(({ step, totalSteps, message }) => `${step}/${totalSteps} ${message}`)).toEqual([
+            '1/3 Planning the storyboard with broken.json...',
+            '2/3 Reading the storyboard...',
+            '3/5 The storyboard had problems; asking broken.json to fix them...',
+            '4/5 Reading the storyboard...',
+        ]);
+        expect(events[events.length - 1]).toEqual({
+            type: 'error',
+            data: 'The model returned an unusable storyboard: the response is not valid JSON',
+            issues: [{ path: '', message: 'the response is not valid JSON', severity: 'fatal' }],
+        });
+    });
+
+    it('reports a missing file as an error without a re-ask', async () => {
+        const { provider, asked } = recording(createFixtureProvider(path.join(dir, 'missing.json')));
+
+        const events = await generate({ prompt: 'anything', config: config() }, provider);
+
+        expect(asked).toHaveLength(1);
+        const error = events[events.length - 1];
+        expect(error.type).toBe('error');
+        expect(error.type === 'error' && error.data).toMatch(/^Could not read the storyboard fixture/);
+    });
+});
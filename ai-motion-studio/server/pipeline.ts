@@ -0,0 +1,160 @@
+/**
+ * @file server/pipeline.ts
+ * @description The server-side generation pipeline. It drives a storyboard provider and reports
+ * each step as a `GenerationEvent`, ending with either a `result` or an `error` event.
+ */
+
+import type { AspectRatio, GenerationEvent, GenerationRequest, NarrationClip, StoryboardIssue, VideoResult } from '../types';
+import { fitSceneDurations } from '../lib/timing';
+import { formatIssue, normalizeStoryboard, StoryboardValidationError } from '../lib/validation';
+import type { GenerationServices } from './services';
+
+export type EmitEvent = (event: GenerationEvent) => void;
+
+// How many times the model is re-asked after returning a storyboard that fails validation.
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Parses the model's text output, tolerating markdown code fences around the JSON.
+ */
+export function parseStoryboardText(text: string): unknown {
+    const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        throw new StoryboardValidationError([{ path: '', message: 'the response is not valid JSON', severity: 'fatal' }]);
+    }
+}
+
+/**
+ * Validates the model's storyboard and maps it onto the `VideoResult` the player renders.
+ * Throws a `StoryboardValidationError` when the storyboard can't be repaired.
+ */
+export function toVideoResult(storyboard: unknown, { config }: GenerationRequest): { result: VideoResult; issues: StoryboardIssue[] } {
+    const { scenes, narration, issues } = normalizeStoryboard(storyboard);
+    if (issues.some(issue => issue.severity === 'fatal')) {
+        throw new StoryboardValidationError(issues);
+    }
+
+    const result: VideoResult = {
+        // The model's durations are a suggestion; scale them so the video runs exactly as long as requested.
+        scenes: fitSceneDurations(scenes, config.duration),
+        duration: config.duration,
+        narration: config.generateNarration ? narration : undefined,
+        aspectRatio: config.aspectRatio,
+        textColor: config.textColor,
+        transparentBackground: config.transparentBackground,
+        backgroundColor: config.backgroundColor,
+    };
+    return { result, issues };
+}
+
+const toDataUrl = (bytes: Uint8Array, mimeType: string) => `data:${mimeType};base64,${Buffer.from(bytes).toString('base64')}`;
+
+/**
+ * Runs a generation request, reporting each step through `emit`. Aborting `signal` (the client went away)
+ * stops before the next step and cancels the model call in flight; nothing more is emitted after that.
+ */
+export async function runGeneration(request: GenerationRequest, { storyboards: catalog, tts, images }: GenerationServices, emit: EmitEvent, signal?: AbortSignal): Promise<void> {
+    // Planning, reading and assembling. A re-ask adds two steps, and images and narration one each; they are
+    // counted before assembling is reported, so the bar never reaches the end and then falls back.
+    let totalSteps = 3;
+    let step = 0;
+    const progress = (message: string) => {
+        signal?.throwIfAborted();
+        emit({ type: 'progress', data: { step: ++step, totalSteps, message } });
+    };
+
+    try {
+        const storyboards = catalog.select(request.config.provider, request.config.model);
+        progress(`${request.previous ? 'Revising' : 'Planning'} the storyboard with ${storyboards.model}...`);
+        let text = await storyboards.generateStoryboard(request, undefined, signal);
+
+        // An unusable storyboard gets the model a second chance, with the problems spelled out.
+        let result: VideoResult;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                progress('Reading the storyboard...');
+                const storyboard = parseStoryboardText(text);
+                const validated = toVideoResult(storyboard, request);
+                result = validated.result;
+                if (validated.issues.length > 0) {
+                    console.warn(`Repaired ${validated.issues.length} storyboard issue(s):`, validated.issues.map(formatIssue));
+                }
+                break;
+            } catch (e) {
+                if (!(e instanceof StoryboardValidationError) || attempt >= MAX_REPAIR_ATTEMPTS) throw e;
+                console.warn('Unusable storyboard, asking again:', e.message);
+                totalSteps += 2;
+                progress(`The storyboard had problems; asking ${storyboards.model} to fix them...`);
+                text = await storyboards.generateStoryboard(request, e.issues, signal);
+            }
+        }
+        result.generation = { provider: storyboards.name, model: storyboards.model, createdAt: new Date().toISOString() };
+
+        // Background images (a transparent video has no background to fill) and image elements. As with
+        // narration, prompts the previous version already had are skipped and carried over by the client.
+        // A failed image leaves the scene on its background color, or the element out, rather than
+        // failing the whole video.
+        const drawn = new Set(request.previous?.scenes.flatMap(scene => [scene.imagePrompt, ...scene.animationElements.map(el => el.imagePrompt)]));
+        const jobs: { prompt: string; aspectRatio: AspectRatio; apply: (url: string) => void }[] = [];
+        result.scenes.forEach(scene => {
+            if (scene.imagePrompt && !drawn.has(scene.imagePrompt) && !request.config.transparentBackground) {
+                jobs.push({ prompt: scene.imagePrompt, aspectRatio: result.aspectRatio, apply: url => { scene.imageUrl = url; } });
+            }
+            scene.animationElements.forEach(element => {
+                if (element.type === 'image' && element.imagePrompt && !element.src && !drawn.has(element.imagePrompt)) {
+                    jobs.push({ prompt: element.imagePrompt, aspectRatio: '1:1', apply: url => { element.src = url; } });
+                }
+            });
+        });
+
+        // One clip per scene; scenes without a line stay silent. When refining, lines the previous
+        // version already had are left null: the client still holds their audio and carries it over.
+        const lines = (result.narration ?? []).slice(0, result.scenes.length);
+        const recorded = new Set(request.previous?.narration ?? []);
+        const narrate = lines.some(Boolean);
+
+        totalSteps += jobs.length + (narrate ? lines.length : 0);
+        progress('Assembling scenes...');
+
+        for (let i = 0; i < jobs.length; i++) {
+            progress(`Generating image ${i + 1} of ${jobs.length}...`);
+            try {
+                const image = await images.generate(jobs[i].prompt, jobs[i].aspectRatio, signal);
+                jobs[i].apply(toDataUrl(image.data, image.mimeType));
+            } catch (e) {
+                if (signal?.aborted) throw e;
+                console.warn(`Image generation failed for "${jobs[i].prompt}":`, e);
+            }
+        }
+
+        if (narrate) {
+            const clips: (NarrationClip | null)[] = [];
+            for (let i = 0; i < lines.length; i++) {
+                progress(`Recording narration ${i + 1} of ${lines.length}...`);
+                if (!lines[i].trim() || recorded.has(lines[i])) {
+                    clips.push(null);
+                    continue;
+                }
+                const clip = await tts.synthesize(lines[i], signal);
+                clips.push({ src: toDataUrl(clip.audio, clip.mimeType), durationInSeconds: clip.durationInSeconds });
+            }
+            result.narrationAudio = clips;
+        }
+
+        signal?.throwIfAborted();
+        emit({ type: 'result', data: result });
+    } catch (e) {
+        if (signal?.aborted) {
+            console.log('Generation cancelled: the client went away.');
+            return;
+        }
+        console.error('Generation failed:', e);
+        emit({
+            type: 'error',
+            data: (e as Error).message || 'Unknown error during generation.',
+            issues: e instanceof StoryboardValidationError ? e.issues : undefined,
+        });
+    }
+}
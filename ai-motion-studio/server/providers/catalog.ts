@@ -0,0 +1,55 @@
+import type { StoryboardProviderInfo } from '../../types';
+import type { StoryboardProvider } from './types';
+
+export class ProviderSelectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProviderSelectionError';
+    }
+}
+
+export interface CatalogEntry {
+    info: StoryboardProviderInfo;
+    create(model: string): StoryboardProvider;
+}
+
+/**
+ * The storyboard providers this server offers, so each request can pick one. Only listed models can be picked:
+ * the list is what the server is willing to pay for.
+ */
+export interface StoryboardCatalog {
+    readonly providers: StoryboardProviderInfo[];
+    readonly defaultProvider: string;
+    /** The provider and model a request asked for, filling in defaults. Throws a `ProviderSelectionError` for ones not offered. */
+    select(provider?: string, model?: string): StoryboardProvider;
+}
+
+export function createStoryboardCatalog(entries: CatalogEntry[], defaultProvider: string): StoryboardCatalog {
+    if (!entries.some(entry => entry.info.name === defaultProvider)) {
+        throw new Error(`The default storyboard provider "${defaultProvider}" is not in the catalog.`);
+    }
+    // Providers hold clients, so one instance per model is shared by every request.
+    const instances = new Map<string, StoryboardProvider>();
+
+    return {
+        providers: entries.map(entry => entry.info),
+        defaultProvider,
+        select(provider = defaultProvider, model) {
+            const entry = entries.find(candidate => candidate.info.name === provider);
+            if (!entry) {
+                throw new ProviderSelectionError(`Unknown storyboard provider "${provider}". Available: ${entries.map(candidate => candidate.info.name).join(', ')}.`);
+            }
+            const chosen = model ?? entry.info.defaultModel;
+            if (!entry.info.models.includes(chosen)) {
+                throw new ProviderSelectionError(`"${chosen}" is not offered by ${entry.info.label}. Available: ${entry.info.models.join(', ')}.`);
+            }
+            const key = `${provider}\n${chosen}`;
+            let instance = instances.get(key);
+            if (!instance) {
+                instance = entry.create(chosen);
+                instances.set(key, instance);
+            }
+            return instance;
+        },
+    };
+}
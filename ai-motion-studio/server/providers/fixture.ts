@@ -0,0 +1,23 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { StoryboardProvider } from './types';
+
+/**
+ * Replays a recorded storyboard from a JSON file, in the format the model returns. Unlike the mock it gives
+ * exactly the storyboard under test, so CI renders are reproducible without a model. The file is read on each
+ * request, and goes through the same validation as a model response.
+ */
+export function createFixtureProvider(file: string): StoryboardProvider {
+    return {
+        name: 'fixture',
+        model: path.basename(file),
+        async generateStoryboard(_request, _issues, signal) {
+            try {
+                return await readFile(file, { encoding: 'utf8', signal });
+            } catch (e) {
+                if (signal?.aborted) throw e;
+                throw new Error(`Could not read the storyboard fixture "${file}": ${(e as Error).message}`);
+            }
+        },
+    };
+}
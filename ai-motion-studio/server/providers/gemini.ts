@@ -0,0 +1,30 @@
+import { GoogleGenAI } from '@google/genai';
+import { buildStoryboardPrompt, storyboardSchema, systemInstruction } from '../../lib/storyboard';
+import type { StoryboardProvider } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export function createGeminiProvider(apiKey: string, model: string = DEFAULT_GEMINI_MODEL): StoryboardProvider {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+        model,
+        async generateStoryboard(request, issues, signal) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: buildStoryboardPrompt(request, issues),
+                config: {
+                    systemInstruction,
+                    responseMimeType: 'application/json',
+                    responseSchema: storyboardSchema,
+                    abortSignal: signal,
+                },
+            });
+            if (!response.text) {
+                throw new Error('The model returned an empty response.');
+            }
+            return response.text;
+        },
+    };
+}
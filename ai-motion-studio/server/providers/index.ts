@@ -0,0 +1,76 @@
+import path from 'path';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './gemini';
+import { createMockProvider } from './mock';
+import { createFixtureProvider } from './fixture';
+import { createOpenAICompatibleProvider } from './openai';
+import { createStoryboardCatalog, ProviderSelectionError, type CatalogEntry, type StoryboardCatalog } from './catalog';
+
+export type { StoryboardProvider } from './types';
+export type { CatalogEntry, StoryboardCatalog } from './catalog';
+export { createGeminiProvider, createMockProvider, createFixtureProvider, createOpenAICompatibleProvider, createStoryboardCatalog, ProviderSelectionError };
+
+// Model lists are comma-separated; the default model always comes first.
+const modelList = (defaultModel: string, value: string | undefined, fallback: string[] = []) =>
+    [...new Set([defaultModel, ...(value ? value.split(',') : fallback).map(model => model.trim()).filter(Boolean)])];
+
+/**
+ * Offers every storyboard provider the environment configures:
+ * - Gemini when `GEMINI_API_KEY` is set (`GEMINI_MODEL` is the default, `GEMINI_MODELS` the others offered).
+ * - An OpenAI-compatible server when `OPENAI_BASE_URL` is set (`OPENAI_API_KEY`, `OPENAI_MODEL`, `OPENAI_MODELS`).
+ * - The storyboard in `STORYBOARD_FIXTURE`, replayed.
+ * - The offline mock, always.
+ *
+ * `STORYBOARD_PROVIDER` picks the default; otherwise it's the first configured of Gemini, the OpenAI-compatible
+ * server and the mock.
+ */
+export function createStoryboardCatalogFromEnv(env: Record<string, string | undefined> = process.env): StoryboardCatalog {
+    const entries: CatalogEntry[] = [];
+
+    const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+    if (apiKey) {
+        const defaultModel = env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL;
+        entries.push({
+            info: { name: 'gemini', label: 'Gemini', models: modelList(defaultModel, env.GEMINI_MODELS, ['gemini-2.5-pro', 'gemini-2.5-flash-lite']), defaultModel },
+            create: model => createGeminiProvider(apiKey, model),
+        });
+    }
+
+    if (env.OPENAI_BASE_URL) {
+        const defaultModel = env.OPENAI_MODEL;
+        if (!defaultModel) throw new Error('OPENAI_BASE_URL needs OPENAI_MODEL set to the model to use.');
+        const baseUrl = env.OPENAI_BASE_URL;
+        entries.push({
+            info: { name: 'openai', label: env.OPENAI_LABEL || 'OpenAI-compatible', models: modelList(defaultModel, env.OPENAI_MODELS), defaultModel },
+            create: model => createOpenAICompatibleProvider({ baseUrl, apiKey: env.OPENAI_API_KEY, model }),
+        });
+    }
+
+    if (env.STORYBOARD_FIXTURE) {
+        const file = env.STORYBOARD_FIXTURE;
+        entries.push({
+            info: { name: 'fixture', label: 'Fixture', models: [path.basename(file)], defaultModel: path.basename(file) },
+            create: () => createFixtureProvider(file),
+        });
+    }
+
+    const mock = createMockProvider({ delayMs: Number(env.MOCK_PROVIDER_DELAY_MS ?? 400) });
+    entries.push({
+        info: { name: 'mock', label: 'Offline mock', models: [mock.model], defaultModel: mock.model },
+        create: () => mock,
+    });
+
+    const requested = env.STORYBOARD_PROVIDER;
+    if (requested === 'fixture' && !env.STORYBOARD_FIXTURE) {
+        throw new Error('STORYBOARD_PROVIDER=fixture needs STORYBOARD_FIXTURE set to a storyboard JSON file.');
+    }
+    if (requested === 'openai' && !env.OPENAI_BASE_URL) {
+        throw new Error('STORYBOARD_PROVIDER=openai needs OPENAI_BASE_URL set to the server, e.g. http://localhost:11434/v1.');
+    }
+    const defaultProvider = entries.some(entry => entry.info.name === requested) ? requested!
+        // The fixture is only ever the default when asked for.
+        : entries.find(entry => entry.info.name !== 'fixture')!.info.name;
+    if (defaultProvider === 'mock' && requested !== 'mock') {
+        console.warn('Neither GEMINI_API_KEY nor OPENAI_BASE_URL is set, falling back to the mock storyboard provider.');
+    }
+    return createStoryboardCatalog(entries, defaultProvider);
+}
@@ -0,0 +1,130 @@
+import { setTimeout as delay } from 'timers/promises';
+import type { GenerationRequest } from '../../types';
+import { toStoryboard } from '../../lib/storyboard';
+import type { StoryboardProvider } from './types';
+
+interface MockProviderOptions {
+    // Simulated model latency, so progress events are visible in the UI during development.
+    delayMs?: number;
+}
+
+// Prefer quoted copy ("Nexus", 'THE VOID'), fall back to the first few words of the prompt.
+const extractTitle = (prompt: string) => {
+    const quoted = prompt.match(/["'“]([^"'”]{1,40})["'”]/);
+    if (quoted) return quoted[1];
+    const words = prompt.trim().split(/\s+/).slice(0, 4).join(' ');
+    return words || 'Untitled';
+};
+
+const titleScene = (title: string, textColor: string, logo?: string) => ({
+    animationElements: [
+        ...(logo ? [{
+            id: 'logo',
+            type: 'logo',
+            logo,
+            keyframes: [
+                { at: 0, style: { width: '12vw', height: '12vw', opacity: 0, transform: 'translateY(-25vh) scale(0.8)' }, easing: 'ease-out-back' },
+                { at: 0.3, style: { opacity: 1, transform: 'translateY(-22vh) scale(1)' } },
+            ],
+        }] : []),
+        {
+            id: 'title',
+            type: 'text',
+            text: title,
+            textAnimation: {
+                split: 'chars',
+                stagger: 0.03,
+                direction: 'center',
+                keyframes: [
+                    { at: 0, style: { opacity: 0, transform: 'translateY(40px)', filter: 'blur(10px)' }, easing: 'ease-out-cubic' },
+                    { at: 0.3, style: { opacity: 1, transform: 'translateY(0px)', filter: 'blur(0px)' } },
+                ],
+            },
+            keyframes: [
+                { at: 0, style: { transform: 'scale(0.9)', color: textColor }, easing: 'ease-out-cubic' },
+                { at: 0.4, style: { transform: 'scale(1)' } },
+                { at: 1, style: { transform: 'translateY(-10px) scale(1.05)' } },
+            ],
+        },
+        {
+            id: 'underline',
+            type: 'shape',
+            shape: 'rectangle',
+            keyframes: [
+                { at: 0.2, style: { width: '0%', height: '4px', backgroundColor: textColor, opacity: 0 }, easing: 'ease-in-out' },
+                { at: 0.6, style: { width: '30%', opacity: 1, transform: 'translateY(60px)' } },
+                { at: 1, style: { width: '30%', opacity: 1, transform: 'translateY(60px)' } },
+            ],
+        },
+    ],
+    camera_animation: [
+        { at: 0, style: {}, camera: { z: 250 }, easing: 'ease-out-cubic' },
+        { at: 1, style: {}, camera: { z: 0 } },
+    ],
+    image_prompt: null,
+    background_color: '#0b1020',
+    transition: { type: 'iris', duration: 0.8, easing: 'ease-in-out-cubic' },
+});
+
+const shapeScene = (index: number, textColor: string) => ({
+    animationElements: [
+        {
+            id: `orb-${index}`,
+            type: 'shape',
+            shape: 'circle',
+            z: 600,
+            keyframes: [
+                { at: 0, style: { width: '20vw', height: '20vw', backgroundColor: '#6366f1', opacity: 0, transform: 'translateX(-30vw) scale(0.5)' }, easing: 'spring(1, 12, 120)' },
+                { at: 0.5, style: { opacity: 0.8, transform: 'translateX(0vw) scale(1)' }, easing: 'ease-in' },
+                { at: 1, style: { opacity: 0, transform: 'translateX(30vw) scale(1.4)', backgroundColor: '#a855f7' } },
+            ],
+        },
+        {
+            id: `caption-${index}`,
+            type: 'text',
+            text: `Part ${index + 1}`,
+            keyframes: [
+                { at: 0, style: { opacity: 0, color: textColor, transform: 'translateY(20vh)' }, easing: 'ease-out-back' },
+                { at: 0.3, style: { opacity: 1, transform: 'translateY(15vh)' } },
+                { at: 1, style: { opacity: 1, transform: 'translateY(15vh)' } },
+            ],
+        },
+    ],
+    camera_animation: [
+        { at: 0, style: { transform: 'rotate(-2deg)' }, camera: { x: -5, focus: 0, aperture: 1 } },
+        { at: 1, style: { transform: 'rotate(2deg)' }, camera: { x: 5 } },
+    ],
+    image_prompt: null,
+    background_color: index % 2 === 0 ? '#111827' : '#1e1b4b',
+    transition: index % 2 === 0 ? { type: 'wipe-left', duration: 0.6, easing: 'ease-out-cubic' } : { type: 'slide-up', duration: 0.7, easing: 'ease-in-out-quart' },
+});
+
+/**
+ * Builds a deterministic storyboard from the request so dev servers and tests can run without a model.
+ * One scene per ~3 seconds of requested duration: a title reveal followed by shape scenes.
+ */
+export function buildMockStoryboard({ prompt, config }: GenerationRequest) {
+    const sceneCount = Math.max(1, Math.round(config.duration / 3));
+    const scenes: object[] = [titleScene(extractTitle(prompt), config.textColor, config.brand?.logos[0])];
+    for (let i = 1; i < sceneCount; i++) {
+        scenes.push(shapeScene(i, config.textColor));
+    }
+    const narration = config.generateNarration
+        ? scenes.map((_, i) => i === 0 ? `Introducing ${extractTitle(prompt)}.` : `Part ${i + 1}.`)
+        : undefined;
+    return { scenes, narration };
+}
+
+export function createMockProvider({ delayMs = 0 }: MockProviderOptions = {}): StoryboardProvider {
+    return {
+        name: 'mock',
+        model: 'mock-storyboard',
+        async generateStoryboard(request, _issues, signal) {
+            if (delayMs > 0) {
+                await delay(delayMs, undefined, { signal });
+            }
+            // Refinements echo the current storyboard, so follow-up turns round-trip without a model.
+            return JSON.stringify(request.previous ? toStoryboard(request.previous) : buildMockStoryboard(request));
+        },
+    };
+}
@@ -0,0 +1,59 @@
+import { buildStoryboardPrompt, schemaInstruction, systemInstruction } from '../../lib/storyboard';
+import type { StoryboardProvider } from './types';
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string; // e.g. https://api.openai.com/v1, or http://localhost:11434/v1 for a local server
+    apiKey?: string; // Local servers usually need none
+    model: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Any server that speaks the OpenAI chat completions API. Not every such server supports response schemas, so
+ * JSON mode is requested and the schema travels in the prompt, as `schemaInstruction`.
+ */
+export function createOpenAICompatibleProvider({ baseUrl, apiKey, model }: OpenAICompatibleOptions): StoryboardProvider {
+    const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    return {
+        name: 'openai',
+        model,
+        async generateStoryboard(request, issues, signal) {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model,
+                    messages: [
+                        { role: 'system', content: systemInstruction },
+                        { role: 'user', content: `${buildStoryboardPrompt(request, issues)}\n\n${schemaInstruction}` },
+                    ],
+                    response_format: { type: 'json_object' },
+                }),
+                signal,
+            });
+            if (!response.ok) {
+                const body = await response.text();
+                let message = body;
+                try {
+                    message = JSON.parse(body).error?.message ?? body;
+                } catch {
+                    // Not JSON; report the body as it is.
+                }
+                throw new Error(`The model server at ${baseUrl} answered ${response.status}: ${message.slice(0, 300)}`);
+            }
+
+            const data: unknown = await response.json();
+            const choice = isObject(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+            const text = isObject(choice) && isObject(choice.message) ? choice.message.content : undefined;
+            if (typeof text !== 'string' || !text.trim()) {
+                throw new Error('The model returned an empty response.');
+            }
+            return text;
+        },
+    };
+}
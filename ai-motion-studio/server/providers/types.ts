@@ -0,0 +1,13 @@
+import type { GenerationRequest, StoryboardIssue } from '../../types';
+
+/**
+ * A model that turns a generation request into a raw storyboard.
+ * Providers return the model's JSON text untouched; parsing and mapping to `VideoResult` happens in the pipeline.
+ */
+export interface StoryboardProvider {
+    readonly name: string;
+    readonly model: string;
+    // `issues` is set when re-asking after a storyboard that failed validation. `signal` aborts the call when
+    // the client goes away.
+    generateStoryboard(request: GenerationRequest, issues?: StoryboardIssue[], signal?: AbortSignal): Promise<string>;
+}
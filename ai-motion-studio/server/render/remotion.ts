@@ -0,0 +1,101 @@
+/**
+ * @file server/render/remotion.ts
+ * @description Renders a `VideoResult` to a file with headless Chrome, through `@remotion/bundler` and
+ * `@remotion/renderer`. The output extension picks the codec.
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { bundle } from '@remotion/bundler';
+import { ensureBrowser, makeCancelSignal, renderMedia, selectComposition, type ChromeMode, type Codec } from '@remotion/renderer';
+import type { VideoResult } from '../../types';
+
+// Kept in sync with root.tsx, which can't be imported here: it registers itself as the bundle's entry point.
+const COMPOSITION_ID = 'Animation';
+const ENTRY_POINT = path.join(path.dirname(fileURLToPath(import.meta.url)), 'root.tsx');
+
+export const CODECS: Record<string, Codec> = {
+    '.mp4': 'h264',
+    '.webm': 'vp9',
+    '.mov': 'prores',
+    '.gif': 'gif',
+};
+
+export interface RenderProgress {
+    stage: 'downloading-browser' | 'bundling' | 'rendering';
+    progress: number; // 0-1
+    frame?: number;
+    totalFrames?: number;
+}
+
+export interface RenderOptions {
+    onProgress?: (progress: RenderProgress) => void;
+    concurrency?: number | null; // Browser tabs rendering in parallel; Remotion picks from the CPU count by default
+    signal?: AbortSignal;
+    // A local Chrome to render with; otherwise Remotion downloads its headless shell on first use.
+    browserExecutable?: string;
+}
+
+export const codecForOutput = (output: string): Codec | undefined => CODECS[path.extname(output).toLowerCase()];
+
+/**
+ * Only these keep an alpha channel; the other codecs render a transparent background as black.
+ */
+export const supportsTransparency = (codec: Codec) => codec === 'vp9' || codec === 'prores';
+
+// Full Chrome builds no longer have the old headless mode that Remotion's headless shell provides.
+const chromeModeFor = (executable: string): ChromeMode => path.basename(executable).includes('headless_shell') ? 'headless-shell' : 'chrome-for-testing';
+
+/**
+ * Renders the video to `output`. Resolves with the rendered frame count.
+ */
+export async function renderVideo(videoResult: VideoResult, output: string, { onProgress, concurrency, signal, browserExecutable }: RenderOptions = {}): Promise<number> {
+    const codec = codecForOutput(output);
+    if (!codec) throw new Error(`Can't render to "${output}": use one of ${Object.keys(CODECS).join(', ')}.`);
+    const browser = browserExecutable ? { browserExecutable, chromeMode: chromeModeFor(browserExecutable) } : {};
+    // Fetches the browser up front, reporting the download as progress instead of Remotion's console output.
+    await ensureBrowser({
+        ...browser,
+        onBrowserDownload: () => ({
+            version: null,
+            onProgress: ({ percent }) => onProgress?.({ stage: 'downloading-browser', progress: percent }),
+        }),
+    });
+
+    const serveUrl = await bundle({
+        entryPoint: ENTRY_POINT,
+        onProgress: percent => onProgress?.({ stage: 'bundling', progress: percent / 100 }),
+    });
+
+    const inputProps = { videoResult };
+    const composition = await selectComposition({ serveUrl, id: COMPOSITION_ID, inputProps, ...browser });
+    const transparent = videoResult.transparentBackground && supportsTransparency(codec);
+
+    const { cancelSignal, cancel } = makeCancelSignal();
+    signal?.addEventListener('abort', cancel, { once: true });
+    try {
+        await renderMedia({
+            serveUrl,
+            composition,
+            ...browser,
+            inputProps,
+            codec,
+            outputLocation: output,
+            concurrency: concurrency ?? null,
+            cancelSignal,
+            // Transparent frames need PNG screenshots and a pixel format with alpha.
+            imageFormat: transparent ? 'png' : 'jpeg',
+            pixelFormat: transparent ? (codec === 'prores' ? 'yuva444p10le' : 'yuva420p') : undefined,
+            proResProfile: codec === 'prores' ? (transparent ? '4444' : 'hq') : undefined,
+            onProgress: ({ renderedFrames, progress }) => onProgress?.({
+                stage: 'rendering',
+                progress,
+                frame: renderedFrames,
+                totalFrames: composition.durationInFrames,
+            }),
+        });
+    } finally {
+        signal?.removeEventListener('abort', cancel);
+    }
+    return composition.durationInFrames;
+}
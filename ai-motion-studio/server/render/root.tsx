@@ -0,0 +1,49 @@
+/**
+ * @file server/render/root.tsx
+ * @description The Remotion entry point for server-side renders. It registers the same `Animation`
+ * composition the in-browser player shows, sized and timed from the `videoResult` input prop. The app's font
+ * (Inter, from index.css) is bundled and loaded before any frame renders, so renders match the preview.
+ */
+
+import '@fontsource/inter/400.css';
+import '@fontsource/inter/700.css';
+import React from 'react';
+import { AbsoluteFill, cancelRender, Composition, continueRender, delayRender, registerRoot } from 'remotion';
+import type { VideoResult } from '../../types';
+import { Animation, getDimensions } from '../../components/VideoPlayer';
+import { FPS, getDurationInFrames } from '../../lib/timing';
+
+// `server/render/remotion.ts` renders the composition by this id.
+const COMPOSITION_ID = 'Animation';
+
+// Replaced by the input props on every render; only the Remotion Studio would show it.
+const EMPTY_VIDEO: VideoResult = { scenes: [], aspectRatio: '16:9', textColor: '#FFFFFF', transparentBackground: false };
+
+const fontHandle = delayRender('Loading the Inter font');
+Promise.all(['400 1em Inter', '700 1em Inter'].map(font => document.fonts.load(font)))
+    .then(() => continueRender(fontHandle), cancelRender);
+
+// The base text style index.css gives the app, which the preview inherits and the in-browser exporter sets.
+const RenderedAnimation: React.FC<{ videoResult: VideoResult }> = ({ videoResult }) => (
+    <AbsoluteFill style={{ fontFamily: 'Inter, sans-serif' }}>
+        <Animation videoResult={videoResult} />
+    </AbsoluteFill>
+);
+
+const RenderRoot: React.FC = () => (
+    <Composition
+        id={COMPOSITION_ID}
+        component={RenderedAnimation}
+        fps={FPS}
+        durationInFrames={1}
+        width={1280}
+        height={720}
+        defaultProps={{ videoResult: EMPTY_VIDEO }}
+        calculateMetadata={({ props }: { props: { videoResult: VideoResult } }) => ({
+            durationInFrames: getDurationInFrames(props.videoResult),
+            ...getDimensions(props.videoResult.aspectRatio),
+        })}
+    />
+);
+
+registerRoot(RenderRoot);
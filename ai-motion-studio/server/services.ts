@@ -0,0 +1,20 @@
+import { createStoryboardCatalogFromEnv, type StoryboardCatalog } from './providers';
+import { createTtsProviderFromEnv, type TtsProvider } from './tts';
+import { createImageProviderFromEnv, type ImageProvider } from './images';
+
+/**
+ * Everything the generation pipeline talks to. Each piece is swappable, so dev and tests can run fully offline.
+ */
+export interface GenerationServices {
+    storyboards: StoryboardCatalog; // Each request picks its provider and model from these
+    tts: TtsProvider;
+    images: ImageProvider;
+}
+
+export function createServicesFromEnv(env: Record<string, string | undefined> = process.env): GenerationServices {
+    return {
+        storyboards: createStoryboardCatalogFromEnv(env),
+        tts: createTtsProviderFromEnv(env),
+        images: createImageProviderFromEnv(env),
+    };
+}
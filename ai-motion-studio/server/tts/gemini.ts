@@ -0,0 +1,33 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import type { TtsProvider } from './types';
+import { encodeWav } from './wav';
+
+export const DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+// Gemini speech is returned as raw 16-bit mono PCM at 24kHz.
+const SAMPLE_RATE = 24000;
+
+export function createGeminiTtsProvider(apiKey: string, model: string = DEFAULT_TTS_MODEL, voiceName = 'Kore'): TtsProvider {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+        async synthesize(text, signal) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: [{ parts: [{ text }] }],
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+                    abortSignal: signal,
+                },
+            });
+            const data = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+            if (!data) {
+                throw new Error('The speech model returned no audio.');
+            }
+            const pcm = Buffer.from(data, 'base64');
+            const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+            return { audio: encodeWav(samples, SAMPLE_RATE), mimeType: 'audio/wav', durationInSeconds: samples.length / SAMPLE_RATE };
+        },
+    };
+}
@@ -0,0 +1,17 @@
+import { createGeminiTtsProvider } from './gemini';
+import { createToneTtsProvider } from './tone';
+import type { TtsProvider } from './types';
+
+export type { SpeechClip, TtsProvider } from './types';
+export { createGeminiTtsProvider, createToneTtsProvider };
+
+/**
+ * `TTS_PROVIDER=tone` forces the offline stand-in; otherwise Gemini speech is used when `GEMINI_API_KEY` is set.
+ */
+export function createTtsProviderFromEnv(env: Record<string, string | undefined> = process.env): TtsProvider {
+    const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+    if (env.TTS_PROVIDER === 'tone' || !apiKey) {
+        return createToneTtsProvider();
+    }
+    return createGeminiTtsProvider(apiKey, env.GEMINI_TTS_MODEL, env.GEMINI_TTS_VOICE);
+}
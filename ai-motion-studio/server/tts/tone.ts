@@ -0,0 +1,26 @@
+import type { TtsProvider } from './types';
+import { encodeWav } from './wav';
+
+const SAMPLE_RATE = 16000;
+// Roughly conversational pace, so clip lengths resemble real speech.
+const WORDS_PER_SECOND = 2.5;
+
+/**
+ * Offline stand-in for a real voice: a short sine blip followed by silence, as long as the line would take to read.
+ * Deterministic, so it is safe for tests and for working without network access.
+ */
+export function createToneTtsProvider({ frequency = 440, toneSeconds = 0.15 } = {}): TtsProvider {
+    return {
+        name: 'tone',
+        async synthesize(text) {
+            const words = text.trim().split(/\s+/).filter(Boolean).length;
+            const durationInSeconds = Math.max(0.5, words / WORDS_PER_SECOND);
+            const samples = new Int16Array(Math.round(durationInSeconds * SAMPLE_RATE));
+            const toneSamples = Math.min(samples.length, Math.round(toneSeconds * SAMPLE_RATE));
+            for (let i = 0; i < toneSamples; i++) {
+                samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.3 * 0x7fff);
+            }
+            return { audio: encodeWav(samples, SAMPLE_RATE), mimeType: 'audio/wav', durationInSeconds };
+        },
+    };
+}
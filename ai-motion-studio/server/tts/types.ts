@@ -0,0 +1,13 @@
+export interface SpeechClip {
+    audio: Uint8Array;
+    mimeType: string;
+    durationInSeconds: number;
+}
+
+/**
+ * Turns one narration line into an audio clip.
+ */
+export interface TtsProvider {
+    readonly name: string;
+    synthesize(text: string, signal?: AbortSignal): Promise<SpeechClip>;
+}
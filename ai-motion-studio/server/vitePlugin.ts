@@ -0,0 +1,38 @@
+import type { Connect, Plugin } from 'vite';
+import { createGenerationHandler, createProvidersHandler, GENERATION_ROUTES, PROVIDERS_ROUTE } from './http';
+import { createServicesFromEnv, type GenerationServices } from './services';
+import { createGatewayFromEnv, type Gateway } from './gateway';
+
+/**
+ * Serves the generation endpoint from the Vite dev and preview servers, so `npm run dev` works without a separate backend.
+ */
+export function generationApi(env: Record<string, string | undefined>): Plugin {
+    // Created lazily so `vite build` never touches provider configuration.
+    let services: GenerationServices | undefined;
+    let gateway: Gateway | undefined;
+    const getServices = () => services ??= createServicesFromEnv({ ...process.env, ...env });
+    const getGateway = () => gateway ??= createGatewayFromEnv({ ...process.env, ...env });
+    const handleGeneration = createGenerationHandler(getServices, getGateway);
+    const handleProviders = createProvidersHandler(getServices, getGateway);
+
+    const middleware: Connect.NextHandleFunction = (req, res, next) => {
+        const path = req.url?.split('?')[0] ?? '';
+        if (path === PROVIDERS_ROUTE) {
+            handleProviders(req, res).catch(next);
+        } else if (GENERATION_ROUTES.includes(path)) {
+            handleGeneration(req, res).catch(next);
+        } else {
+            next();
+        }
+    };
+
+    return {
+        name: 'generation-api',
+        configureServer(server) {
+            server.middlewares.use(middleware);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(middleware);
+        },
+    };
+}
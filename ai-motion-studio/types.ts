@@ -1,39 +1,289 @@
 
 export type AspectRatio = '16:9' | '9:16' | '1:1';
 
-export type ShapeType = 'rectangle' | 'circle';
+export type ShapeType = 'rectangle' | 'circle' | 'polygon' | 'star';
+
+export type ElementType = 'shape' | 'text' | 'logo' | 'image' | 'path' | 'line';
+
+export interface GradientStop {
+  offset: number; // 0 to 1
+  color: string;
+}
+
+export interface Gradient {
+  type: 'linear' | 'radial';
+  angle?: number; // Degrees, for linear gradients; 0 runs left to right, 90 top to bottom
+  stops: GradientStop[];
+}
+
+export type EasingPreset =
+  | 'linear' | 'hold'
+  | 'ease' | 'ease-in' | 'ease-out' | 'ease-in-out'
+  | 'ease-in-sine' | 'ease-out-sine' | 'ease-in-out-sine'
+  | 'ease-in-cubic' | 'ease-out-cubic' | 'ease-in-out-cubic'
+  | 'ease-in-quart' | 'ease-out-quart' | 'ease-in-out-quart'
+  | 'ease-in-expo' | 'ease-out-expo' | 'ease-in-out-expo'
+  | 'ease-in-back' | 'ease-out-back' | 'ease-in-out-back';
+
+export interface CubicBezierEasing {
+  type: 'cubic-bezier';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface SpringEasing {
+  type: 'spring';
+  mass?: number;
+  damping?: number;
+  stiffness?: number;
+}
+
+// Presets, CSS-style strings ('cubic-bezier(0.2, 0, 0, 1)', 'spring(1, 12, 100)') or structured objects.
+export type KeyframeEasing = EasingPreset | CubicBezierEasing | SpringEasing | string;
 
 export interface AnimationKeyframe {
   at: number; // Percentage of scene duration (0 to 1)
   style: React.CSSProperties;
+  easing?: KeyframeEasing; // Applies to the motion from this keyframe to the next; linear by default
+}
+
+// The scene's 3D camera at a keyframe. Unset values carry over from the keyframes around it.
+export interface CameraSettings {
+  x?: number; // Pan, in % of the frame width; positive moves the camera right
+  y?: number; // In % of the frame height; positive moves the camera down
+  z?: number; // Dolly in pixels; positive moves the camera toward the scene
+  zoom?: number; // Lens zoom, 1 for none; unlike a dolly it causes no parallax
+  orbit?: number; // Degrees the camera circles the focus point horizontally; positive to the right
+  tilt?: number; // Degrees the camera circles the focus point vertically; positive from above
+  focalLength?: number; // mm on a full-frame sensor, 50 by default; shorter lenses exaggerate depth
+  focus?: number; // Depth (as element `z`) that is in focus
+  aperture?: number; // Depth-of-field blur in pixels per 100px of depth away from focus; 0 turns it off
+}
+
+export interface CameraKeyframe extends AnimationKeyframe {
+  camera?: CameraSettings;
+}
+
+// Animates a text element's characters, words or lines one after another.
+export interface TextAnimation {
+  split: 'chars' | 'words' | 'lines';
+  stagger: number; // Delay between consecutive units, as a fraction of the scene duration
+  direction?: 'forward' | 'backward' | 'center' | 'edges' | 'random';
+  keyframes: AnimationKeyframe[]; // Per-unit keyframes, each unit's timeline shifted by its delay
 }
 
 export interface AnimationElement {
   id: string;
-  type: 'shape' | 'text';
+  type: ElementType;
   shape?: ShapeType;
+  sides?: number; // Corners of a polygon or points of a star
+  innerRadius?: number; // Star inner radius as a fraction of the outer one
+  gradient?: Gradient; // Fill for shapes and paths, drawn instead of the background color
   text?: string;
+  textAnimation?: TextAnimation;
+  logo?: string; // Name of a logo in the video's brand kit
+  src?: string; // Image URL; uploads and generated images are data URLs
+  imagePrompt?: string; // The model's description of an image to generate for this element
+  path?: string; // SVG path data in a 100x100 box
+  arrow?: 'none' | 'start' | 'end' | 'both'; // Arrowheads on a line
+  z?: number; // Depth in pixels behind the screen plane, for the camera; negative comes toward it
+  layer?: number; // Stacking order, higher in front; elements on the same layer keep their list order
   keyframes: AnimationKeyframe[];
 }
 
+export type TransitionType =
+  | 'fade'
+  | 'wipe-left' | 'wipe-right' | 'wipe-up' | 'wipe-down'
+  | 'slide-left' | 'slide-right' | 'slide-up' | 'slide-down'
+  | 'zoom'
+  | 'iris'
+  | 'glitch'
+  | 'cut';
+
+export interface SceneTransition {
+  type: TransitionType; // Directions are the way the motion travels
+  duration?: number; // Seconds; ignored for cuts
+  easing?: KeyframeEasing; // Linear by default
+}
+
 export interface Scene {
+  duration?: number; // Seconds on screen before the transition into the next scene
+  transition?: SceneTransition; // Into the next scene; on the last scene, only its length is used, as a final hold
   animationElements: AnimationElement[];
-  cameraAnimation?: AnimationKeyframe[];
+  cameraAnimation?: CameraKeyframe[]; // The 3D camera, plus CSS styles for the whole view (e.g. shake, filters)
+  imagePrompt?: string; // The model's description of a background image
   imageUrl?: string;
   backgroundColor?: string;
 }
 
+export interface NarrationClip {
+  src: string; // Audio URL, usually a data URL produced by the server
+  durationInSeconds: number;
+}
+
+export interface CaptionStyle {
+  position: 'top' | 'middle' | 'bottom';
+  fontSize: number; // Pixels at composition resolution
+  color: string;
+  backgroundColor: string; // 'transparent' for no box
+}
+
 export interface VideoResult {
   scenes: Scene[];
   narration?: string[];
+  narrationAudio?: (NarrationClip | null)[]; // One clip per scene, aligned with `narration`
+  showSubtitles?: boolean; // Burn narration lines into the picture
+  captionStyle?: CaptionStyle;
   aspectRatio: AspectRatio;
   textColor: string;
   transparentBackground: boolean;
   backgroundColor?: string;
+  duration?: number; // Requested total length in seconds
+  generation?: GenerationMetadata;
+  brandKit?: BrandKit; // Fonts, palette and logos the video is rendered with
+  soundtrack?: Soundtrack;
+}
+
+export interface BrandColor {
+  name: string;
+  value: string; // Hex color
+}
+
+export interface BrandFont {
+  family: string;
+  src: string; // Data URL of the uploaded font file, registered with @font-face
+  weight?: number;
+  style?: 'normal' | 'italic';
+}
+
+export interface BrandLogo {
+  name: string;
+  src: string; // Data URL of the uploaded image
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  palette: BrandColor[];
+  fonts: BrandFont[];
+  fontFamily?: string; // Family for text elements: one of `fonts` or an installed font
+  fontWeight?: number; // Default weight for text elements
+  fontScale?: number; // Multiplies the default size of text elements; 1 when unset
+  logos: BrandLogo[];
+  updatedAt: string; // ISO timestamp
+}
+
+// What the model is told about a brand kit; font files and logo images stay on the client.
+export interface BrandGuidelines {
+  name: string;
+  palette: BrandColor[];
+  fontFamily?: string;
+  logos: string[]; // Logo names
+}
+
+// A music track mixed under the video, with the analysis used for waveforms and beat snapping.
+export interface Soundtrack {
+  src: string; // Audio data URL
+  name: string;
+  durationInSeconds: number;
+  offset?: number; // Seconds into the track where the video starts
+  volume?: number; // 0-1, 1 by default
+  tempo: number; // Beats per minute
+  beats: number[]; // Seconds into the track
+  peaks: number[]; // Waveform overview: peak amplitude (0-1) of equal slices of the track
+}
+
+// What the model is told about the soundtrack, in video time.
+export interface MusicGuidelines {
+  tempo: number;
+  firstBeat: number; // Seconds
+}
+
+export type TemplateVariableType = 'text' | 'color' | 'image';
+
+export interface TemplateVariable {
+  name: string; // Written as {{name}} in the template's text, colors and image URLs
+  type: TemplateVariableType;
+  label?: string;
+  defaultValue?: string;
+}
+
+// A video whose copy, colors and images are {{name}} placeholders, filled in from a form without calling the model.
+export interface VideoTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  variables: TemplateVariable[];
+  videoResult: VideoResult;
+  builtIn?: boolean; // Ships with the app; can't be deleted
+  updatedAt: string; // ISO timestamp
+}
+
+export interface GenerationMetadata {
+  provider: string;
+  model: string;
+  createdAt: string; // ISO timestamp
 }
 
 export interface LoadingState {
   step: number;
   totalSteps: number;
   message: string;
-}
\ No newline at end of file
+}
+
+export interface GenerationConfig {
+  duration: number;
+  aspectRatio: AspectRatio;
+  generateNarration: boolean;
+  textColor: string;
+  transparentBackground: boolean;
+  backgroundColor?: string;
+  brand?: BrandGuidelines;
+  music?: MusicGuidelines;
+  provider?: string; // Storyboard provider and model to use; the server's defaults when unset
+  model?: string;
+}
+
+// A storyboard backend the server offers, as listed by `GET /api/providers`.
+export interface StoryboardProviderInfo {
+  name: string; // 'gemini', 'openai', 'fixture' or 'mock'
+  label: string;
+  models: string[];
+  defaultModel: string;
+}
+
+export interface GenerationRequest {
+  prompt: string;
+  config: GenerationConfig;
+  previous?: VideoResult; // Set for follow-up prompts: the video being refined, sent without its audio clips
+}
+
+// Server-sent events emitted by the generation endpoint, one JSON object per `data:` line.
+export type GenerationEvent =
+  | { type: 'progress'; data: LoadingState }
+  | { type: 'result'; data: VideoResult }
+  | { type: 'error'; data: string; issues?: StoryboardIssue[] };
+
+// A problem found while checking the model's storyboard. Repaired issues were fixed automatically;
+// fatal ones make the storyboard unusable.
+export interface StoryboardIssue {
+  path: string; // e.g. 'scenes[1].animationElements[0].keyframes[2].at'
+  message: string;
+  severity: 'repaired' | 'fatal';
+}
+
+// A saved project: the video plus what produced it. Serialized as `.motion.json` files.
+export interface MotionProject {
+  format: 'ai-motion-studio/project';
+  version: number;
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  prompt: string;
+  refinements: string[]; // Follow-up prompts applied after the first generation, in order
+  config: GenerationConfig;
+  videoResult: VideoResult;
+}
@@ -1,13 +1,12 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { generationApi } from './server/vitePlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      // Keys stay on the server: nothing from `env` is defined into the client bundle.
+      plugins: [generationApi(env)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),